@@ -1,206 +1,648 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Globe2, TrendingUp, BarChart } from 'lucide-react';
-import { fetchTopArticles, fetchTrendingArticles } from './api';
-import { Article, Language, Period, Tab } from './types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Globe2, TrendingUp, BarChart, CalendarDays, Star, Languages, Server, Columns2, Search, Activity } from 'lucide-react';
+import { parseISO } from 'date-fns';
+import {
+  SWISS_SCAN_ROWS,
+  TREND_CANDIDATES,
+  fetchChartMovements,
+  fetchLatestPublishedDate,
+  fetchSiteExclusionCounts,
+  getLatestAvailableDate,
+  subscribeToRevalidation
+} from './api';
+import { DATA_MODES, DataMode, loadRanking } from './dataSource';
+import { DEFAULT_TREND_OPTIONS } from './trends';
+import { AccessFilter, Article, LanguageSelection, Period, SwissFilter } from './types';
+import { DEFAULT_SWISS_THRESHOLD } from './swissRelevance';
+import { articleLanguage } from './articles';
+import ArticleDetailPanel from './components/ArticleDetailPanel';
+import ExportMenu from './components/ExportMenu';
+import WatchlistView from './components/WatchlistView';
+import ComparisonView from './components/ComparisonView';
+import TrafficOverviewView from './components/TrafficOverviewView';
+import ExclusionRulesPanel from './components/ExclusionRulesPanel';
+import TopicFacets from './components/TopicFacets';
+import RankingTable from './components/RankingTable';
+import { useViewState } from './hooks/useViewState';
+import { useWatchlist } from './hooks/useWatchlist';
+import { useDataMode } from './hooks/useDataMode';
+import { useExclusionRules } from './hooks/useExclusionRules';
+import { useLazyEnrichment } from './hooks/useLazyEnrichment';
+import { I18nContext, useUiLanguage } from './hooks/useI18n';
+import { UI_LANGUAGES, UI_LANGUAGE_NAMES, UiLanguage } from './i18n';
+import { PAGEVIEWS_START_DATE, formatViewDate } from './urlState';
+import { ACCESS_METHODS, isSuspicious } from './traffic';
+import { ChartMovement } from './chart';
+import { TopicFacet, articleFacet, isClassified, summarizeTopics } from './topics';
+import { SiteExclusionCounts, applyExclusionRules } from './exclusions';
+import { NetworkError, errorKind, isAbortError } from './errors';
+import { createSnapshot, readRankingSnapshot, saveRankingSnapshot } from './offline';
+import { DEFAULT_RANKING_SORT, RankingSort, rowKey, searchArticles, sortArticles } from './ranking';
+
+// Délai avant d'enregistrer le classement affiché, le temps que ses premières lignes soient enrichies
+const SNAPSHOT_DELAY = 2000;
 
 function App() {
-  const [activeTab, setActiveTab] = useState<Tab>('mostViewed');
-  const [selectedLanguage, setSelectedLanguage] = useState<Language>('fr');
-  const [activePeriod, setActivePeriod] = useState<Period>('daily');
-  const [swissOnly, setSwissOnly] = useState(false);
+  // Onglet, langue, période, filtres et date sont portés par l'URL (liens partageables)
+  const [view, updateView] = useViewState();
+  const { tab: activeTab, language: selectedLanguage, period: activePeriod, swissFilter, access, date: viewDate, compareLanguages } = view;
+  // Langue de l'interface, par défaut celle du wiki consulté
+  const [i18n, setUiLanguage] = useUiLanguage(selectedLanguage);
+  const { t, formatNumber, formatPercent, formatDate, formatDateTime } = i18n;
+  const [dataMode, setDataMode] = useDataMode();
   const [loading, setLoading] = useState(true);
   const [data, setData] = useState<Article[]>([]);
+  // Dernier jour de la période effectivement chargée
+  const [dataDate, setDataDate] = useState<Date | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState(new Date());
+  // Classement enregistré affiché faute de connexion : date de son chargement
+  const [offlineSince, setOfflineSince] = useState<Date | null>(null);
+  const [minTrendViews, setMinTrendViews] = useState(DEFAULT_TREND_OPTIONS.minViews);
+  const [swissThreshold, setSwissThreshold] = useState(DEFAULT_SWISS_THRESHOLD);
+  const [selectedArticle, setSelectedArticle] = useState<Article | null>(null);
+  const [showSuspicious, setShowSuspicious] = useState(false);
+  // Vues corrigées du trafic total du wiki : un creux de fêtes n'apparaît plus comme un recul
+  const [normalize, setNormalize] = useState(false);
+  const [topicFilter, setTopicFilter] = useState<TopicFacet | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [sort, setSort] = useState<RankingSort>(DEFAULT_RANKING_SORT);
+  const [exclusionRules, setExclusionRules] = useExclusionRules();
+  // Liste blanche transmise au chargement (pages écartées par le wiki), après une pause dans la saisie
+  const [siteAllowlist, setSiteAllowlist] = useState(exclusionRules.allowlist);
+  const [siteExcluded, setSiteExcluded] = useState<SiteExclusionCounts>({});
+  const watchlist = useWatchlist(i18n);
+  const [movements, setMovements] = useState<Map<string, ChartMovement>>(new Map());
+  // Classement complet chargé sans métadonnées : les lignes sont enrichies à l'affichage
+  const enrichment = useLazyEnrichment(selectedLanguage);
+
+  const latestDate = formatViewDate(getLatestAvailableDate());
+  const endDate = useMemo(() => (viewDate ? parseISO(viewDate) : undefined), [viewDate]);
+  // Chargement en cours : un nouveau chargement l'annule, pour qu'une réponse tardive
+  // ne remplace pas les résultats de filtres plus récents
+  const requestRef = useRef<AbortController | null>(null);
+
+  // `background` : rafraîchissement silencieux, sans indicateur de chargement
+  const fetchData = useCallback(async (background = false) => {
+    // Les onglets « Suivis », « Comparer » et « Trafic » chargent leurs propres données
+    if (activeTab === 'watchlist' || activeTab === 'compare' || activeTab === 'traffic') return;
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    const { signal } = controller;
+
+    if (!background) {
+      setLoading(true);
+      setError(null);
+    }
+
+    // Hors connexion : dernier classement enregistré pour cette vue (données les plus récentes seulement)
+    const showSnapshot = async () => {
+      const snapshot = endDate ? undefined : await readRankingSnapshot({ tab: activeTab, language: selectedLanguage, period: activePeriod, swissFilter, access });
+      if (!snapshot || signal.aborted) return false;
+      setData(snapshot.articles);
+      setDataDate(parseISO(snapshot.dataDate));
+      setLastUpdated(new Date(snapshot.savedAt));
+      setOfflineSince(new Date(snapshot.savedAt));
+      return true;
+    };
 
-  const fetchData = useCallback(async () => {
-    setLoading(true);
-    setError(null);
     try {
-      const articles = activeTab === 'mostViewed'
-        ? await fetchTopArticles(selectedLanguage, activePeriod, swissOnly)
-        : await fetchTrendingArticles(selectedLanguage, activePeriod, swissOnly);
+      if (!navigator.onLine && await showSnapshot()) return;
+      // Sans date choisie, la période se termine au dernier jour publié
+      const rankingDate = endDate ?? await fetchLatestPublishedDate(selectedLanguage, swissFilter, access, signal);
+      const articles = await loadRanking(activeTab, selectedLanguage, activePeriod, swissFilter, {
+        endDate: rankingDate,
+        swissThreshold,
+        access,
+        trend: { ...DEFAULT_TREND_OPTIONS, minViews: minTrendViews },
+        metadata: false,
+        normalize,
+        allowlist: siteAllowlist,
+        signal,
+      }, dataMode);
+      if (signal.aborted) return;
       setData(articles);
+      setDataDate(rankingDate);
       setLastUpdated(new Date());
+      setOfflineSince(null);
     } catch (err) {
-      setError('Une erreur est survenue lors du chargement des données. Veuillez réessayer plus tard.');
+      if (isAbortError(err)) return;
+      if (!background && err instanceof NetworkError && await showSnapshot()) return;
+      console.error('Error loading articles:', err);
+      if (!background) {
+        const kind = errorKind(err);
+        setError(t(kind === 'unknown' ? 'error.loadArticles' : `error.${kind}`));
+      }
     } finally {
-      setLoading(false);
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+        setLoading(false);
+      }
     }
-  }, [activeTab, selectedLanguage, activePeriod, swissOnly]);
+  }, [activeTab, selectedLanguage, activePeriod, swissFilter, access, endDate, minTrendViews, swissThreshold, normalize, siteAllowlist, dataMode, t]);
 
   useEffect(() => {
     fetchData();
+    return () => requestRef.current?.abort();
+  }, [fetchData]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSiteAllowlist(exclusionRules.allowlist), 500);
+    return () => clearTimeout(timer);
+  }, [exclusionRules.allowlist]);
+
+  // Pages écartées par le wiki, comptées après le chargement du classement (réponses en cache)
+  useEffect(() => {
+    setSiteExcluded({});
+    if ((activeTab !== 'mostViewed' && activeTab !== 'trending') || loading || !dataDate) return;
+    const controller = new AbortController();
+
+    fetchSiteExclusionCounts(selectedLanguage, activePeriod, swissFilter, { endDate: dataDate, access, allowlist: siteAllowlist, signal: controller.signal })
+      .then(result => {
+        if (!controller.signal.aborted) setSiteExcluded(result);
+      })
+      .catch(err => {
+        if (!isAbortError(err)) console.error('Error counting site exclusions:', err);
+      });
+
+    return () => controller.abort();
+  }, [activeTab, loading, selectedLanguage, activePeriod, swissFilter, access, dataDate, siteAllowlist]);
+
+  // Mouvements du classement, chargés après celui-ci (nombreux classements quotidiens)
+  useEffect(() => {
+    setMovements(new Map());
+    if (activeTab !== 'mostViewed' || loading || !dataDate) return;
+    const controller = new AbortController();
+
+    fetchChartMovements(selectedLanguage, activePeriod, swissFilter, { endDate: dataDate, swissThreshold, access, signal: controller.signal })
+      .then(result => {
+        if (!controller.signal.aborted) setMovements(result);
+      })
+      .catch(err => {
+        if (!isAbortError(err)) console.error('Error loading chart movements:', err);
+      });
+
+    return () => controller.abort();
+  }, [activeTab, loading, selectedLanguage, activePeriod, swissFilter, access, dataDate, swissThreshold]);
+
+  // Les réponses expirées sont servies depuis le cache puis rafraîchies :
+  // on recalcule la vue une fois les nouvelles données arrivées
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribeToRevalidation(() => {
+      clearTimeout(timer);
+      timer = setTimeout(() => fetchData(true), 500);
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
   }, [fetchData]);
 
-  const languages: { code: Language; name: string }[] = [
+  // Connexion retrouvée : le classement est rechargé en arrière-plan
+  useEffect(() => {
+    const refresh = () => fetchData(true);
+    window.addEventListener('online', refresh);
+    return () => window.removeEventListener('online', refresh);
+  }, [fetchData]);
+
+  // Classement affiché enregistré pour la consultation hors connexion, avec les métadonnées déjà chargées
+  const { apply: applyEnrichment } = enrichment;
+  useEffect(() => {
+    if (activeTab === 'watchlist' || activeTab === 'compare' || activeTab === 'traffic') return;
+    if (endDate || offlineSince || loading || error || !dataDate || data.length === 0) return;
+    const view = { tab: activeTab, language: selectedLanguage, period: activePeriod, swissFilter, access };
+    const timer = setTimeout(() => saveRankingSnapshot(view, createSnapshot(applyEnrichment(data), dataDate)), SNAPSHOT_DELAY);
+    return () => clearTimeout(timer);
+  }, [activeTab, selectedLanguage, activePeriod, swissFilter, access, endDate, offlineSince, loading, error, dataDate, data, applyEnrichment]);
+
+  const closeDetail = useCallback(() => setSelectedArticle(null), []);
+
+  // Les entrées au trafic probablement artificiel sont masquées par défaut,
+  // puis les règles d'exclusion de l'utilisateur s'appliquent
+  const enrichedData = enrichment.apply(data);
+  const suspiciousCount = enrichedData.filter(isSuspicious).length;
+  const unfilteredData = showSuspicious ? enrichedData : enrichedData.filter(article => !isSuspicious(article));
+  const { articles: visibleData, excluded } = applyExclusionRules(unfilteredData, exclusionRules);
+  // Le rang affiché reste celui du classement filtré, quels que soient la recherche et le tri.
+  // Les homonymies ne sont connues que des lignes enrichies : leur masquage laisse les rangs inchangés
+  // pour qu'ils ne bougent pas au défilement.
+  const rankedData = exclusionRules.hideDisambiguation
+    ? applyExclusionRules(unfilteredData, { ...exclusionRules, hideDisambiguation: false }).articles
+    : visibleData;
+  const ranks = new Map(rankedData.map((article, index) => [rowKey(article), index + 1]));
+  const analyzedRows = rankedData.filter(isClassified).length;
+  // Thèmes des seules lignes enrichies ; un thème absent de la nouvelle liste ne filtre plus rien
+  const classifiedData = visibleData.filter(isClassified);
+  const topicShares = summarizeTopics(classifiedData);
+  const activeTopic = topicShares.some(({ topic }) => topic === topicFilter) ? topicFilter : null;
+  const topicData = activeTopic ? classifiedData.filter(article => articleFacet(article) === activeTopic) : visibleData;
+  const displayedData = sortArticles(searchArticles(topicData, searchQuery), sort);
+  // Classement affiché sans métadonnées pour les articles dont l'enrichissement a échoué
+  const unenrichedCount = enrichedData.filter(article => article.metadataUnavailable).length;
+  // Données d'hier pas encore publiées : la période se termine la veille
+  const showsPreviousDay = !viewDate && dataDate !== null && formatViewDate(dataDate) !== latestDate;
+
+  const languages: { code: LanguageSelection; name: string }[] = [
     { code: 'fr', name: 'Français' },
-    { code: 'en', name: 'English' },
     { code: 'de', name: 'Deutsch' },
+    { code: 'it', name: 'Italiano' },
+    { code: 'rm', name: 'Rumantsch' },
+    { code: 'en', name: 'English' },
     { code: 'es', name: 'Español' },
+    { code: 'ch', name: t('language.ch') },
   ];
 
-  const periods: { value: Period; label: string }[] = [
-    { value: 'daily', label: 'Temps réel' },
-    { value: '48h', label: '48 heures' },
-    { value: 'weekly', label: 'Semaine' },
-    { value: 'monthly', label: 'Mois' },
-  ];
+  const periods: Period[] = ['daily', '48h', 'weekly', 'monthly'];
+
+  const accessFilters: AccessFilter[] = ['all-access', ...ACCESS_METHODS];
+
+  const minViewsOptions = [0, 1000, 5000, 20000];
+
+  const swissThresholdOptions = [0.3, 0.5, 0.7, 0.9];
+
+  const swissFilters: SwissFilter[] = ['none', 'readers', 'topics'];
 
   return (
-    <div className="min-h-screen bg-gray-50">
-      <header className="bg-white shadow-sm">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-2">
-              <Globe2 className="h-8 w-8 text-blue-600" />
-              <h1 className="text-2xl font-bold text-gray-900">WikiTrends</h1>
+    <I18nContext.Provider value={i18n}>
+      <div className="min-h-screen bg-gray-50">
+        <header className="bg-white shadow-sm">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Globe2 className="h-8 w-8 text-blue-600" />
+                <h1 className="text-2xl font-bold text-gray-900">WikiTrends</h1>
+              </div>
+              <div className="flex space-x-4">
+                {languages.map(({ code, name }) => (
+                  <button
+                    key={code}
+                    onClick={() => updateView({ language: code })}
+                    className={`px-3 py-2 rounded-md text-sm font-medium ${
+                      selectedLanguage === code
+                        ? 'bg-blue-100 text-blue-700'
+                        : 'text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {name}
+                  </button>
+                ))}
+                <label className="flex items-center space-x-1 text-sm text-gray-500">
+                  <Languages className="h-4 w-4" />
+                  <select
+                    value={i18n.language}
+                    onChange={(e) => setUiLanguage(e.target.value as UiLanguage)}
+                    className="rounded-md border-gray-300 text-sm"
+                    aria-label={t('uiLanguage.label')}
+                  >
+                    {UI_LANGUAGES.map(code => (
+                      <option key={code} value={code}>{UI_LANGUAGE_NAMES[code]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center space-x-1 text-sm text-gray-500">
+                  <Server className="h-4 w-4" />
+                  <select
+                    value={dataMode}
+                    onChange={(e) => setDataMode(e.target.value as DataMode)}
+                    className="rounded-md border-gray-300 text-sm"
+                    aria-label={t('dataMode.label')}
+                  >
+                    {DATA_MODES.map(mode => (
+                      <option key={mode} value={mode}>{t(`dataMode.${mode}`)}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
             </div>
-            <div className="flex space-x-4">
-              {languages.map(({ code, name }) => (
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="bg-white rounded-lg shadow">
+            <div className="border-b border-gray-200">
+              <div className="flex">
                 <button
-                  key={code}
-                  onClick={() => setSelectedLanguage(code)}
-                  className={`px-3 py-2 rounded-md text-sm font-medium ${
-                    selectedLanguage === code
-                      ? 'bg-blue-100 text-blue-700'
-                      : 'text-gray-500 hover:text-gray-700'
+                  onClick={() => updateView({ tab: 'mostViewed' })}
+                  className={`flex items-center px-6 py-4 text-sm font-medium border-b-2 ${
+                    activeTab === 'mostViewed'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700'
                   }`}
                 >
-                  {name}
+                  <BarChart className="h-5 w-5 mr-2" />
+                  {t('tab.mostViewed')}
                 </button>
-              ))}
-            </div>
-          </div>
-        </div>
-      </header>
-
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="bg-white rounded-lg shadow">
-          <div className="border-b border-gray-200">
-            <div className="flex">
-              <button
-                onClick={() => setActiveTab('mostViewed')}
-                className={`flex items-center px-6 py-4 text-sm font-medium border-b-2 ${
-                  activeTab === 'mostViewed'
-                    ? 'border-blue-500 text-blue-600'
-                    : 'border-transparent text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                <BarChart className="h-5 w-5 mr-2" />
-                Articles les plus consultés
-              </button>
-              <button
-                onClick={() => setActiveTab('trending')}
-                className={`flex items-center px-6 py-4 text-sm font-medium border-b-2 ${
-                  activeTab === 'trending'
-                    ? 'border-blue-500 text-blue-600'
-                    : 'border-transparent text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                <TrendingUp className="h-5 w-5 mr-2" />
-                Articles en progression
-              </button>
-            </div>
-          </div>
-
-          <div className="p-4">
-            <div className="flex flex-wrap gap-4 mb-6">
-              {periods.map(({ value, label }) => (
                 <button
-                  key={value}
-                  onClick={() => setActivePeriod(value)}
-                  className={`px-4 py-2 rounded-md text-sm font-medium ${
-                    activePeriod === value
-                      ? 'bg-blue-600 text-white'
-                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  onClick={() => updateView({ tab: 'trending' })}
+                  className={`flex items-center px-6 py-4 text-sm font-medium border-b-2 ${
+                    activeTab === 'trending'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700'
                   }`}
                 >
-                  {label}
+                  <TrendingUp className="h-5 w-5 mr-2" />
+                  {t('tab.trending')}
                 </button>
-              ))}
-              <label className="flex items-center space-x-2 ml-auto">
-                <input
-                  type="checkbox"
-                  checked={swissOnly}
-                  onChange={(e) => setSwissOnly(e.target.checked)}
-                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                />
-                <span className="text-sm text-gray-700">Internautes suisses uniquement</span>
-              </label>
+                <button
+                  onClick={() => updateView({ tab: 'watchlist' })}
+                  className={`flex items-center px-6 py-4 text-sm font-medium border-b-2 ${
+                    activeTab === 'watchlist'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  <Star className="h-5 w-5 mr-2" />
+                  {t('tab.watchlist', { count: watchlist.items.length })}
+                </button>
+                <button
+                  onClick={() => updateView({ tab: 'compare' })}
+                  className={`flex items-center px-6 py-4 text-sm font-medium border-b-2 ${
+                    activeTab === 'compare'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  <Columns2 className="h-5 w-5 mr-2" />
+                  {t('tab.compare')}
+                </button>
+                <button
+                  onClick={() => updateView({ tab: 'traffic' })}
+                  className={`flex items-center px-6 py-4 text-sm font-medium border-b-2 ${
+                    activeTab === 'traffic'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  <Activity className="h-5 w-5 mr-2" />
+                  {t('tab.traffic')}
+                </button>
+              </div>
             </div>
 
-            {error ? (
-              <div className="text-red-600 p-4 text-center">{error}</div>
-            ) : loading ? (
-              <div className="flex justify-center items-center h-64">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-              </div>
-            ) : (
-              <div className="overflow-x-auto">
-                <table className="min-w-full divide-y divide-gray-200">
-                  <thead className="bg-gray-50">
-                    <tr>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Rang
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Article
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Vues
-                      </th>
-                      {activeTab === 'trending' && (
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Progression
-                        </th>
-                      )}
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    {data.map((item, index) => (
-                      <tr key={item.article} className="hover:bg-gray-50">
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {index + 1}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <a
-                            href={`https://${selectedLanguage}.wikipedia.org/wiki/${item.article}`}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-blue-600 hover:text-blue-800"
-                          >
-                            {decodeURIComponent(item.article.replace(/_/g, ' '))}
-                          </a>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {item.views.toLocaleString()}
-                        </td>
-                        {activeTab === 'trending' && (
-                          <td className="px-6 py-4 whitespace-nowrap text-sm">
-                            <span className={item.growth && item.growth > 0 ? 'text-green-600' : 'text-red-600'}>
-                              {item.growth && item.growth > 0 ? '+' : ''}
-                              {item.growth?.toLocaleString()} ({item.growthPercentage?.toFixed(1)}%)
-                            </span>
-                          </td>
-                        )}
-                      </tr>
+            <div className="p-4">
+              {activeTab === 'watchlist' ? (
+                <WatchlistView
+                  items={watchlist.items}
+                  settings={watchlist.settings}
+                  onSettingsChange={watchlist.setSettings}
+                  onRemove={watchlist.toggle}
+                  onSelect={setSelectedArticle}
+                />
+              ) : activeTab === 'compare' ? (
+                <ComparisonView
+                  languages={compareLanguages}
+                  period={activePeriod}
+                  swissFilter={swissFilter}
+                  access={access}
+                  endDate={endDate}
+                  swissThreshold={swissThreshold}
+                  onChange={updateView}
+                />
+              ) : activeTab === 'traffic' ? (
+                <TrafficOverviewView
+                  language={selectedLanguage}
+                  period={activePeriod}
+                  access={access}
+                  endDate={endDate}
+                  swissThreshold={swissThreshold}
+                  onChange={updateView}
+                />
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-4 mb-2">
+                    {periods.map(value => (
+                      <button
+                        key={value}
+                        onClick={() => updateView({ period: value })}
+                        className={`px-4 py-2 rounded-md text-sm font-medium ${
+                          activePeriod === value
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                      >
+                        {t(`period.${value}`)}
+                      </button>
                     ))}
-                  </tbody>
-                </table>
-              </div>
-            )}
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <CalendarDays className="h-4 w-4 text-gray-500" />
+                      <input
+                        type="date"
+                        value={viewDate ?? latestDate}
+                        min={PAGEVIEWS_START_DATE}
+                        max={latestDate}
+                        onChange={(e) => updateView({ date: e.target.value || null })}
+                        className="rounded-md border-gray-300 text-sm"
+                      />
+                    </label>
+                    {viewDate && (
+                      <button
+                        onClick={() => updateView({ date: null })}
+                        className="text-sm text-blue-600 hover:text-blue-800"
+                      >
+                        {t('filters.latestData')}
+                      </button>
+                    )}
+                    <select
+                      value={access}
+                      onChange={(e) => updateView({ access: e.target.value as AccessFilter })}
+                      className="rounded-md border-gray-300 text-sm"
+                      aria-label={t('access.label')}
+                    >
+                      {accessFilters.map(value => (
+                        <option key={value} value={value}>{t(`access.${value}`)}</option>
+                      ))}
+                    </select>
+                    {activeTab === 'trending' && (
+                      <label className="flex items-center space-x-2 text-sm text-gray-700">
+                        <span>{t('filters.minViews')}</span>
+                        <select
+                          value={minTrendViews}
+                          onChange={(e) => setMinTrendViews(Number(e.target.value))}
+                          className="rounded-md border-gray-300 text-sm"
+                        >
+                          {minViewsOptions.map(value => (
+                            <option key={value} value={value}>{formatNumber(value)}</option>
+                          ))}
+                        </select>
+                        <span className="text-xs text-gray-500">
+                          {swissFilter === 'topics'
+                            ? t('filters.trendCandidatesSwiss', { count: TREND_CANDIDATES, rows: SWISS_SCAN_ROWS })
+                            : t('filters.trendCandidates', { count: TREND_CANDIDATES })}
+                        </span>
+                      </label>
+                    )}
+                    {swissFilter === 'topics' && (
+                      <label className="flex items-center space-x-2 text-sm text-gray-700">
+                        <span>{t('swiss.threshold')}</span>
+                        <select
+                          value={swissThreshold}
+                          onChange={(e) => setSwissThreshold(Number(e.target.value))}
+                          className="rounded-md border-gray-300 text-sm"
+                        >
+                          {swissThresholdOptions.map(value => (
+                            <option key={value} value={value}>{formatPercent(value)}</option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
+                    <div className="flex ml-auto rounded-md border border-gray-200 overflow-hidden">
+                      {swissFilters.map(value => (
+                        <button
+                          key={value}
+                          onClick={() => updateView({ swissFilter: value })}
+                          title={t(`swiss.${value}.description`)}
+                          className={`px-3 py-2 text-sm font-medium ${
+                            swissFilter === value
+                              ? 'bg-red-600 text-white'
+                              : 'bg-white text-gray-700 hover:bg-gray-100'
+                          }`}
+                        >
+                          {t(`swiss.${value}`)}
+                        </button>
+                      ))}
+                    </div>
+                    <ExportMenu
+                      articles={displayedData}
+                      ranks={ranks}
+                      context={{
+                        tab: activeTab,
+                        language: selectedLanguage,
+                        period: activePeriod,
+                        swissFilter,
+                        access: access === 'all-access' ? undefined : access,
+                        date: viewDate ?? undefined,
+                      }}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between mb-4 text-xs text-gray-500">
+                    <div className="flex items-center space-x-4">
+                      <label className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          checked={showSuspicious}
+                          onChange={(e) => setShowSuspicious(e.target.checked)}
+                          className="rounded border-gray-300"
+                        />
+                        <span>{t('filters.showSuspicious', { count: suspiciousCount })}</span>
+                      </label>
+                      <label className="flex items-center space-x-2" title={t('filters.normalizeDescription')}>
+                        <input
+                          type="checkbox"
+                          checked={normalize}
+                          onChange={(e) => setNormalize(e.target.checked)}
+                          className="rounded border-gray-300"
+                        />
+                        <span>{t('filters.normalize')}</span>
+                      </label>
+                      <ExclusionRulesPanel
+                        rules={exclusionRules}
+                        excluded={excluded}
+                        siteExcluded={siteExcluded}
+                        analyzedRows={analyzedRows}
+                        totalRows={rankedData.length}
+                        onChange={setExclusionRules}
+                      />
+                    </div>
+                    <p className="text-right">
+                      {t(`swiss.${swissFilter}.description`)}
+                    </p>
+                  </div>
+
+                  {!error && !loading && (
+                    <>
+                      <TopicFacets
+                        shares={topicShares}
+                        selected={activeTopic}
+                        totalRows={visibleData.length}
+                        onSelect={setTopicFilter}
+                      />
+                      <div className="flex items-center mb-2 space-x-3">
+                        <label className="relative w-full max-w-sm">
+                          <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                          <input
+                            type="search"
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                            placeholder={t('filters.search')}
+                            aria-label={t('filters.search')}
+                            className="w-full pl-9 rounded-md border-gray-300 text-sm"
+                          />
+                        </label>
+                        {searchQuery.trim() && (
+                          <span className="text-xs text-gray-500">
+                            {t('filters.searchResults', { count: displayedData.length, total: topicData.length })}
+                          </span>
+                        )}
+                      </div>
+                      {offlineSince && (
+                        <p className="mb-2 px-3 py-2 rounded-md bg-amber-50 text-xs text-amber-700">
+                          {t('notice.offline', { date: formatDateTime(offlineSince) })}
+                        </p>
+                      )}
+                      {showsPreviousDay && (
+                        <p className="mb-2 px-3 py-2 rounded-md bg-blue-50 text-xs text-blue-700">
+                          {t('notice.previousDay', { missing: formatDate(latestDate), date: formatDate(dataDate) })}
+                        </p>
+                      )}
+                      {normalize && (
+                        <p className="mb-2 px-3 py-2 rounded-md bg-blue-50 text-xs text-blue-700">
+                          {t('notice.normalized')}
+                        </p>
+                      )}
+                      {unenrichedCount > 0 && (
+                        <p className="mb-2 px-3 py-2 rounded-md bg-amber-50 text-xs text-amber-700">
+                          {t('notice.partialMetadata', { count: unenrichedCount })}
+                        </p>
+                      )}
+                    </>
+                  )}
+
+                  {error ? (
+                    <div className="text-red-600 p-4 text-center">{error}</div>
+                  ) : loading ? (
+                    <div className="flex justify-center items-center h-64">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                    </div>
+                  ) : (
+                    <RankingTable
+                      articles={displayedData}
+                      ranks={ranks}
+                      tab={activeTab}
+                      language={selectedLanguage}
+                      movements={movements}
+                      sort={sort}
+                      onSortChange={setSort}
+                      onSelect={setSelectedArticle}
+                      isWatched={watchlist.isWatched}
+                      onToggleWatch={watchlist.toggle}
+                      onVisibleRowsChange={enrichment.showRows}
+                    />
+                  )}
+                </>
+              )}
+            </div>
           </div>
-        </div>
-      </main>
-
-      <footer className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <p className="text-center text-sm text-gray-500">
-          Données fournies par l'API Wikimedia Pageviews. 
-          Dernière mise à jour: {lastUpdated.toLocaleString()}
-        </p>
-      </footer>
-    </div>
+        </main>
+
+        <footer className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <p className="text-center text-sm text-gray-500">
+            {t('footer.source')} {t('footer.updated', { date: formatDateTime(lastUpdated) })}
+          </p>
+        </footer>
+
+        {selectedArticle && (
+          <ArticleDetailPanel
+            article={selectedArticle}
+            language={articleLanguage(selectedArticle, selectedLanguage)}
+            period={activePeriod}
+            endDate={endDate}
+            onClose={closeDetail}
+          />
+        )}
+      </div>
+    </I18nContext.Provider>
   );
 }
 
@@ -0,0 +1,443 @@
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  enrichArticlesWithMetadata,
+  enrichVisibleArticles,
+  fetchChartMovements,
+  fetchLatestPublishedDate,
+  fetchSiteExclusionCounts,
+  fetchTopArticles,
+  fetchTrafficOverview,
+  fetchTrendingArticles,
+  fetchWikiTraffic,
+  filterSwissArticles,
+  fetchSiteExclusions,
+  filterUnwantedPages,
+  setProviders
+} from './api';
+import { NotFoundError } from './errors';
+import { FALLBACK_SITE_EXCLUSIONS } from './exclusions';
+import { createFixtureMetadataProvider, createFixturePageviewsProvider } from './providers/fixture';
+import { PageviewsProvider } from './providers/types';
+import { Article } from './types';
+
+const fixturesDir = fileURLToPath(new URL('../fixtures', import.meta.url));
+
+// Classement enregistré prolongé de `count` articles peu consultés, au-delà des 50 premières lignes
+function withLongTail(provider: PageviewsProvider, count: number): PageviewsProvider {
+  return {
+    ...provider,
+    async getTop(...args) {
+      const response = await provider.getTop(...args);
+      const tail = Array.from({ length: count }, (_, i) => ({ article: `Article_${i}`, views: 100 - i, rank: 100 + i }));
+      return { items: response.items.map(item => ({ ...item, articles: [...item.articles, ...tail] })) };
+    }
+  };
+}
+
+beforeEach(() => {
+  // Les fixtures couvrent le 1er mars 2026, soit « hier » pour l'application
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date(2026, 2, 2, 10));
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+
+  setProviders({
+    pageviews: createFixturePageviewsProvider(fixturesDir),
+    metadata: createFixtureMetadataProvider(fixturesDir)
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('filterUnwantedPages', () => {
+  it('removes special, project, user and talk pages along with main pages', () => {
+    const articles: Article[] = [
+      { article: 'Wikipédia:Accueil_principal', views: 1 },
+      { article: 'Spécial:Recherche', views: 1 },
+      { article: 'Utilisateur:Exemple', views: 1 },
+      { article: 'Discussion:Paris', views: 1 },
+      { article: 'Pagina_principale', views: 1 },
+      { article: 'Cookie_(informatique)', views: 1 },
+      { article: 'Gen%C3%A8ve', views: 1 },
+      { article: 'Paris', views: 1 }
+    ];
+
+    expect(filterUnwantedPages(articles).map(a => a.article)).toEqual(['Gen%C3%A8ve', 'Paris']);
+  });
+});
+
+describe('fetchSiteExclusions', () => {
+  it('builds the exclusions from the wiki namespaces, aliases and main page', async () => {
+    const site = await fetchSiteExclusions('fr');
+    const articles: Article[] = [
+      { article: 'Discussion_utilisateur:Exemple', views: 1 },
+      { article: 'WP:Bistro', views: 1 },
+      { article: 'Portail:Suisse', views: 1 },
+      { article: 'Wikipédia:Accueil_principal', views: 1 },
+      { article: 'Projet_Manhattan', views: 1 }
+    ];
+
+    expect(site.mainPages).toEqual(['Wikipédia:Accueil_principal']);
+    expect(filterUnwantedPages(articles, site).map(a => a.article)).toEqual(['Projet_Manhattan']);
+  });
+
+  it('falls back to the generic rules when the site info is unavailable', async () => {
+    expect(await fetchSiteExclusions('rm')).toBe(FALLBACK_SITE_EXCLUSIONS);
+  });
+});
+
+describe('fetchSiteExclusionCounts', () => {
+  it('counts the pages excluded by the wiki by reason', async () => {
+    expect(await fetchSiteExclusionCounts('fr', 'daily', 'none')).toEqual({ mainPage: 1, namespace: 4, technical: 1 });
+  });
+
+  it('leaves allowlisted pages in the ranking', async () => {
+    const options = { allowlist: ['Cookie (informatique)'] };
+    const articles = await fetchTopArticles('fr', 'daily', 'none', options);
+
+    expect(articles.map(a => a.article)).toContain('Cookie_(informatique)');
+    expect(await fetchSiteExclusionCounts('fr', 'daily', 'none', options)).toEqual({ mainPage: 1, namespace: 4 });
+  });
+});
+
+describe('fetchLatestPublishedDate', () => {
+  it('is yesterday once its rankings are published', async () => {
+    expect(await fetchLatestPublishedDate('fr')).toEqual(new Date(2026, 2, 1));
+  });
+
+  it('falls back to the day before while yesterday is not published', async () => {
+    vi.setSystemTime(new Date(2026, 2, 3, 6));
+
+    expect(await fetchLatestPublishedDate('fr')).toEqual(new Date(2026, 2, 1));
+  });
+});
+
+describe('fetchTopArticles', () => {
+  it('ranks the recorded daily list without unwanted pages and enriches it', async () => {
+    const articles = await fetchTopArticles('fr', 'daily', 'none');
+
+    expect(articles.map(a => a.article).slice(0, 4)).toEqual(['Genève', 'Roger_Federer', 'Votation_fédérale_du_1er_mars_2026', 'Kylian_Mbappé']);
+    expect(articles).toHaveLength(9);
+    expect(articles[0]).toMatchObject({
+      views: 45000,
+      dailyViews: [45000],
+      swissScore: 1,
+      metadata: { categories: ['Catégorie:Ville du canton de Genève', 'Catégorie:Ville de Suisse'] }
+    });
+  });
+
+  it('assigns a topic from the categories and description of each article', async () => {
+    const articles = await fetchTopArticles('fr', 'daily', 'none');
+    const topics = Object.fromEntries(articles.map(a => [a.article, a.topic]));
+
+    expect(topics).toMatchObject({
+      'Genève': 'places',
+      'Roger_Federer': 'sport',
+      'Votation_fédérale_du_1er_mars_2026': 'politics',
+      'Nestlé': 'companies'
+    });
+  });
+
+  it('breaks views down by access method and flags suspicious traffic', async () => {
+    const articles = await fetchTopArticles('fr', 'daily', 'none');
+    const byTitle = new Map(articles.map(a => [a.article, a]));
+
+    expect(byTitle.get('Genève')).toMatchObject({
+      accessViews: { desktop: 15750, 'mobile-web': 27000, 'mobile-app': 2250 },
+      suspicion: []
+    });
+    expect(byTitle.get('Tour_Eiffel')).toMatchObject({
+      accessViews: { desktop: 5820, 'mobile-web': 150, 'mobile-app': 30 },
+      suspicion: ['desktop-skew']
+    });
+    expect(byTitle.get('Kylian_Mbappé')).toMatchObject({
+      agentViews: { user: 25000, automated: 32000 },
+      suspicion: ['automated-traffic']
+    });
+  });
+
+  it('ranks a single access method', async () => {
+    const articles = await fetchTopArticles('fr', 'daily', 'none', { access: 'desktop' });
+
+    expect(articles.slice(0, 2).map(a => [a.article, a.views])).toEqual([['Genève', 15750], ['Roger_Federer', 12000]]);
+  });
+
+  it('ranks a past period when given an end date', async () => {
+    vi.setSystemTime(new Date(2026, 3, 15, 10));
+
+    const articles = await fetchTopArticles('fr', 'daily', 'none', { endDate: new Date(2026, 2, 1) });
+
+    expect(articles[0]).toMatchObject({ article: 'Genève', views: 45000 });
+  });
+
+  it('ends on the previous day while yesterday\'s data is not published', async () => {
+    vi.setSystemTime(new Date(2026, 2, 3, 6));
+
+    const articles = await fetchTopArticles('fr', 'daily', 'none');
+
+    expect(articles[0]).toMatchObject({ article: 'Genève', views: 45000 });
+  });
+
+  it('reports a day that is not published', async () => {
+    await expect(fetchTopArticles('fr', 'daily', 'none', { endDate: new Date(2026, 1, 20) }))
+      .rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('returns the full ranking, analysing only its first 50 rows', async () => {
+    setProviders({ pageviews: withLongTail(createFixturePageviewsProvider(fixturesDir), 60) });
+
+    const articles = await fetchTopArticles('fr', 'daily', 'none');
+
+    expect(articles).toHaveLength(69);
+    expect(articles[0]).toMatchObject({ article: 'Genève', swissScore: 1, metadata: expect.any(Object) });
+    expect(articles[68]).toEqual({ article: 'Article_59', views: 41, dailyViews: [41] });
+  });
+
+  it('corrects the views for the total traffic of each day when asked', async () => {
+    const articles = await fetchTopArticles('fr', '48h', 'none', { normalize: true });
+
+    // Samedi et dimanche, moins lus que la moyenne des quatre semaines, sont rehaussés
+    expect(articles.slice(0, 3).map(({ article, views }) => [article, views])).toEqual([
+      ['Roger_Federer', 86165],
+      ['Genève', 71230],
+      ['Paris', 45343]
+    ]);
+  });
+
+  it('leaves metadata to the display when asked', async () => {
+    const articles = await fetchTopArticles('fr', 'daily', 'none', { metadata: false });
+
+    expect(articles[0]).toMatchObject({ article: 'Genève', swissScore: 1 });
+    expect(articles.every(article => !article.metadata)).toBe(true);
+  });
+});
+
+describe('fetchChartMovements', () => {
+  it('derives rank changes and chart runs from the recorded daily lists', async () => {
+    const movements = await fetchChartMovements('fr', 'daily', 'none');
+
+    expect(movements.get('Genève')).toMatchObject({ status: 'up', previousRank: 3, delta: 2, daysInChart: 3, peakRank: 1 });
+    expect(movements.get('Roger_Federer')).toMatchObject({ status: 'down', previousRank: 1, daysInChart: 3 });
+    expect(movements.get('Votation_fédérale_du_1er_mars_2026')).toMatchObject({ status: 'new', daysInChart: 1 });
+    expect(movements.get('Kylian_Mbappé')).toMatchObject({ status: 're-entry', daysInChart: 1, peakRank: 3 });
+  });
+
+  it('builds the daily Swiss-topics charts without scoring each day', async () => {
+    const metadata = createFixtureMetadataProvider(fixturesDir);
+    const spy = vi.spyOn(metadata, 'getWikidataIds');
+    setProviders({ metadata });
+
+    const movements = await fetchChartMovements('fr', 'daily', 'topics');
+
+    // Période et période précédente seulement
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(movements.get('Genève')).toMatchObject({ daysInChart: 3, peakRank: 1 });
+    expect(movements.has('Kylian_Mbappé')).toBe(false);
+  });
+});
+
+describe('filterSwissArticles', () => {
+  it('keeps articles whose Wikidata relevance reaches the threshold', async () => {
+    const articles = (await fetchTopArticles('fr', 'daily', 'none')).map(({ article, views }) => ({ article, views }));
+
+    const swiss = await filterSwissArticles(articles, 'fr');
+
+    expect(swiss.map(a => a.article).sort()).toEqual([
+      'Genève', 'Lausanne', 'Nestlé', 'Roger_Federer', 'Votation_fédérale_du_1er_mars_2026'
+    ]);
+    expect(swiss.find(a => a.article === 'Lausanne')).toMatchObject({ wikidataId: 'Q807', swissSignals: ['location'] });
+  });
+
+  it('applies a configurable threshold', async () => {
+    const articles = (await fetchTopArticles('fr', 'daily', 'none')).map(({ article, views }) => ({ article, views }));
+
+    const swiss = await filterSwissArticles(articles, 'fr', 0.95);
+
+    expect(swiss.map(a => a.article).sort()).toEqual(['Genève', 'Votation_fédérale_du_1er_mars_2026']);
+  });
+
+  it('stops once enough Swiss articles are kept', async () => {
+    const articles = (await fetchTopArticles('fr', 'daily', 'none')).map(({ article, views }) => ({ article, views }));
+
+    const swiss = await filterSwissArticles(articles, 'fr', undefined, undefined, 2);
+
+    expect(swiss.map(a => a.article)).toEqual(['Genève', 'Roger_Federer']);
+  });
+
+  it('scores the first 1000 rows at most', async () => {
+    const metadata = createFixtureMetadataProvider(fixturesDir);
+    const getWikidataIds = vi.spyOn(metadata, 'getWikidataIds');
+    setProviders({ metadata });
+    const articles = Array.from({ length: 1500 }, (_, i) => ({ article: `Article_${i}`, views: 1500 - i }));
+
+    await filterSwissArticles(articles, 'fr');
+
+    expect(getWikidataIds.mock.calls.flatMap(([titles]) => titles)).toHaveLength(1000);
+  });
+});
+
+describe('fetchTrendingArticles', () => {
+  it('flags breakouts against each article\'s own baseline', async () => {
+    const trending = await fetchTrendingArticles('fr', 'daily', 'none');
+
+    expect(trending.map(a => a.article)).toEqual(['Votation_fédérale_du_1er_mars_2026', 'Genève', 'Kylian_Mbappé']);
+    expect(trending[0]).toMatchObject({ reliability: 'high', previousViews: 240 });
+    expect(trending[2].reliability).toBe('low');
+  });
+
+  it('flags strong spikes without any recent edit', async () => {
+    const trending = await fetchTrendingArticles('fr', 'daily', 'none');
+
+    expect(trending.map(a => a.suspicion)).toEqual([[], [], ['automated-traffic', 'unexplained-spike']]);
+  });
+
+  it('adds the edit activity of each article and flags edit-driven trends', async () => {
+    const trending = await fetchTrendingArticles('fr', 'daily', 'none');
+
+    expect(trending[0].editActivity).toMatchObject({
+      edits: 3,
+      editors: 3,
+      lastEdit: { user: 'Tessinois', summary: 'Résultats définitifs' },
+      editDriven: true
+    });
+    expect(trending[1].editActivity).toMatchObject({ edits: 0, editDriven: false });
+  });
+
+  it('leaves the edit activity unknown when the revision history is truncated', async () => {
+    const metadata = createFixtureMetadataProvider(fixturesDir);
+    const revisions = Array.from({ length: 500 }, (_, i) => ({ timestamp: `2026-03-01T${String(i % 24).padStart(2, '0')}:00:00Z` }));
+    vi.spyOn(metadata, 'getRevisions').mockImplementation(async title => ({ query: { pages: [{ title, revisions }] } }));
+    setProviders({ metadata });
+
+    const trending = await fetchTrendingArticles('fr', 'daily', 'none');
+
+    expect(trending.map(a => a.editActivity)).toEqual([undefined, undefined, undefined]);
+  });
+
+  it('compares views corrected for total traffic when asked', async () => {
+    const trending = await fetchTrendingArticles('fr', 'daily', 'none', { normalize: true });
+
+    expect(trending[0]).toMatchObject({ article: 'Votation_fédérale_du_1er_mars_2026', views: 30259, previousViews: 232 });
+  });
+
+  it('looks for Swiss-topic trends among the Swiss articles only', async () => {
+    const trending = await fetchTrendingArticles('fr', 'daily', 'topics');
+
+    expect(trending.map(a => a.article)).toEqual(['Votation_fédérale_du_1er_mars_2026', 'Genève']);
+  });
+
+  it('respects the minimum-views threshold', async () => {
+    const trending = await fetchTrendingArticles('fr', 'daily', 'none', {
+      trend: { minViews: 30000, minZScore: 2, minBaselineDays: 7 }
+    });
+
+    expect(trending.map(a => a.article)).toEqual(['Genève']);
+  });
+});
+
+describe('enrichArticlesWithMetadata', () => {
+  it('queries metadata in batches of 25 titles', async () => {
+    const metadata = createFixtureMetadataProvider(fixturesDir);
+    const spy = vi.spyOn(metadata, 'getPageMetadata');
+    setProviders({ metadata });
+
+    const articles = Array.from({ length: 60 }, (_, i) => ({ article: i === 0 ? 'Tour_Eiffel' : `Article_${i}`, views: 60 - i }));
+    const enriched = await enrichArticlesWithMetadata(articles, 'fr');
+
+    expect(spy.mock.calls.map(([titles]) => titles.length)).toEqual([25, 25, 10]);
+    expect(spy.mock.calls[0][0][0]).toBe('Tour Eiffel');
+    expect(enriched).toHaveLength(60);
+    expect(enriched[0].metadata?.extract).toContain('tour Eiffel');
+    expect(enriched[1].metadata).toBeUndefined();
+  });
+
+  it('enriches titles containing a literal percent sign', async () => {
+    const metadata = createFixtureMetadataProvider(fixturesDir);
+    const spy = vi.spyOn(metadata, 'getPageMetadata');
+    setProviders({ metadata });
+
+    const enriched = await enrichArticlesWithMetadata([{ article: '100%_Wolle', views: 1 }, { article: 'Paris', views: 1 }], 'fr');
+
+    expect(spy.mock.calls[0][0]).toEqual(['100% Wolle', 'Paris']);
+    expect(enriched.map(article => article.article)).toEqual(['100%_Wolle', 'Paris']);
+  });
+
+  it('keeps the articles, flagged, when the metadata source fails', async () => {
+    const metadata = createFixtureMetadataProvider(fixturesDir);
+    vi.spyOn(metadata, 'getPageMetadata').mockRejectedValue(new Error('offline'));
+    setProviders({ metadata });
+
+    const articles = [{ article: 'Paris', views: 1 }];
+
+    expect(await enrichArticlesWithMetadata(articles, 'fr')).toEqual([{ article: 'Paris', views: 1, metadataUnavailable: true }]);
+  });
+
+  it('stops when the load is cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(enrichArticlesWithMetadata([{ article: 'Paris', views: 1 }], 'fr', controller.signal))
+      .rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('marks disambiguation pages', async () => {
+    const [mercure, paris] = await enrichArticlesWithMetadata([{ article: 'Mercure', views: 2 }, { article: 'Paris', views: 1 }], 'fr');
+
+    expect(mercure.disambiguation).toBe(true);
+    expect(paris.disambiguation).toBeUndefined();
+  });
+});
+
+describe('enrichVisibleArticles', () => {
+  it('scores and describes the rows brought into view', async () => {
+    const [geneve, paris] = await enrichVisibleArticles([{ article: 'Genève', views: 2 }, { article: 'Paris', views: 1 }], 'fr');
+
+    expect(geneve).toMatchObject({ swissScore: 1, metadata: { categories: expect.arrayContaining(['Catégorie:Ville de Suisse']) } });
+    expect(paris.metadata?.extract).toBeDefined();
+  });
+
+  it('enriches merged rows with the wiki of each article', async () => {
+    const metadata = createFixtureMetadataProvider(fixturesDir);
+    const spy = vi.spyOn(metadata, 'getPageMetadata');
+    setProviders({ metadata });
+
+    await enrichVisibleArticles([{ article: 'Genève', views: 2, mainLanguage: 'fr' }], 'ch');
+
+    expect(spy).toHaveBeenCalledWith(['Genève'], 'fr', undefined);
+  });
+});
+
+describe('fetchWikiTraffic', () => {
+  it('returns the total daily views of the wiki', async () => {
+    expect(await fetchWikiTraffic('fr', new Date(2026, 1, 27), new Date(2026, 2, 1))).toEqual([
+      { date: '2026-02-27', views: 22127000 },
+      { date: '2026-02-28', views: 19841000 },
+      { date: '2026-03-01', views: 20745000 }
+    ]);
+  });
+});
+
+describe('fetchTrafficOverview', () => {
+  it('measures the share of the top 50 and of Swiss topics in the total traffic', async () => {
+    const overview = await fetchTrafficOverview('fr', 'daily');
+
+    expect(overview.totals).toHaveLength(365);
+    expect(overview.periodViews).toBe(20745000);
+    expect(overview.topShare).toBeCloseTo(0.0093);
+    expect(overview.swissShare).toBeCloseTo(0.0064);
+  });
+
+  it('derives the weekly and seasonal patterns of the past year', async () => {
+    const overview = await fetchTrafficOverview('fr', 'daily');
+
+    expect(overview.weekdays).toHaveLength(7);
+    expect(Math.min(...overview.weekdays)).toBe(overview.weekdays[5]);
+    expect(overview.months.map(({ month }) => month)).toEqual([
+      '2025-03', '2025-04', '2025-05', '2025-06', '2025-07', '2025-08', '2025-09',
+      '2025-10', '2025-11', '2025-12', '2026-01', '2026-02', '2026-03'
+    ]);
+  });
+});
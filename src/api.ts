@@ -1,380 +1,1303 @@
-import { Article, Language, Period, ApiResponse, MediaWikiResponse } from './types';
-import { format, subDays } from 'date-fns';
+import { AccessFilter, AccessMethod, Agent, Article, EditActivity, Language, LanguageSelection, Period, SwissFilter, ViewHistory, WikidataEntity } from './types';
+import { DEFAULT_TREND_OPTIONS, TrendOptions, detectTrends } from './trends';
+import { DEFAULT_SWISS_THRESHOLD, computeSwissRelevance } from './swissRelevance';
+import { ACCESS_METHODS, detectSuspicion, isStrongSpike, splitAccessViews } from './traffic';
+import { classifyTopic } from './topics';
+import { CHART_LOOKBACK_DAYS, CHART_REENTRY_DAYS, CHART_SIZE, ChartMovement, chartKey, computeMovements } from './chart';
+import { ComparisonRow, TrendingSplit, compareAttention, divergenceScore, splitTrending } from './comparison';
+import {
+  FALLBACK_SITE_EXCLUSIONS,
+  SiteExclusionCounts,
+  SiteExclusionReason,
+  SiteExclusions,
+  applySiteExclusions,
+  buildSiteExclusions,
+  decodeTitle
+} from './exclusions';
+import { PERIODS } from './urlState';
+import { NotFoundError, rethrowIfAborted } from './errors';
+import { summarizeEdits } from './edits';
+import { TrafficOverview, monthlyPattern, normalizeRanking, normalizeSeries, trafficFactors, weekdayPattern } from './overview';
+import { eachDayOfInterval, format, getDaysInMonth, isLastDayOfMonth, startOfDay, subDays } from 'date-fns';
+import { MetadataProvider, PageviewsProvider } from './providers/types';
+import { liveMetadataProvider, livePageviewsProvider } from './providers/live';
+
+export { subscribeToRevalidation } from './http';
+
+const SWISS_COUNTRY_CODE = 'CH';
+
+/** Wikis des quatre langues nationales, fusionnés en mode « Toute la Suisse » */
+export const SWISS_NATIONAL_LANGUAGES: Language[] = ['de', 'fr', 'it', 'rm'];
+// Nombre d'articles par wiki pris en compte avant fusion
+const MERGE_CANDIDATES_PER_LANGUAGE = 100;
+// Nombre de candidats évalués par le moteur de tendances (une série de référence par candidat) :
+// les premiers articles de la période, ou ses premiers sujets suisses avec ce filtre
+export const TREND_CANDIDATES = 100;
+// Lignes analysées avec le classement (pertinence suisse, trafic) ; les suivantes, jusqu'à
+// 1000 par jour, sont transmises brutes et enrichies à l'affichage (voir `enrichVisibleArticles`)
+const ANALYZED_ROWS = 50;
+// Profondeur évaluée par le filtre « Sujets suisses » : les sujets locaux se situent souvent vers
+// les rangs 200 à 800, mais chaque lot de 50 coûte plusieurs requêtes MediaWiki et Wikidata
+export const SWISS_SCAN_ROWS = 1000;
+// Sujets suisses retenus au plus par défaut : l'évaluation s'arrête une fois ce nombre atteint
+const SWISS_MATCHES = 200;
+// Jours précédant la période utilisés comme référence de chaque article
+const TREND_BASELINE_DAYS = 14;
+// Jours précédant la période où une modification peut expliquer un pic
+const EDIT_LOOKBACK_DAYS = 2;
+// Modifications chargées au plus par article, période et référence comprises (limite de `rvlimit`) :
+// au-delà, l'historique est tronqué et l'activité éditoriale tenue pour inconnue
+const MAX_REVISIONS = 500;
+// Historiques de modifications chargés en parallèle au plus
+const EDIT_REQUESTS_CONCURRENCY = 5;
+// Classements quotidiens des mouvements chargés en parallèle au plus
+const CHART_DAYS_CONCURRENCY = 4;
+// Trafic total chargé pour la normalisation : plus longue période (30 j) et sa référence de tendance
+const NORMALIZATION_WINDOW_DAYS = 60;
+// Trafic total présenté dans l'onglet « Trafic » : une année, pour le profil saisonnier
+const OVERVIEW_DAYS = 365;
+
+// Sources de données actives (API Wikimedia par défaut)
+let pageviewsProvider: PageviewsProvider = livePageviewsProvider;
+let metadataProvider: MetadataProvider = liveMetadataProvider;
+// Règles d'exclusion de chaque wiki, chargées une fois par session
+const siteExclusions = new Map<Language, Promise<SiteExclusions>>();
+
+/** Repli : donnée complémentaire indisponible, remplacée par une valeur par défaut */
+export type FallbackListener = (message: string, error: unknown) => void;
+
+const fallbackListeners = new Set<FallbackListener>();
 
-const API_BASE = "https://wikimedia.org/api/rest_v1/metrics/pageviews";
-const USER_AGENT = "HelvetiScan/1.0 (educational project)";
+/**
+ * Abonne `listener` aux replis de ce module ; tant qu'un abonné existe, ils ne sont plus
+ * journalisés sur la console. Retourne la fonction de désabonnement.
+ */
+export function subscribeToFallbacks(listener: FallbackListener): () => void {
+  fallbackListeners.add(listener);
+  return () => {
+    fallbackListeners.delete(listener);
+  };
+}
 
-// Cache borné en mémoire (max 100 entrées)
-const MAX_CACHE_SIZE = 100;
-const cache: Map<string, { data: unknown; timestamp: number }> = new Map();
-const CACHE_TTL = 15 * 60 * 1000; // 15 minutes
+function reportFallback(message: string, error: unknown): void {
+  if (fallbackListeners.size === 0) {
+    console.error(`${message}:`, error);
+    return;
+  }
+  fallbackListeners.forEach(listener => listener(message, error));
+}
+
+/**
+ * Remplace les sources de données utilisées par ce module (fixtures, tests, etc.)
+ */
+export function setProviders(providers: { pageviews?: PageviewsProvider; metadata?: MetadataProvider }): void {
+  pageviewsProvider = providers.pageviews ?? pageviewsProvider;
+  metadataProvider = providers.metadata ?? metadataProvider;
+  siteExclusions.clear();
+}
 
 /**
- * Récupère les données depuis l'API avec cache et retry
+ * Filtre les pages non désirées (espaces de noms hors articles, page d'accueil, pages techniques)
+ * selon les règles du wiki, ou des règles génériques à défaut
  */
-async function fetchFromAPI<T = unknown>(url: string): Promise<T> {
-  const now = Date.now();
+export function filterUnwantedPages(articles: Article[], site: SiteExclusions = FALLBACK_SITE_EXCLUSIONS): Article[] {
+  return applySiteExclusions(articles, site).articles;
+}
 
-  // Vérifier le cache
-  const cached = cache.get(url);
-  if (cached && (now - cached.timestamp) < CACHE_TTL) {
-    return cached.data as T;
+/**
+ * Règles d'exclusion d'un wiki d'après ses `siteinfo` (espaces de noms, alias, page d'accueil).
+ * En cas d'échec, les règles génériques sont utilisées et le chargement sera retenté.
+ */
+export function fetchSiteExclusions(language: Language): Promise<SiteExclusions> {
+  let exclusions = siteExclusions.get(language);
+  if (!exclusions) {
+    exclusions = metadataProvider.getSiteInfo(language)
+      .then(buildSiteExclusions)
+      .catch(error => {
+        reportFallback(`Error loading ${language} site info`, error);
+        siteExclusions.delete(language);
+        return FALLBACK_SITE_EXCLUSIONS;
+      });
+    siteExclusions.set(language, exclusions);
   }
+  return exclusions;
+}
 
-  // Logique de retry avec backoff exponentiel
-  let retries = 3;
-  let delay = 1000;
-  let lastError: unknown;
+/**
+ * Nombre de jours couverts par chaque période.
+ */
+function getPeriodLength(period: Period): number {
+  switch (period) {
+    case '48h': return 2;
+    case 'weekly': return 7;
+    case 'monthly': return 30;
+    case 'daily':
+    default: return 1;
+  }
+}
 
-  while (retries > 0) {
-    try {
-      const response = await fetch(url, {
-        headers: { 'User-Agent': USER_AGENT }
-      });
+/**
+ * Retourne les jours (du plus ancien au plus récent) de la fenêtre se terminant à `endDate`.
+ */
+function getPeriodDays(period: Period, endDate: Date): Date[] {
+  const length = getPeriodLength(period);
+  return eachDayOfInterval({ start: subDays(endDate, length - 1), end: endDate });
+}
 
-      if (!response.ok) {
-        throw new Error(`API request failed: ${response.statusText} (${response.status})`);
-      }
+/**
+ * Dernier jour publié : les données du jour courant ne sont pas encore disponibles.
+ */
+export function getLatestAvailableDate(): Date {
+  return startOfDay(subDays(new Date(), 1));
+}
 
-      const data = await response.json();
+/**
+ * Dernier jour dont les classements de tous les wikis donnés sont publiés : hier, ou avant-hier
+ * tant que Wikimedia n'a pas publié ceux d'hier (dans le courant de la matinée).
+ * Le filtre « Internautes suisses » s'appuie sur le classement par pays.
+ */
+async function latestPublishedDate(
+  wikis: Language[],
+  swissFilter: SwissFilter,
+  access: AccessFilter,
+  signal?: AbortSignal
+): Promise<Date> {
+  const latest = getLatestAvailableDate();
 
-      // Borner la taille du cache
-      if (cache.size >= MAX_CACHE_SIZE) {
-        const oldestKey = cache.keys().next().value;
-        if (oldestKey) cache.delete(oldestKey);
-      }
-      cache.set(url, { data, timestamp: now });
+  try {
+    await Promise.all(swissFilter === 'readers'
+      ? [pageviewsProvider.getTopPerCountry(SWISS_COUNTRY_CODE, latest, access, signal)]
+      : wikis.map(wiki => pageviewsProvider.getTop(wiki, latest, false, access, signal)));
+    return latest;
+  } catch (error) {
+    if (error instanceof NotFoundError) return subDays(latest, 1);
+    throw error;
+  }
+}
 
-      return data as T;
-    } catch (error) {
-      console.error(`Attempt failed for ${url}:`, error);
-      lastError = error;
-      retries--;
+/**
+ * Dernier jour publié pour un classement (tous les wikis nationaux pour « Toute la Suisse ») :
+ * fin de période par défaut des classements
+ */
+export function fetchLatestPublishedDate(
+  language: LanguageSelection,
+  swissFilter: SwissFilter = 'none',
+  access: AccessFilter = 'all-access',
+  signal?: AbortSignal
+): Promise<Date> {
+  return latestPublishedDate(language === 'ch' ? SWISS_NATIONAL_LANGUAGES : [language], swissFilter, access, signal);
+}
+
+/**
+ * Bornes de la période affichée, se terminant à `endDate` (par défaut hier).
+ */
+export function getPeriodDateRange(period: Period, endDate: Date = getLatestAvailableDate()): { start: Date; end: Date } {
+  const days = getPeriodDays(period, endDate);
+  return { start: days[0], end: days[days.length - 1] };
+}
+
+/**
+ * Vrai si la fenêtre couvre exactement un mois calendaire (endpoint /all-days utilisable).
+ */
+function isFullCalendarMonth(days: Date[]): boolean {
+  const first = days[0];
+  const last = days[days.length - 1];
+  return first.getDate() === 1 &&
+    isLastDayOfMonth(last) &&
+    days.length === getDaysInMonth(first);
+}
+
+/**
+ * Récupère le top d'un jour pour les internautes suisses, restreint au wiki demandé.
+ * L'API mélange tous les projets et ne fournit que des vues arrondies (`views_ceil`).
+ */
+async function fetchSwissReadersTopList(
+  language: Language,
+  date: Date,
+  access: AccessFilter = 'all-access',
+  signal?: AbortSignal
+): Promise<Article[]> {
+  const project = `${language}.wikipedia`;
+  const data = await pageviewsProvider.getTopPerCountry(SWISS_COUNTRY_CODE, date, access, signal);
+  return data.items[0].articles
+    .filter(entry => entry.project === project)
+    .map(entry => ({ article: entry.article, views: entry.views_ceil }));
+}
 
-      if (retries > 0) {
-        await new Promise(resolve => setTimeout(resolve, delay));
-        delay *= 2;
+/**
+ * Additionne les classements quotidiens et re-classe les articles par vues cumulées.
+ * `dailyViews[i]` contient les vues du jour i (0 si l'article n'était pas dans le top ce jour-là).
+ */
+function aggregateDailyTopLists(dailyLists: Article[][]): Article[] {
+  const totals = new Map<string, Article & { dailyViews: number[] }>();
+
+  dailyLists.forEach((articles, dayIndex) => {
+    articles.forEach(({ article, views }) => {
+      let entry = totals.get(article);
+      if (!entry) {
+        entry = { article, views: 0, dailyViews: new Array(dailyLists.length).fill(0) };
+        totals.set(article, entry);
       }
-    }
+      entry.views += views;
+      entry.dailyViews[dayIndex] = views;
+    });
+  });
+
+  return [...totals.values()].sort((a, b) => b.views - a.views);
+}
+
+/**
+ * Récupère le classement cumulé sur une fenêtre de jours, sans les pages écartées par le wiki
+ * (sauf celles de `allowlist`), avec le nombre de pages écartées par motif.
+ * Utilise l'endpoint mensuel `all-days` lorsque la fenêtre correspond à un mois complet.
+ * Avec `swissReaders`, seules les lectures depuis la Suisse sont comptées.
+ */
+async function fetchAggregatedTopArticles(
+  language: Language,
+  days: Date[],
+  swissReaders = false,
+  access: AccessFilter = 'all-access',
+  signal?: AbortSignal,
+  allowlist: string[] = []
+): Promise<{ articles: Article[]; excluded: SiteExclusionCounts }> {
+  const site = await fetchSiteExclusions(language);
+
+  if (!swissReaders && isFullCalendarMonth(days)) {
+    const data = await pageviewsProvider.getTop(language, days[0], true, access, signal);
+    return applySiteExclusions(data.items[0].articles.map(({ article, views }) => ({ article, views })), site, allowlist);
   }
 
-  throw lastError;
+  const dailyLists = await Promise.all(days.map(async day => {
+    if (swissReaders) {
+      return fetchSwissReadersTopList(language, day, access, signal);
+    }
+    const data = await pageviewsProvider.getTop(language, day, false, access, signal);
+    return data.items[0].articles;
+  }));
+
+  return applySiteExclusions(aggregateDailyTopLists(dailyLists), site, allowlist);
 }
 
 /**
- * Filtre les pages non désirées comme les pages spéciales, discussions, etc.
+ * Classement complet (non enrichi) d'un wiki sur une fenêtre, avec le filtre suisse appliqué ;
+ * seules les `limit` premières lignes sont utiles à l'appelant si elle est donnée
  */
-function filterUnwantedPages(articles: Article[]): Article[] {
-  const unwantedPrefixes = [
-    'Wikipédia:', 'Wikipedia:', 'Special:', 'Spécial:',
-    'Speciale:', 'Spezial:', 'MediaWiki:', 'Help:', 'Aide:',
-    'Hilfe:', 'Ayuda:', 'Template:', 'Modèle:', 'Vorlage:',
-    'Plantilla:', 'User:', 'Utilisateur:', 'Benutzer:',
-    'Usuario:', 'Talk:', 'Discussion:', 'Diskussion:', 'Discusión:'
-  ];
+async function fetchRankedArticles(
+  language: Language,
+  days: Date[],
+  swissFilter: SwissFilter,
+  swissThreshold: number,
+  access: AccessFilter,
+  normalize: boolean,
+  signal?: AbortSignal,
+  limit?: number,
+  allowlist: string[] = []
+): Promise<Article[]> {
+  const { articles: ranked } = await fetchAggregatedTopArticles(language, days, swissFilter === 'readers', access, signal, allowlist);
+  const articles = normalize
+    ? normalizeRanking(ranked, days, await fetchTrafficFactors(language, days[days.length - 1], access, signal))
+    : ranked;
+
+  if (swissFilter === 'topics') {
+    return filterSwissArticles(articles, language, swissThreshold, signal, limit);
+  }
 
-  const unwantedPages = new Set([
-    'Wikipédia:Accueil_principal', 'Wikipedia:Main_Page',
-    'Wikipedia:Hauptseite', 'Wikipedia:Portada',
-    'Cookie_(informatique)', 'HTTP_cookie', 'Cookie',
-    'Recherche', 'Search', 'Suche', 'Búsqueda'
-  ]);
+  return limit === undefined ? articles : articles.slice(0, limit);
+}
 
-  return articles.filter(article => {
-    const decodedTitle = decodeURIComponent(article.article);
-    return !unwantedPrefixes.some(prefix => decodedTitle.startsWith(prefix)) &&
-           !unwantedPages.has(decodedTitle);
-  });
+/**
+ * Paramètres facultatifs des classements
+ */
+export interface RankingOptions {
+  /** Dernier jour de la période (par défaut le dernier jour publié, voir `fetchLatestPublishedDate`) */
+  endDate?: Date;
+  /** Seuil du filtre « Sujets suisses » */
+  swissThreshold?: number;
+  /** Critères de détection des tendances */
+  trend?: TrendOptions;
+  /** Mode d'accès compté dans les classements (par défaut tous) */
+  access?: AccessFilter;
+  /** Annulation du chargement (filtres modifiés entre-temps) */
+  signal?: AbortSignal;
+  /** Métadonnées chargées avec le classement (par défaut) ; sinon à l'affichage des lignes */
+  metadata?: boolean;
+  /**
+   * Vues corrigées du trafic total du wiki, chaque jour étant ramené au trafic moyen des quatre
+   * dernières semaines : un creux de fréquentation (fêtes, été) ne passe pas pour un recul
+   */
+  normalize?: boolean;
+  /** Liste blanche de l'utilisateur : ses pages restent classées même si le wiki les écarte */
+  allowlist?: string[];
 }
 
 /**
- * Calcule le nombre de jours à récupérer selon la période.
- * Note : l'API /top ne retourne que les données pour un jour donné.
- * Pour les périodes > daily, on récupère le jour le plus récent.
+ * Récupère le classement complet des articles les plus consultés ; seules les premières lignes
+ * sont analysées d'emblée
  */
-function getDaysToSubtract(period: Period): number {
-  switch (period) {
-    case '48h': return 1;
-    case 'weekly': return 1;
-    case 'monthly': return 1;
-    case 'daily':
-    default: return 1;
+export async function fetchTopArticles(
+  language: LanguageSelection,
+  period: Period,
+  swissFilter: SwissFilter,
+  options: RankingOptions = {}
+): Promise<Article[]> {
+  const {
+    swissThreshold = DEFAULT_SWISS_THRESHOLD,
+    access = 'all-access',
+    signal,
+    metadata = true,
+    normalize = false,
+    allowlist = []
+  } = options;
+  const endDate = options.endDate ?? await fetchLatestPublishedDate(language, swissFilter, access, signal);
+  const days = getPeriodDays(period, endDate);
+  const swissReaders = swissFilter === 'readers';
+
+  if (language === 'ch') {
+    const merged = await fetchMergedSwissRanking(days, swissFilter, swissThreshold, access, normalize, signal, allowlist);
+    return enrichMergedArticles(merged, days, swissReaders, metadata, signal);
   }
+
+  const articles = await fetchRankedArticles(language, days, swissFilter, swissThreshold, access, normalize, signal, undefined, allowlist);
+  return analyzeRanking(articles, language, days, swissReaders, metadata, signal);
 }
 
 /**
- * Récupère les articles les plus consultés
+ * Analyse les premières lignes d'un classement (pertinence suisse, trafic, et métadonnées si
+ * `metadata`) ; les suivantes sont transmises telles quelles
  */
-export async function fetchTopArticles(language: Language, period: Period, swissOnly: boolean): Promise<Article[]> {
-  const date = new Date();
-  const formattedDate = format(subDays(date, getDaysToSubtract(period)), 'yyyyMMdd');
-  const project = `${language}.wikipedia`;
+async function analyzeRanking(
+  articles: Article[],
+  language: Language,
+  days: Date[],
+  swissReaders: boolean,
+  metadata: boolean,
+  signal?: AbortSignal
+): Promise<Article[]> {
+  const scored = await scoreSwissArticles(articles.slice(0, ANALYZED_ROWS), language, signal);
+  const analyzed = await analyzeTraffic(scored, language, days, swissReaders, signal);
+  const head = metadata ? await enrichArticlesWithMetadata(analyzed, language, signal) : analyzed;
+  return [...head, ...articles.slice(ANALYZED_ROWS)];
+}
+
+/**
+ * Classement quotidien brut (clés des lignes, dans la limite affichée), sans évaluation de la
+ * pertinence suisse : pour « Toute la Suisse », les titres locaux sont regroupés d'après les lignes
+ * fusionnées connues (`keys`) ; avec `known`, seules ses lignes sont classées (filtre « Sujets suisses »).
+ */
+async function fetchDailyChart(
+  language: LanguageSelection,
+  day: Date,
+  swissReaders: boolean,
+  access: AccessFilter,
+  keys: Map<string, string>,
+  known: Set<string> | null,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const wikis = language === 'ch' ? SWISS_NATIONAL_LANGUAGES : [language];
+  const lists = await Promise.all(wikis.map(async wiki => {
+    const { articles } = await fetchAggregatedTopArticles(wiki, [day], swissReaders, access, signal);
+    return articles.map(({ article, views }) => ({
+      key: language === 'ch' ? keys.get(`${wiki}:${article}`) ?? `${wiki}:${article}` : article,
+      views
+    }));
+  }));
+
+  const views = new Map<string, number>();
+  lists.flat().forEach(({ key, views: dayViews }) => views.set(key, (views.get(key) ?? 0) + dayViews));
+  return [...views]
+    .filter(([key]) => !known || known.has(key))
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, CHART_SIZE)
+    .map(([key]) => key);
+}
 
-  const url = `${API_BASE}/top/${project}/all-access/${formattedDate.slice(0, 4)}/${formattedDate.slice(4, 6)}/${formattedDate.slice(6, 8)}`;
+/**
+ * Mouvements du classement des plus consultés (voir `chart.ts`) : rang sur la période
+ * précédente équivalente et classements quotidiens récents, immuables et donc servis par le cache.
+ * Les classements quotidiens sont établis depuis les tops bruts de chaque jour ; avec le filtre
+ * « Sujets suisses », ils se limitent aux articles retenus sur la période ou la précédente.
+ * Chargés à part du classement pour ne pas retarder son affichage.
+ */
+export async function fetchChartMovements(
+  language: LanguageSelection,
+  period: Period,
+  swissFilter: SwissFilter,
+  options: RankingOptions = {}
+): Promise<Map<string, ChartMovement>> {
+  const { swissThreshold = DEFAULT_SWISS_THRESHOLD, access = 'all-access', signal } = options;
+  const endDate = options.endDate ?? await fetchLatestPublishedDate(language, swissFilter, access, signal);
+  const days = getPeriodDays(period, endDate);
+  const previousDays = getPeriodDays(period, subDays(days[0], 1));
+  const lookbackLength = Math.max(CHART_LOOKBACK_DAYS, days.length + CHART_REENTRY_DAYS);
+  const lookback = eachDayOfInterval({ start: subDays(endDate, lookbackLength - 1), end: endDate });
+
+  // Un classement manquant (jour non publié, erreur réseau) compte comme vide
+  const orEmpty = <T>(window: Date[], load: Promise<T[]>) => load.catch(error => {
+    rethrowIfAborted(error);
+    reportFallback(`Error loading chart ending ${format(window[window.length - 1], 'yyyy-MM-dd')}`, error);
+    return [] as T[];
+  });
 
-  const data = await fetchFromAPI<ApiResponse>(url);
-  let articles = data.items[0].articles;
+  // Classement de la période : celui affiché, déjà en cache ; la période précédente s'arrête au rang affiché
+  const [currentRanking, previousRanking] = await Promise.all([
+    orEmpty(days, language === 'ch'
+      ? fetchMergedSwissRanking(days, swissFilter, swissThreshold, access, false, signal)
+      : fetchRankedArticles(language, days, swissFilter, swissThreshold, access, false, signal)),
+    orEmpty(previousDays, language === 'ch'
+      ? fetchMergedSwissRanking(previousDays, swissFilter, swissThreshold, access, false, signal)
+      : fetchRankedArticles(language, previousDays, swissFilter, swissThreshold, access, false, signal, CHART_SIZE))
+  ]);
 
-  articles = filterUnwantedPages(articles);
+  const rankings = [...currentRanking, ...previousRanking];
+  const keys = new Map(rankings.flatMap(row => Object.entries(row.localTitles ?? {}).map(([wiki, title]) => [`${wiki}:${title}`, chartKey(row)])));
+  const known = swissFilter === 'topics' ? new Set(rankings.map(chartKey)) : null;
 
-  if (swissOnly) {
-    articles = await filterSwissArticlesV2(articles, language);
-  }
+  const dailyCharts = await mapWithConcurrency(lookback, CHART_DAYS_CONCURRENCY, day =>
+    orEmpty([day], fetchDailyChart(language, day, swissFilter === 'readers', access, keys, known, signal))
+  );
 
-  if (articles.length > 0) {
-    const enrichedArticles = await enrichArticlesWithMetadata(articles, language);
-    return enrichedArticles.slice(0, 50);
-  }
+  const chartOf = (ranking: Article[]) => ranking.slice(0, CHART_SIZE).map(chartKey);
+  return computeMovements(chartOf(currentRanking), chartOf(previousRanking), dailyCharts, days.length);
+}
 
-  return articles.slice(0, 50);
+/**
+ * Classement brut d'un jour (vues par article, sans enrichissement), pages techniques exclues
+ */
+export async function fetchDailyTopViews(language: Language, date: Date = getLatestAvailableDate(), signal?: AbortSignal): Promise<Article[]> {
+  return (await fetchAggregatedTopArticles(language, [date], false, 'all-access', signal)).articles;
 }
 
 /**
- * Récupère les articles en progression
+ * Rang (à partir de 1) de chaque article dans le classement d'un jour, pages techniques exclues
  */
-export async function fetchTrendingArticles(language: Language, period: Period, swissOnly: boolean): Promise<Article[]> {
-  const currentData = await fetchTopArticles(language, period, false);
-  const previousData = await fetchPreviousPeriodData(language, period);
+export async function fetchDailyRanks(
+  language: Language,
+  date: Date = getLatestAvailableDate(),
+  signal?: AbortSignal
+): Promise<Map<string, number>> {
+  const articles = await fetchDailyTopViews(language, date, signal);
+  return new Map(articles.map(({ article }, index) => [article, index + 1]));
+}
 
-  let trendingArticles = calculateTrendsImproved(currentData, previousData);
+/**
+ * Pages du classement d'une période écartées par le wiki (hors articles, page d'accueil, pages
+ * techniques), par motif : ces réponses sont déjà en cache une fois le classement chargé
+ */
+export async function fetchSiteExclusionCounts(
+  language: LanguageSelection,
+  period: Period,
+  swissFilter: SwissFilter,
+  options: Pick<RankingOptions, 'endDate' | 'access' | 'allowlist' | 'signal'> = {}
+): Promise<SiteExclusionCounts> {
+  const { access = 'all-access', allowlist = [], signal } = options;
+  const endDate = options.endDate ?? await fetchLatestPublishedDate(language, swissFilter, access, signal);
+  const days = getPeriodDays(period, endDate);
+  const languages = language === 'ch' ? SWISS_NATIONAL_LANGUAGES : [language];
+
+  const counts = await Promise.all(languages.map(async wiki =>
+    (await fetchAggregatedTopArticles(wiki, days, swissFilter === 'readers', access, signal, allowlist)).excluded
+  ));
+  return counts.reduce<SiteExclusionCounts>((total, excluded) => {
+    Object.entries(excluded).forEach(([reason, count]) => {
+      const key = reason as SiteExclusionReason;
+      total[key] = (total[key] ?? 0) + count;
+    });
+    return total;
+  }, {});
+}
 
-  if (swissOnly) {
-    trendingArticles = await filterSwissArticlesV2(trendingArticles, language);
+/**
+ * Récupère les articles en progression : chaque candidat est comparé à sa propre
+ * référence des jours précédant la période (voir `trends.ts`). Seules les premières
+ * tendances sont analysées d'emblée.
+ */
+export async function fetchTrendingArticles(
+  language: LanguageSelection,
+  period: Period,
+  swissFilter: SwissFilter,
+  options: RankingOptions = {}
+): Promise<Article[]> {
+  const {
+    swissThreshold = DEFAULT_SWISS_THRESHOLD,
+    trend = DEFAULT_TREND_OPTIONS,
+    access = 'all-access',
+    signal,
+    metadata = true,
+    normalize = false,
+    allowlist = []
+  } = options;
+  const endDate = options.endDate ?? await fetchLatestPublishedDate(language, swissFilter, access, signal);
+  const days = getPeriodDays(period, endDate);
+  const baselineDays = eachDayOfInterval({ start: subDays(days[0], TREND_BASELINE_DAYS), end: subDays(days[0], 1) });
+
+  if (language === 'ch') {
+    return fetchMergedSwissTrending(days, baselineDays, swissFilter, trend, swissThreshold, access, metadata, normalize, signal, allowlist);
   }
 
-  return trendingArticles.slice(0, 50);
+  const swissReaders = swissFilter === 'readers';
+  const factors = normalize ? await fetchTrafficFactors(language, endDate, access, signal) : null;
+  const { articles: aggregated } = await fetchAggregatedTopArticles(language, days, swissReaders, access, signal, allowlist);
+  const articles = factors ? normalizeRanking(aggregated, days, factors) : aggregated;
+  // Sujets suisses : candidats choisis parmi eux, jusqu'au rang évalué par le filtre (souvent 200 à 800)
+  const candidates = swissFilter === 'topics'
+    ? await filterSwissArticles(articles, language, swissThreshold, signal, TREND_CANDIDATES)
+    : articles.slice(0, TREND_CANDIDATES);
+  const baselines = await fetchBaselines(language, candidates.map(a => a.article), baselineDays, swissReaders, factors, signal);
+
+  const trendingArticles = detectTrends(candidates, baselines, days.length, trend);
+  const ranked = await analyzeRanking(trendingArticles, language, days, swissReaders, metadata, signal);
+  return addEditActivity(ranked, language, days, baselineDays, signal);
 }
 
 /**
- * Récupère les données de la période précédente pour calcul de tendances
+ * Vues quotidiennes de référence de chaque titre sur `baselineDays`, corrigées du trafic total
+ * du wiki si des coefficients `factors` sont donnés (voir `trafficFactors`)
  */
-async function fetchPreviousPeriodData(language: Language, period: Period): Promise<Article[]> {
-  const date = new Date();
-  let daysToSubtract = 2; // Default for daily
+async function fetchBaselines(
+  language: Language,
+  titles: string[],
+  baselineDays: Date[],
+  swissReaders: boolean,
+  factors: Map<string, number> | null,
+  signal?: AbortSignal
+): Promise<Map<string, number[]>> {
+  const baselines = await fetchRawBaselines(language, titles, baselineDays, swissReaders, signal);
+  if (!factors) return baselines;
+  return new Map([...baselines].map(([title, series]) => [title, normalizeSeries(series, baselineDays, factors)]));
+}
 
-  switch (period) {
-    case '48h':
-      daysToSubtract = 3;
-      break;
-    case 'weekly':
-      daysToSubtract = 8;
-      break;
-    case 'monthly':
-      daysToSubtract = 31;
-      break;
+/**
+ * Vues quotidiennes brutes de référence de chaque titre.
+ * En mode internautes suisses, l'API ne fournit pas de série par article et par pays :
+ * la référence est reconstituée depuis les tops quotidiens suisses (0 hors classement).
+ * Les titres dont la série n'a pu être chargée sont absents du résultat.
+ */
+async function fetchRawBaselines(
+  language: Language,
+  titles: string[],
+  baselineDays: Date[],
+  swissReaders: boolean,
+  signal?: AbortSignal
+): Promise<Map<string, number[]>> {
+  if (swissReaders) {
+    const dailyLists = await Promise.all(baselineDays.map(day => fetchSwissReadersTopList(language, day, 'all-access', signal)));
+    const baselines = new Map(titles.map(title => [title, new Array<number>(baselineDays.length).fill(0)]));
+    dailyLists.forEach((articles, dayIndex) => {
+      articles.forEach(({ article, views }) => {
+        const baseline = baselines.get(article);
+        if (baseline) baseline[dayIndex] = views;
+      });
+    });
+    return baselines;
   }
 
-  const formattedDate = format(subDays(date, daysToSubtract), 'yyyyMMdd');
-  const project = `${language}.wikipedia`;
-  const url = `${API_BASE}/top/${project}/all-access/${formattedDate.slice(0, 4)}/${formattedDate.slice(4, 6)}/${formattedDate.slice(6, 8)}`;
+  const entries = await Promise.all(titles.map(async title => {
+    try {
+      return [title, await fetchDailyViews(title, language, baselineDays, 'user', signal)] as const;
+    } catch (error) {
+      rethrowIfAborted(error);
+      reportFallback(`Error loading baseline for ${title}`, error);
+      return null;
+    }
+  }));
 
-  const data = await fetchFromAPI<ApiResponse>(url);
-  let articles = data.items[0].articles;
-  articles = filterUnwantedPages(articles);
-  return articles;
+  return new Map(entries.filter((entry): entry is readonly [string, number[]] => entry !== null));
 }
 
 /**
- * Calcul amélioré des tendances avec fiabilité — utilise Map pour O(n)
+ * Résout l'élément Wikidata (QID) de chaque titre, par lots de 50 (limite MediaWiki)
  */
-function calculateTrendsImproved(currentArticles: Article[], previousArticles: Article[]): Article[] {
-  // Indexer les articles précédents par titre pour lookup O(1)
-  const previousMap = new Map(previousArticles.map(a => [a.article, a]));
-
-  const trends = currentArticles.map(current => {
-    const previous = previousMap.get(current.article);
-    const previousViews = previous?.views || 0;
+async function resolveWikidataIds(titles: string[], language: Language, signal?: AbortSignal): Promise<Record<string, string>> {
+  const ids: Record<string, string> = {};
+  const batchSize = 50;
 
-    if (previousViews < 100) {
-      return {
-        ...current,
-        growth: 0,
-        growthPercentage: 0,
-        previousViews,
-        reliability: 'low' as const
-      };
+  for (let i = 0; i < titles.length; i += batchSize) {
+    const batch = titles.slice(i, i + batchSize);
+    try {
+      const data = await metadataProvider.getWikidataIds(batch.map(t => t.replace(/_/g, ' ')), language, signal);
+      const normalized = new Map((data.query?.normalized || []).map(n => [n.to, n.from]));
+
+      data.query?.pages.forEach(page => {
+        const qid = page.pageprops?.wikibase_item;
+        if (!qid) return;
+        const requestedTitle = normalized.get(page.title) ?? page.title;
+        ids[requestedTitle.replace(/ /g, '_')] = qid;
+      });
+    } catch (error) {
+      rethrowIfAborted(error);
+      reportFallback('Error resolving Wikidata items', error);
     }
+  }
 
-    const growth = current.views - previousViews;
-    const growthPercentage = (growth / previousViews) * 100;
+  return ids;
+}
 
-    const reliability: 'low' | 'medium' | 'high' =
-      current.views > 10000 && previousViews > 1000 ? 'high' : 'medium';
+/**
+ * Fusionne les classements de plusieurs wikis : les articles liés au même élément Wikidata
+ * forment une seule ligne, avec les vues additionnées et la répartition par langue.
+ * Un article n'est compté que sur les wikis où il figure dans le classement.
+ */
+async function mergeLanguageRankings(rankings: { language: Language; articles: Article[] }[], signal?: AbortSignal): Promise<Article[]> {
+  const merged = new Map<string, Article & { languages: Partial<Record<Language, number>>; localTitles: Partial<Record<Language, string>> }>();
+
+  for (const { language, articles } of rankings) {
+    const qids = await resolveWikidataIds(articles.map(a => a.article), language, signal);
+
+    articles.forEach(({ article, views, dailyViews }) => {
+      const key = qids[article] ?? `${language}:${article}`;
+      let entry = merged.get(key);
+      if (!entry) {
+        entry = { article, views: 0, languages: {}, localTitles: {} };
+        merged.set(key, entry);
+      }
 
-    return {
-      ...current,
-      growth,
-      growthPercentage,
-      previousViews,
-      reliability
-    };
-  });
+      entry.views += views;
+      entry.languages[language] = (entry.languages[language] || 0) + views;
+      entry.localTitles[language] = article;
+      if (qids[article]) entry.wikidataId = qids[article];
 
-  return trends
-    .filter(article => article.growth && article.growth > 0)
-    .sort((a, b) => {
-      if (a.reliability !== b.reliability) {
-        return a.reliability === 'high' ? -1 : 1;
+      if (dailyViews) {
+        const mergedDailyViews = entry.dailyViews;
+        entry.dailyViews = dailyViews.map((dayViews, i) => dayViews + (mergedDailyViews?.[i] || 0));
       }
-      return (b.growth || 0) - (a.growth || 0);
     });
+  }
+
+  return [...merged.values()]
+    .map(entry => {
+      const [mainLanguage] = (Object.entries(entry.languages) as [Language, number][])
+        .reduce((best, current) => (current[1] > best[1] ? current : best));
+      return { ...entry, mainLanguage, article: entry.localTitles[mainLanguage] || entry.article };
+    })
+    .sort((a, b) => b.views - a.views);
 }
 
 /**
- * Filtre des articles liés à la Suisse (version améliorée)
+ * Classement fusionné des wikis des langues nationales sur une fenêtre
  */
-async function filterSwissArticlesV2(articles: Article[], language: Language): Promise<Article[]> {
-  const swissTerms = {
-    locations: [
-      'zurich', 'zürich', 'genève', 'geneva', 'genf', 'basel', 'bâle', 'bern', 'berne',
-      'lausanne', 'winterthur', 'winterthour', 'lucerne', 'luzern', 'lugano', 'sankt gallen',
-      'saint-gall', 'biel', 'bienne', 'thun', 'thoune', 'köniz', 'fribourg', 'freiburg',
-      'schaffhausen', 'schaffhouse', 'chur', 'coire', 'sion', 'sitten', 'bellinzona'
-    ],
-    general: [
-      'suisse', 'schweiz', 'switzerland', 'svizzera', 'swiss', 'schweizerische',
-      'fédéral', 'federal', 'confederation', 'confédération', 'eidgenössische',
-      'national', 'bundesrat', 'conseil fédéral'
-    ]
-  };
+async function fetchMergedSwissRanking(
+  days: Date[],
+  swissFilter: SwissFilter,
+  swissThreshold: number,
+  access: AccessFilter,
+  normalize: boolean,
+  signal?: AbortSignal,
+  allowlist: string[] = []
+): Promise<Article[]> {
+  const rankings = await Promise.all(SWISS_NATIONAL_LANGUAGES.map(async language => ({
+    language,
+    articles: await fetchRankedArticles(language, days, swissFilter, swissThreshold, access, normalize, signal, MERGE_CANDIDATES_PER_LANGUAGE, allowlist)
+  })));
+
+  return mergeLanguageRankings(rankings, signal);
+}
 
-  const allTerms = [...new Set([...swissTerms.locations, ...swissTerms.general])];
+/**
+ * Tendances en mode « Toute la Suisse » : la référence d'une ligne fusionnée est la somme
+ * des références de ses titres locaux.
+ */
+async function fetchMergedSwissTrending(
+  days: Date[],
+  baselineDays: Date[],
+  swissFilter: SwissFilter,
+  options: TrendOptions,
+  swissThreshold: number,
+  access: AccessFilter,
+  metadata: boolean,
+  normalize: boolean,
+  signal?: AbortSignal,
+  allowlist: string[] = []
+): Promise<Article[]> {
+  const swissReaders = swissFilter === 'readers';
+  const candidates = (await fetchMergedSwissRanking(days, swissFilter, swissThreshold, access, normalize, signal, allowlist)).slice(0, TREND_CANDIDATES);
+  const endDate = days[days.length - 1];
+
+  const baselinesByLanguage = await Promise.all(SWISS_NATIONAL_LANGUAGES.map(async language => {
+    const titles = candidates
+      .map(row => row.localTitles?.[language])
+      .filter((title): title is string => Boolean(title));
+    const factors = normalize ? await fetchTrafficFactors(language, endDate, access, signal) : null;
+    return fetchBaselines(language, titles, baselineDays, swissReaders, factors, signal);
+  }));
 
-  const keywordFilteredArticles = articles.filter(article => {
-    const decodedTitle = decodeURIComponent(article.article.toLowerCase()).replace(/_/g, ' ');
-    return allTerms.some(term => decodedTitle.includes(term.toLowerCase()));
+  const baselines = new Map<string, number[]>();
+  candidates.forEach(row => {
+    SWISS_NATIONAL_LANGUAGES.forEach((language, i) => {
+      const title = row.localTitles?.[language];
+      const baseline = title ? baselinesByLanguage[i].get(title) : undefined;
+      if (!baseline) return;
+      const sum = baselines.get(row.article) || new Array<number>(baselineDays.length).fill(0);
+      baselines.set(row.article, sum.map((views, day) => views + baseline[day]));
+    });
   });
 
-  if (keywordFilteredArticles.length >= 10) {
-    return keywordFilteredArticles;
-  }
+  const trending = detectTrends(candidates, baselines, days.length, options);
+  const enriched = await enrichMergedArticles(trending, days, swissReaders, metadata, signal);
+  const head = await enrichByMainLanguage(
+    enriched.slice(0, ANALYZED_ROWS),
+    (rows, language) => addEditActivity(rows, language, days, baselineDays, signal)
+  );
+  return [...head, ...enriched.slice(ANALYZED_ROWS)];
+}
+
+/**
+ * Wikis mis côte à côte (onglet « Comparer ») : attention comparée sur la période, indice de divergence
+ * et tendances communes ou propres à chaque wiki
+ */
+export interface LanguageComparison {
+  rows: ComparisonRow[];
+  score: number;
+  trending: TrendingSplit;
+}
+
+/**
+ * Classements de plusieurs wikis sur une fenêtre, les articles étant appariés par élément Wikidata
+ * (liens interlangues)
+ */
+async function fetchComparedRows(
+  languages: Language[],
+  days: Date[],
+  swissFilter: SwissFilter,
+  swissThreshold: number,
+  access: AccessFilter,
+  signal?: AbortSignal
+): Promise<ComparisonRow[]> {
+  const rankings = await Promise.all(languages.map(async language => ({
+    language,
+    articles: await fetchRankedArticles(language, days, swissFilter, swissThreshold, access, false, signal, MERGE_CANDIDATES_PER_LANGUAGE)
+  })));
+
+  return compareAttention(await mergeLanguageRankings(rankings, signal), languages);
+}
+
+/**
+ * Compare les classements et les tendances de plusieurs wikis sur une période
+ */
+export async function fetchLanguageComparison(
+  languages: Language[],
+  period: Period,
+  swissFilter: SwissFilter,
+  options: RankingOptions = {}
+): Promise<LanguageComparison> {
+  const { swissThreshold = DEFAULT_SWISS_THRESHOLD, access = 'all-access', signal } = options;
+  const endDate = options.endDate ?? await latestPublishedDate(languages, swissFilter, access, signal);
+  const days = getPeriodDays(period, endDate);
+
+  const [rows, trendingLists] = await Promise.all([
+    fetchComparedRows(languages, days, swissFilter, swissThreshold, access, signal),
+    Promise.all(languages.map(async language => ({
+      language,
+      articles: await fetchTrendingArticles(language, period, swissFilter, { ...options, endDate })
+    })))
+  ]);
 
+  return {
+    rows,
+    score: divergenceScore(rows, languages),
+    trending: splitTrending(await mergeLanguageRankings(trendingLists, signal), languages)
+  };
+}
+
+/**
+ * Indice de divergence de chaque période avec le même filtre suisse ; null si le calcul a échoué
+ */
+export async function fetchDivergenceByPeriod(
+  languages: Language[],
+  swissFilter: SwissFilter,
+  options: RankingOptions = {}
+): Promise<Record<Period, number | null>> {
+  const { swissThreshold = DEFAULT_SWISS_THRESHOLD, access = 'all-access', signal } = options;
+  const endDate = options.endDate ?? await latestPublishedDate(languages, swissFilter, access, signal);
+
+  const scores = await Promise.all(PERIODS.map(period =>
+    fetchComparedRows(languages, getPeriodDays(period, endDate), swissFilter, swissThreshold, access, signal)
+      .then(rows => divergenceScore(rows, languages))
+      .catch(error => {
+        rethrowIfAborted(error);
+        reportFallback(`Error comparing ${period} rankings`, error);
+        return null;
+      })
+  ));
+
+  return Object.fromEntries(PERIODS.map((period, index) => [period, scores[index]])) as Record<Period, number | null>;
+}
+
+/**
+ * Vues quotidiennes totales d'un wiki (humains, comme les classements) entre deux dates incluses ;
+ * somme des wikis nationaux pour « Toute la Suisse »
+ */
+export async function fetchWikiTraffic(
+  language: LanguageSelection,
+  start: Date,
+  end: Date,
+  access: AccessFilter = 'all-access',
+  signal?: AbortSignal
+): Promise<ViewHistory[]> {
+  const wikis = language === 'ch' ? SWISS_NATIONAL_LANGUAGES : [language];
+  const responses = await Promise.all(wikis.map(wiki => pageviewsProvider.getAggregate(wiki, access, 'user', start, end, signal)));
+
+  const totals = new Map<string, number>();
+  responses.forEach(data => (data.items || []).forEach(({ timestamp, views }) => {
+    const date = `${timestamp.slice(0, 4)}-${timestamp.slice(4, 6)}-${timestamp.slice(6, 8)}`;
+    totals.set(date, (totals.get(date) ?? 0) + views);
+  }));
+  return [...totals].sort(([a], [b]) => a.localeCompare(b)).map(([date, views]) => ({ date, views }));
+}
+
+/**
+ * Coefficients de normalisation d'un wiki (voir `trafficFactors`) pour les jours précédant `endDate` ;
+ * vides, donc sans correction, si le trafic total est indisponible
+ */
+async function fetchTrafficFactors(language: Language, endDate: Date, access: AccessFilter, signal?: AbortSignal): Promise<Map<string, number>> {
   try {
-    const remainingArticles = articles.filter(article =>
-      !keywordFilteredArticles.some(filtered => filtered.article === article.article)
-    );
+    return trafficFactors(await fetchWikiTraffic(language, subDays(endDate, NORMALIZATION_WINDOW_DAYS - 1), endDate, access, signal));
+  } catch (error) {
+    rethrowIfAborted(error);
+    reportFallback(`Error loading ${language} total traffic`, error);
+    return new Map();
+  }
+}
 
-    const batchSize = 50;
-    let allCategoryFiltered: Article[] = [...keywordFilteredArticles];
+/**
+ * Trafic d'ensemble d'un wiki sur l'année écoulée, et part de la période captée par
+ * les 50 premiers articles et par les sujets suisses parmi eux
+ */
+export async function fetchTrafficOverview(
+  language: Language,
+  period: Period,
+  options: Pick<RankingOptions, 'endDate' | 'access' | 'swissThreshold' | 'signal'> = {}
+): Promise<TrafficOverview> {
+  const { swissThreshold = DEFAULT_SWISS_THRESHOLD, access = 'all-access', signal } = options;
+  const endDate = options.endDate ?? await fetchLatestPublishedDate(language, 'none', access, signal);
+  const days = getPeriodDays(period, endDate);
+
+  const [totals, { articles: ranking }] = await Promise.all([
+    fetchWikiTraffic(language, subDays(endDate, OVERVIEW_DAYS - 1), endDate, access, signal),
+    fetchAggregatedTopArticles(language, days, false, access, signal)
+  ]);
+  const top = ranking.slice(0, ANALYZED_ROWS);
+  const swiss = await filterSwissArticles(top, language, swissThreshold, signal);
+
+  const periodDates = new Set(days.map(day => format(day, 'yyyy-MM-dd')));
+  const periodViews = totals.filter(({ date }) => periodDates.has(date)).reduce((sum, { views }) => sum + views, 0);
+  const share = (articles: Article[]) => (periodViews > 0 ? articles.reduce((sum, { views }) => sum + views, 0) / periodViews : 0);
+
+  return {
+    language,
+    totals,
+    range: { start: days[0], end: days[days.length - 1] },
+    periodViews,
+    topShare: share(top),
+    swissShare: share(swiss),
+    weekdays: weekdayPattern(totals),
+    months: monthlyPattern(totals)
+  };
+}
 
-    for (let i = 0; i < remainingArticles.length; i += batchSize) {
-      const batch = remainingArticles.slice(i, i + batchSize);
-      const enriched = await enrichArticlesWithMetadata(batch, language);
+/**
+ * Applique `enrich` aux lignes fusionnées de chaque wiki principal, en conservant leur ordre
+ */
+async function enrichByMainLanguage(
+  articles: Article[],
+  enrich: (articles: Article[], language: Language) => Promise<Article[]>
+): Promise<Article[]> {
+  const enriched = [...articles];
+
+  await Promise.all(SWISS_NATIONAL_LANGUAGES.map(async language => {
+    const indexes = articles
+      .map((article, index) => (article.mainLanguage === language ? index : -1))
+      .filter(index => index !== -1);
+    if (indexes.length === 0) return;
+
+    const result = await enrich(indexes.map(index => articles[index]), language);
+    result.forEach((article, i) => {
+      enriched[indexes[i]] = article;
+    });
+  }));
 
-      const swissCategoryKeywords = ['suisse', 'schweiz', 'switzerland', 'svizzera'];
+  return enriched;
+}
 
-      const categoryFiltered = enriched.filter(article => {
-        if (!article.metadata?.categories) return false;
-        return article.metadata.categories.some(category =>
-          swissCategoryKeywords.some(keyword =>
-            category.toLowerCase().includes(keyword)
-          )
-        );
-      });
+/**
+ * Analyse les premières lignes fusionnées (trafic et métadonnées si `metadata`) d'après leur wiki principal
+ */
+async function enrichMergedArticles(
+  articles: Article[],
+  days: Date[],
+  swissReaders: boolean,
+  metadata: boolean,
+  signal?: AbortSignal
+): Promise<Article[]> {
+  const head = await enrichByMainLanguage(articles.slice(0, ANALYZED_ROWS), async (rows, language) => {
+    const scored = await scoreSwissArticles(rows, language, signal);
+    const analyzed = await analyzeTraffic(scored, language, days, swissReaders, signal);
+    return metadata ? enrichArticlesWithMetadata(analyzed, language, signal) : analyzed;
+  });
+
+  return [...head, ...articles.slice(ANALYZED_ROWS)];
+}
 
-      allCategoryFiltered = [...allCategoryFiltered, ...categoryFiltered];
-      if (allCategoryFiltered.length >= 50) break;
+/**
+ * Enrichissement à l'affichage des lignes d'un classement complet : pertinence suisse et
+ * métadonnées de leur wiki (principal, pour « Toute la Suisse »). Les lignes déjà enrichies
+ * sont conservées telles quelles.
+ */
+export function enrichVisibleArticles(articles: Article[], language: LanguageSelection, signal?: AbortSignal): Promise<Article[]> {
+  const enrich = async (rows: Article[], wiki: Language) => {
+    const scored = await scoreSwissArticles(rows, wiki, signal);
+    const pending = scored.filter(article => !article.metadata);
+    const enriched = new Map((await enrichArticlesWithMetadata(pending, wiki, signal)).map(article => [article.article, article]));
+    return scored.map(article => enriched.get(article.article) ?? article);
+  };
+
+  return language === 'ch' ? enrichByMainLanguage(articles, enrich) : enrich(articles, language);
+}
+
+/**
+ * Vues de chaque titre par mode d'accès, d'après les classements de chaque accès sur la période.
+ * Les titres dont la répartition ne peut être établie sont absents du résultat.
+ */
+async function fetchAccessBreakdown(
+  language: Language,
+  titles: string[],
+  days: Date[],
+  swissReaders: boolean,
+  signal?: AbortSignal
+): Promise<Map<string, Partial<Record<AccessMethod, number>>>> {
+  const rankings = await Promise.all((['all-access', ...ACCESS_METHODS] as AccessFilter[]).map(async access => {
+    try {
+      const { articles } = await fetchAggregatedTopArticles(language, days, swissReaders, access, signal);
+      return new Map(articles.map(({ article, views }) => [article, views]));
+    } catch (error) {
+      rethrowIfAborted(error);
+      reportFallback(`Error loading ${access} ranking`, error);
+      return null;
     }
+  }));
+
+  const breakdown = new Map<string, Partial<Record<AccessMethod, number>>>();
+  const [totals, ...byAccess] = rankings;
+  if (!totals || byAccess.some(ranking => ranking === null)) return breakdown;
+
+  titles.forEach(title => {
+    const total = totals.get(title);
+    if (total === undefined) return;
+    const viewsByAccess: Partial<Record<AccessMethod, number>> = {};
+    ACCESS_METHODS.forEach((access, i) => {
+      const views = byAccess[i]?.get(title);
+      if (views !== undefined) viewsByAccess[access] = views;
+    });
+    const split = splitAccessViews(total, viewsByAccess);
+    if (split) breakdown.set(title, split);
+  });
 
-    return allCategoryFiltered;
+  return breakdown;
+}
+
+/**
+ * Vues humaines et automatisées d'un article sur la période (undefined si indisponibles)
+ */
+async function fetchAgentViews(article: string, language: Language, days: Date[], signal?: AbortSignal): Promise<Article['agentViews']> {
+  try {
+    const [user, automated] = await Promise.all(
+      (['user', 'automated'] as Agent[]).map(async agent => (await fetchDailyViews(article, language, days, agent, signal)).reduce((sum, v) => sum + v, 0))
+    );
+    return { user, automated };
   } catch (error) {
-    console.error('Error during category filtering:', error);
-    return keywordFilteredArticles;
+    rethrowIfAborted(error);
+    reportFallback(`Error loading agent breakdown for ${article}`, error);
+    return undefined;
   }
 }
 
 /**
- * Enrichit les articles avec des métadonnées de l'API MediaWiki
+ * Vrai si l'article a été modifié pendant la période ou juste avant (undefined si inconnu)
  */
-async function enrichArticlesWithMetadata(articles: Article[], language: Language): Promise<Article[]> {
-  if (articles.length === 0) return [];
+async function hasRecentEdits(article: string, language: Language, days: Date[], signal?: AbortSignal): Promise<boolean | undefined> {
+  try {
+    const title = decodeURIComponent(article).replace(/_/g, ' ');
+    const data = await metadataProvider.getRevisions(title, language, subDays(days[0], EDIT_LOOKBACK_DAYS), days[days.length - 1], 1, signal);
+    const page = data.query?.pages[0];
+    if (!page || page.missing) return undefined;
+    return (page.revisions?.length ?? 0) > 0;
+  } catch (error) {
+    rethrowIfAborted(error);
+    reportFallback(`Error loading revisions for ${article}`, error);
+    return undefined;
+  }
+}
 
+/**
+ * Modifications d'un article sur la période et sa référence (undefined si inconnues)
+ */
+async function fetchEditActivity(
+  article: Article,
+  language: Language,
+  days: Date[],
+  baselineDays: Date[],
+  signal?: AbortSignal
+): Promise<EditActivity | undefined> {
   try {
-    const batchSize = 25;
-    const enrichedArticles: Article[] = [];
-
-    for (let i = 0; i < articles.length; i += batchSize) {
-      const batch = articles.slice(i, i + batchSize);
-      const titles = batch.map(article =>
-        decodeURIComponent(article.article).replace(/_/g, ' ')
-      );
-
-      const metadata = await getArticleMetadata(titles, language);
-
-      const enriched = batch.map(article => {
-        const title = decodeURIComponent(article.article).replace(/_/g, ' ');
-        const articleMetadata = metadata[title];
-
-        if (articleMetadata) {
-          return {
-            ...article,
-            metadata: {
-              description: articleMetadata.description || '',
-              thumbnail: articleMetadata.thumbnail || '',
-              categories: articleMetadata.categories || [],
-              extract: articleMetadata.extract || ''
-            }
-          };
-        }
-
-        return article;
-      });
+    const title = decodeURIComponent(article.article).replace(/_/g, ' ');
+    const start = baselineDays[0] ?? days[0];
+    const data = await metadataProvider.getRevisions(title, language, start, days[days.length - 1], MAX_REVISIONS, signal);
+    const page = data.query?.pages[0];
+    if (!page || page.missing) return undefined;
+    const revisions = page.revisions ?? [];
+    if (revisions.length >= MAX_REVISIONS) return undefined;
+    return summarizeEdits(revisions, days, baselineDays, article.growth);
+  } catch (error) {
+    rethrowIfAborted(error);
+    reportFallback(`Error loading edit activity for ${article.article}`, error);
+    return undefined;
+  }
+}
 
-      enrichedArticles.push(...enriched);
+/**
+ * Applique `fn` à chaque élément avec au plus `concurrency` appels en cours, en conservant l'ordre
+ */
+async function mapWithConcurrency<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
     }
+  };
 
-    return enrichedArticles;
-  } catch (error) {
-    console.error('Error enriching articles with metadata:', error);
-    return articles;
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Ajoute aux premières tendances (celles qui sont analysées) leur activité éditoriale (voir `edits.ts`)
+ */
+async function addEditActivity(
+  articles: Article[],
+  language: Language,
+  days: Date[],
+  baselineDays: Date[],
+  signal?: AbortSignal
+): Promise<Article[]> {
+  const head = await mapWithConcurrency(articles.slice(0, ANALYZED_ROWS), EDIT_REQUESTS_CONCURRENCY, async article => {
+    const editActivity = await fetchEditActivity(article, language, days, baselineDays, signal);
+    return editActivity ? { ...article, editActivity } : article;
+  });
+  return [...head, ...articles.slice(ANALYZED_ROWS)];
+}
+
+/**
+ * Ajoute la répartition par accès et par agent de chaque article, puis ses indices de trafic
+ * artificiel (voir `traffic.ts`). Seuls les pics marqués sont confrontés aux modifications.
+ */
+async function analyzeTraffic(
+  articles: Article[],
+  language: Language,
+  days: Date[],
+  swissReaders: boolean,
+  signal?: AbortSignal
+): Promise<Article[]> {
+  if (articles.length === 0) return articles;
+
+  const accessBreakdown = await fetchAccessBreakdown(language, articles.map(a => a.article), days, swissReaders, signal);
+
+  return Promise.all(articles.map(async article => {
+    const [agentViews, edited] = await Promise.all([
+      fetchAgentViews(article.article, language, days, signal),
+      isStrongSpike(article) ? hasRecentEdits(article.article, language, days, signal) : Promise.resolve(undefined)
+    ]);
+    const analyzed: Article = { ...article, accessViews: accessBreakdown.get(article.article), agentViews };
+    return { ...analyzed, suspicion: detectSuspicion(analyzed, edited) };
+  }));
+}
+
+/**
+ * Éléments Wikidata par lots de 50 (limite de `wbgetentities`), sans les éléments absents
+ */
+async function fetchWikidataEntities(ids: string[], signal?: AbortSignal): Promise<Record<string, WikidataEntity>> {
+  const entities: Record<string, WikidataEntity> = {};
+  const batchSize = 50;
+
+  for (let i = 0; i < ids.length; i += batchSize) {
+    try {
+      const data = await metadataProvider.getWikidataEntities(ids.slice(i, i + batchSize), signal);
+      Object.values(data.entities).forEach(entity => {
+        if (entity.missing === undefined) entities[entity.id] = entity;
+      });
+    } catch (error) {
+      rethrowIfAborted(error);
+      reportFallback('Error fetching Wikidata entities', error);
+    }
   }
+
+  return entities;
 }
 
 /**
- * Récupère les métadonnées des articles via l'API MediaWiki
+ * Ajoute à chaque article son élément Wikidata et sa pertinence suisse.
+ * Les articles déjà évalués sont conservés tels quels.
  */
-async function getArticleMetadata(titles: string[], language: Language): Promise<Record<string, { description: string; thumbnail: string; categories: string[]; extract: string }>> {
-  if (titles.length === 0) return {};
+export async function scoreSwissArticles(articles: Article[], language: Language, signal?: AbortSignal): Promise<Article[]> {
+  const pending = articles.filter(article => article.swissScore === undefined);
+  if (pending.length === 0) return articles;
+
+  const unresolved = pending.filter(article => !article.wikidataId).map(article => article.article);
+  const qids = unresolved.length > 0 ? await resolveWikidataIds(unresolved, language, signal) : {};
+  const wikidataIdOf = (article: Article) => article.wikidataId ?? qids[article.article];
+
+  const relevance = await computeSwissRelevance(
+    pending.map(wikidataIdOf).filter((id): id is string => Boolean(id)),
+    ids => fetchWikidataEntities(ids, signal)
+  );
+
+  return articles.map(article => {
+    if (article.swissScore !== undefined) return article;
+    const wikidataId = wikidataIdOf(article);
+    const result = wikidataId ? relevance.get(wikidataId) : undefined;
+    if (!result) return wikidataId ? { ...article, wikidataId } : article;
+    return { ...article, wikidataId, swissScore: result.score, swissSignals: result.signals };
+  });
+}
+
+/**
+ * Filtre des articles liés à la Suisse d'après leur pertinence Wikidata.
+ * Le classement est évalué par lots de 50, sur ses 1000 premières lignes au plus,
+ * jusqu'à retenir `maxMatches` articles.
+ */
+export async function filterSwissArticles(
+  articles: Article[],
+  language: Language,
+  threshold: number = DEFAULT_SWISS_THRESHOLD,
+  signal?: AbortSignal,
+  maxMatches: number = SWISS_MATCHES
+): Promise<Article[]> {
+  const batchSize = 50;
+  const swissArticles: Article[] = [];
+  const depth = Math.min(articles.length, SWISS_SCAN_ROWS);
+
+  for (let i = 0; i < depth && swissArticles.length < maxMatches; i += batchSize) {
+    const scored = await scoreSwissArticles(articles.slice(i, i + batchSize), language, signal);
+    swissArticles.push(...scored.filter(article => (article.swissScore ?? 0) >= threshold));
+  }
 
-  const titlesParam = titles.map(t => encodeURIComponent(t)).join('|');
-  const url = `https://${language}.wikipedia.org/w/api.php?action=query&format=json&prop=pageimages|extracts|categories&exintro=1&explaintext=1&pithumbsize=100&pilimit=${titles.length}&cllimit=10&titles=${titlesParam}&formatversion=2&origin=*`;
+  return swissArticles.slice(0, maxMatches);
+}
 
-  try {
-    const data = await fetchFromAPI<MediaWikiResponse>(url);
-    const pages = data.query.pages;
-
-    const metadata: Record<string, { description: string; thumbnail: string; categories: string[]; extract: string }> = {};
-    pages.forEach(page => {
-      metadata[page.title] = {
-        description: page.extract?.substring(0, 150) || '',
-        thumbnail: page.thumbnail?.source || '',
-        categories: page.categories?.map(cat => cat.title) || [],
-        extract: page.extract || ''
-      };
+/**
+ * Enrichit les articles avec des métadonnées de l'API MediaWiki.
+ * Les articles d'un lot dont les métadonnées n'ont pu être chargées sont conservés,
+ * marqués `metadataUnavailable` : le classement reste affichable sans elles.
+ */
+export async function enrichArticlesWithMetadata(articles: Article[], language: Language, signal?: AbortSignal): Promise<Article[]> {
+  if (articles.length === 0) return [];
+
+  const batchSize = 25;
+  const enrichedArticles: Article[] = [];
+
+  for (let i = 0; i < articles.length; i += batchSize) {
+    const batch = articles.slice(i, i + batchSize);
+    const titles = batch.map(article => decodeTitle(article.article).replace(/_/g, ' '));
+
+    let metadata: Record<string, PageMetadata>;
+    try {
+      metadata = await getArticleMetadata(titles, language, signal);
+    } catch (error) {
+      rethrowIfAborted(error);
+      reportFallback('Error enriching articles with metadata', error);
+      enrichedArticles.push(...batch.map(article => ({ ...article, metadataUnavailable: true })));
+      continue;
+    }
+
+    const enriched = batch.map(article => {
+      const title = decodeTitle(article.article).replace(/_/g, ' ');
+      const articleMetadata = metadata[title];
+
+      if (articleMetadata) {
+        const enrichedMetadata = {
+          description: articleMetadata.description || '',
+          thumbnail: articleMetadata.thumbnail || '',
+          categories: articleMetadata.categories || [],
+          extract: articleMetadata.extract || ''
+        };
+        const enrichedArticle = { ...article, metadata: enrichedMetadata, topic: classifyTopic(enrichedMetadata, language) };
+        return articleMetadata.disambiguation ? { ...enrichedArticle, disambiguation: true } : enrichedArticle;
+      }
+
+      return article;
     });
 
-    return metadata;
-  } catch (error) {
-    console.error('Error fetching article metadata:', error);
-    return {};
+    enrichedArticles.push(...enriched);
   }
+
+  return enrichedArticles;
+}
+
+interface PageMetadata {
+  description: string;
+  thumbnail: string;
+  categories: string[];
+  extract: string;
+  disambiguation: boolean;
 }
 
 /**
- * Récupère l'historique des vues quotidiennes pour un article
+ * Récupère les métadonnées des articles via l'API MediaWiki
  */
-export async function fetchArticleViewHistory(article: string, language: Language, days: number = 30): Promise<{ date: string; views: number }[]> {
-  const today = new Date();
-  const startDate = new Date();
-  startDate.setDate(today.getDate() - days);
+async function getArticleMetadata(
+  titles: string[],
+  language: Language,
+  signal?: AbortSignal
+): Promise<Record<string, PageMetadata>> {
+  if (titles.length === 0) return {};
 
-  const startFormatted = format(startDate, 'yyyyMMdd');
-  const endFormatted = format(today, 'yyyyMMdd');
+  const data = await metadataProvider.getPageMetadata(titles, language, signal);
+  const pages = data.query.pages;
+
+  const metadata: Record<string, PageMetadata> = {};
+  pages.forEach(page => {
+    metadata[page.title] = {
+      description: page.extract?.substring(0, 150) || '',
+      thumbnail: page.thumbnail?.source || '',
+      categories: page.categories?.map(cat => cat.title) || [],
+      extract: page.extract || '',
+      disambiguation: page.pageprops?.disambiguation !== undefined
+    };
+  });
 
-  const encodedArticle = encodeURIComponent(article);
-  const url = `${API_BASE}/per-article/${language}.wikipedia/all-access/all-agents/${encodedArticle}/daily/${startFormatted}/${endFormatted}`;
+  return metadata;
+}
+
+/**
+ * Vues quotidiennes (par défaut agent `user`, comme les classements /top) alignées sur `days`.
+ * Les jours absents de la réponse comptent 0 vue.
+ */
+async function fetchDailyViews(
+  article: string,
+  language: Language,
+  days: Date[],
+  agent: Agent = 'user',
+  signal?: AbortSignal
+): Promise<number[]> {
+  const data = await pageviewsProvider.getPerArticle(article, language, agent, days[0], days[days.length - 1], signal);
+
+  const viewsByDay = new Map((data.items || []).map(item => [item.timestamp.slice(0, 8), item.views]));
+  return days.map(day => viewsByDay.get(format(day, 'yyyyMMdd')) || 0);
+}
 
-  const data = await fetchFromAPI<{ items?: { timestamp: string; views: number }[] }>(url);
+/**
+ * Récupère l'historique des vues quotidiennes pour un article
+ */
+export async function fetchArticleViewHistory(
+  article: string,
+  language: Language,
+  days: number = 30,
+  endDate: Date = new Date(),
+  agent: Agent = 'user',
+  signal?: AbortSignal
+): Promise<ViewHistory[]> {
+  const data = await pageviewsProvider.getPerArticle(article, language, agent, subDays(endDate, days), endDate, signal);
 
   if (!data.items || data.items.length === 0) {
     return [];
@@ -0,0 +1,24 @@
+import { decodeTitle } from './exclusions';
+import { Article, Language, LanguageSelection } from './types';
+
+/**
+ * Wiki d'origine d'une ligne : son wiki principal en mode fusionné, sinon le wiki sélectionné
+ */
+export function articleLanguage(article: Article, selection: LanguageSelection): Language {
+  return article.mainLanguage ?? (selection === 'ch' ? 'de' : selection);
+}
+
+/**
+ * Titre lisible d'un article (sans soulignés)
+ */
+export function articleTitle(article: Article): string {
+  return decodeTitle(article.article).replace(/_/g, ' ');
+}
+
+/**
+ * URL de l'article sur son wiki d'origine
+ */
+export function articleUrl(article: Article, selection: LanguageSelection): string {
+  const path = encodeURIComponent(article.article).replace(/%2F/g, '/').replace(/%3A/g, ':');
+  return `https://${articleLanguage(article, selection)}.wikipedia.org/wiki/${path}`;
+}
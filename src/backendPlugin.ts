@@ -0,0 +1,22 @@
+import { join } from 'node:path';
+import type { Plugin } from 'vite';
+import { createBackendMiddleware } from './server/backend';
+import { createSnapshotStore } from './server/snapshotStore';
+
+/**
+ * Sert l'API du backend (`/api/*`) et les exports (`/export/*`) depuis le serveur de développement et l'aperçu Vite,
+ * avec l'archive du serveur autonome (`HELVETISCAN_DATA_DIR`, `data` par défaut)
+ */
+export function backendPlugin(): Plugin {
+  const middleware = createBackendMiddleware(createSnapshotStore(join(process.env.HELVETISCAN_DATA_DIR ?? 'data', 'archive')));
+
+  return {
+    name: 'helvetiscan-backend',
+    configureServer(server) {
+      server.middlewares.use(middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(middleware);
+    }
+  };
+}
@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+import { writeFile } from 'node:fs/promises';
+import { USAGE, parseCliArgs, runCommand } from '../cli';
+
+/**
+ * Point d'entrée de la ligne de commande (`npm run build:cli`, puis `helvetiscan …`)
+ */
+async function main(argv: string[]): Promise<number> {
+  let invocation;
+  try {
+    invocation = parseCliArgs(argv);
+  } catch (error) {
+    console.error(`helvetiscan : ${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (!invocation) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  // Replis de l'API (vues par accès ou par agent, modifications indisponibles pour un article) :
+  // comptés, et détaillés avec --verbose
+  const { verbose } = invocation.options;
+  let fallbacks = 0;
+  const onFallback = (message: string, error: unknown) => {
+    fallbacks++;
+    if (verbose) console.error(`${message}:`, error);
+  };
+
+  try {
+    const output = await runCommand(invocation, onFallback);
+    if (invocation.options.output) {
+      await writeFile(invocation.options.output, output, 'utf-8');
+    } else {
+      process.stdout.write(output);
+    }
+    if (fallbacks > 0 && !verbose) {
+      console.error(`helvetiscan : ${fallbacks} donnée(s) complémentaire(s) indisponible(s), détail avec --verbose`);
+    }
+    return 0;
+  } catch (error) {
+    console.error(`helvetiscan : échec de la commande : ${(error as Error).message}`);
+    // La pile sans sa première ligne, qui répète le message
+    const stack = error instanceof Error ? error.stack?.split('\n').slice(1).join('\n') : undefined;
+    if (verbose && stack) console.error(stack);
+    return 1;
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+import { createServer } from 'node:http';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { parseISO } from 'date-fns';
+import { getLatestAvailableDate } from '../api';
+import { setPersistentCache } from '../cache';
+import { configureHttp } from '../http';
+import { createBackendMiddleware, takeSnapshot } from '../server/backend';
+import { createFileCache } from '../server/fileCache';
+import { createSnapshotStore } from '../server/snapshotStore';
+import { parseViewDate } from '../urlState';
+
+const USAGE = `Usage : helvetiscan-server [snapshot] [options]
+
+Sans commande, sert /api/top, /api/trending, /api/history, /api/proxy
+et les exports /export/{csv,json,md,rss,atom}, et archive chaque heure le dernier jour publié.
+« snapshot » archive un seul jour puis se termine (tâche cron).
+
+Options :
+  --port <n>           port d'écoute [8787]
+  --data-dir <dir>     répertoire de l'archive et du cache [data]
+  --date <yyyy-MM-dd>  jour à archiver (snapshot) [dernières données]
+  -h, --help           affiche cette aide
+
+Variables : HELVETISCAN_USER_AGENT (User-Agent envoyé à Wikimedia, avec un contact)`;
+
+const SNAPSHOT_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Point d'entrée du backend (`npm run build:server`, puis `node dist-server/server.js`)
+ */
+async function main(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        port: { type: 'string' },
+        'data-dir': { type: 'string' },
+        date: { type: 'string' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (error) {
+    console.error(`helvetiscan-server : ${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const [command] = positionals;
+  const port = Number(values.port ?? 8787);
+  const date = values.date === undefined ? undefined : parseViewDate(values.date, getLatestAvailableDate());
+  if ((command !== undefined && command !== 'snapshot') || !Number.isInteger(port) || date === null) {
+    console.error(`helvetiscan-server : arguments invalides\n\n${USAGE}`);
+    return 2;
+  }
+
+  const dataDir = values['data-dir'] ?? 'data';
+  configureHttp({ userAgent: process.env.HELVETISCAN_USER_AGENT });
+  setPersistentCache(createFileCache(join(dataDir, 'cache')));
+  const store = createSnapshotStore(join(dataDir, 'archive'));
+
+  if (command === 'snapshot') {
+    const failures = await takeSnapshot(store, date ? parseISO(date) : getLatestAvailableDate());
+    return failures > 0 ? 1 : 0;
+  }
+
+  const middleware = createBackendMiddleware(store);
+  createServer((req, res) => {
+    middleware(req, res, () => {
+      res.statusCode = 404;
+      res.end('Not found');
+    });
+  }).listen(port, () => console.log(`HelvetiScan backend on http://localhost:${port}`));
+
+  // Les classements déjà archivés sont ignorés : seul un nouveau jour déclenche des requêtes
+  const snapshot = () => takeSnapshot(store, getLatestAvailableDate()).catch(error => {
+    console.error('Error taking snapshot:', error);
+  });
+  void snapshot();
+  setInterval(snapshot, SNAPSHOT_INTERVAL);
+  return 0;
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createLruCache, getCacheTtl } from './cache';
+
+describe('createLruCache', () => {
+  it('evicts the least recently used entry, not the oldest inserted', () => {
+    const cache = createLruCache<number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe(3);
+    expect(cache.size).toBe(2);
+  });
+
+  it('refreshes recency when an existing key is overwritten', () => {
+    const cache = createLruCache<number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('a', 10);
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(10);
+    expect(cache.get('b')).toBeUndefined();
+  });
+});
+
+describe('getCacheTtl', () => {
+  const now = new Date(2026, 2, 15, 12);
+  const base = 'https://wikimedia.org/api/rest_v1/metrics/pageviews';
+  // Réponses réduites à ce que lit getCacheTtl : le dernier jour d'une série ou d'un classement
+  const series = (...days: string[]) => ({ items: days.map(day => ({ timestamp: `${day}00`, views: 1 })) });
+  const top = (year: string, month: string, day: string) => ({ items: [{ year, month, day, articles: [] }] });
+
+  it('never expires published days', () => {
+    expect(getCacheTtl(`${base}/top/fr.wikipedia/all-access/2026/03/14`, top('2026', '03', '14'), now)).toBe(Infinity);
+    expect(getCacheTtl(`${base}/top-per-country/CH/all-access/2026/03/01`, top('2026', '03', '01'), now)).toBe(Infinity);
+    expect(getCacheTtl(`${base}/top/fr.wikipedia/all-access/2026/02/all-days`, top('2026', '02', 'all-days'), now)).toBe(Infinity);
+    expect(getCacheTtl(
+      `${base}/per-article/fr.wikipedia/all-access/user/Gen%C3%A8ve/daily/20260201/20260314`, series('20260201', '20260314'), now
+    )).toBe(Infinity);
+  });
+
+  it('expires the current day and month quickly', () => {
+    expect(getCacheTtl(`${base}/top/fr.wikipedia/all-access/2026/03/15`, top('2026', '03', '15'), now)).toBe(5 * 60 * 1000);
+    expect(getCacheTtl(`${base}/top/fr.wikipedia/all-access/2026/03/all-days`, top('2026', '03', 'all-days'), now)).toBe(5 * 60 * 1000);
+    expect(getCacheTtl(
+      `${base}/per-article/fr.wikipedia/all-access/all-agents/Paris/daily/20260213/20260315`, series('20260213', '20260315'), now
+    )).toBe(5 * 60 * 1000);
+  });
+
+  it('expires published days quickly when the response lacks the last one', () => {
+    expect(getCacheTtl(
+      `${base}/per-article/fr.wikipedia/all-access/user/Paris/daily/20260201/20260314`, series('20260201', '20260313'), now
+    )).toBe(5 * 60 * 1000);
+    expect(getCacheTtl(`${base}/top/fr.wikipedia/all-access/2026/03/14`, { items: [] }, now)).toBe(5 * 60 * 1000);
+    expect(getCacheTtl(`${base}/top/fr.wikipedia/all-access/2026/03/14`, null, now)).toBe(5 * 60 * 1000);
+  });
+
+  it('keeps MediaWiki metadata for a few hours', () => {
+    expect(getCacheTtl('https://fr.wikipedia.org/w/api.php?action=query&titles=Paris', {}, now)).toBe(6 * 60 * 60 * 1000);
+  });
+
+  it('keeps site info for a week', () => {
+    expect(getCacheTtl('https://fr.wikipedia.org/w/api.php?action=query&format=json&meta=siteinfo', {}, now)).toBe(7 * 24 * 60 * 60 * 1000);
+  });
+});
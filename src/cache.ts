@@ -0,0 +1,225 @@
+import { endOfMonth, format, subDays } from 'date-fns';
+
+export interface CacheEntry<T = unknown> {
+  data: T;
+  /** Date de récupération (ms) */
+  timestamp: number;
+  /** Date d'expiration (ms), `Infinity` pour les données historiques immuables */
+  expiresAt: number;
+}
+
+export interface LruCache<V> {
+  get(key: string): V | undefined;
+  set(key: string, value: V): void;
+  delete(key: string): void;
+  readonly size: number;
+}
+
+/**
+ * Cache LRU borné : chaque lecture replace l'entrée en tête, l'entrée la moins
+ * récemment utilisée est évincée en premier.
+ */
+export function createLruCache<V>(maxSize: number): LruCache<V> {
+  // L'ordre d'insertion d'une Map sert d'ordre d'utilisation
+  const entries = new Map<string, V>();
+
+  return {
+    get(key) {
+      if (!entries.has(key)) return undefined;
+      const value = entries.get(key) as V;
+      entries.delete(key);
+      entries.set(key, value);
+      return value;
+    },
+
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, value);
+      if (entries.size > maxSize) {
+        const leastRecentKey = entries.keys().next().value;
+        if (leastRecentKey !== undefined) entries.delete(leastRecentKey);
+      }
+    },
+
+    delete(key) {
+      entries.delete(key);
+    },
+
+    get size() {
+      return entries.size;
+    }
+  };
+}
+
+const MINUTE = 60 * 1000;
+const DEFAULT_TTL = 15 * MINUTE;
+// Données du jour en cours (ou d'un mois non terminé) : susceptibles d'évoluer
+const CURRENT_DATA_TTL = 5 * MINUTE;
+const METADATA_TTL = 6 * 60 * MINUTE;
+// Espaces de noms et page d'accueil d'un wiki : ne changent que très rarement
+const SITEINFO_TTL = 7 * 24 * 60 * MINUTE;
+
+/** Éléments des réponses de l'API de consultation : séries journalières ou classements */
+interface PageviewsItem {
+  timestamp?: string;
+  year?: string;
+  month?: string;
+  day?: string;
+}
+
+/**
+ * La réponse contient-elle le jour `day` (yyyyMMdd, ou yyyyMM suivi de `all-days` pour un mois) ?
+ */
+function containsDay(data: unknown, day: string): boolean {
+  const items = (data as { items?: PageviewsItem[] } | null)?.items;
+  return Array.isArray(items) && items.some(item =>
+    item.timestamp?.startsWith(day) || `${item.year}${item.month}${item.day}` === day);
+}
+
+/**
+ * Durée de validité d'une réponse selon l'endpoint : les jours publiés ne changent plus, le jour
+ * courant expire vite. Une réponse à laquelle manque son dernier jour (récupérée avant sa
+ * publication) expire vite elle aussi, pour ne pas figer des données incomplètes.
+ */
+export function getCacheTtl(url: string, data: unknown, now: Date = new Date()): number {
+  // Dernier jour publié, comme `getLatestAvailableDate` (api.ts dépend de ce module)
+  const latest = format(subDays(now, 1), 'yyyyMMdd');
+  const publishedTtl = (end: string, day: string) =>
+    end <= latest && containsDay(data, day) ? Infinity : CURRENT_DATA_TTL;
+
+  // /per-article/.../daily/{début}/{fin}
+  const perArticle = url.match(/\/daily\/\d{8}\/(\d{8})/);
+  if (perArticle) {
+    return publishedTtl(perArticle[1], perArticle[1]);
+  }
+
+  // /top/.../{yyyy}/{MM}/all-days : immuable une fois le mois terminé
+  const allDays = url.match(/\/(\d{4})\/(\d{2})\/all-days/);
+  if (allDays) {
+    const end = format(endOfMonth(new Date(Number(allDays[1]), Number(allDays[2]) - 1)), 'yyyyMMdd');
+    return publishedTtl(end, `${allDays[1]}${allDays[2]}all-days`);
+  }
+
+  // /top/... et /top-per-country/... : {yyyy}/{MM}/{dd}
+  const daily = url.match(/\/(\d{4})\/(\d{2})\/(\d{2})(?:$|[/?])/);
+  if (daily) {
+    const day = `${daily[1]}${daily[2]}${daily[3]}`;
+    return publishedTtl(day, day);
+  }
+
+  if (url.includes('/w/api.php')) {
+    return url.includes('meta=siteinfo') ? SITEINFO_TTL : METADATA_TTL;
+  }
+
+  return DEFAULT_TTL;
+}
+
+const DB_NAME = 'helvetiscan-cache';
+const STORE_NAME = 'responses';
+const MAX_PERSISTED_ENTRIES = 1000;
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Ouvre la base IndexedDB (null hors navigateur ou si elle est indisponible)
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+
+  if (!databasePromise) {
+    databasePromise = new Promise(resolve => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME);
+        store.createIndex('timestamp', 'timestamp');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Error opening cache database:', request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  return databasePromise;
+}
+
+/**
+ * Stockage durable des réponses, derrière le cache mémoire
+ */
+export interface PersistentCache {
+  read(key: string): Promise<CacheEntry | undefined>;
+  write(key: string, entry: CacheEntry): Promise<void>;
+}
+
+/**
+ * Lit une réponse persistée dans IndexedDB
+ */
+async function readIndexedDbEntry(key: string): Promise<CacheEntry | undefined> {
+  try {
+    const db = await openDatabase();
+    if (!db) return undefined;
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    return await requestToPromise(store.get(key) as IDBRequest<CacheEntry | undefined>);
+  } catch (error) {
+    console.error('Error reading cache entry:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Persiste une réponse dans IndexedDB, puis supprime les plus anciennes au-delà de la limite
+ */
+async function writeIndexedDbEntry(key: string, entry: CacheEntry): Promise<void> {
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await requestToPromise(store.put(entry, key));
+
+    const count = await requestToPromise(store.count());
+    let excess = count - MAX_PERSISTED_ENTRIES;
+    if (excess <= 0) return;
+
+    const cursorRequest = store.index('timestamp').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess <= 0) return;
+      cursor.delete();
+      excess--;
+      cursor.continue();
+    };
+  } catch (error) {
+    console.error('Error writing cache entry:', error);
+  }
+}
+
+/** Cache du navigateur ; sans effet hors navigateur */
+export const indexedDbCache: PersistentCache = {
+  read: readIndexedDbEntry,
+  write: writeIndexedDbEntry
+};
+
+let persistentCache: PersistentCache = indexedDbCache;
+
+/**
+ * Remplace le stockage durable (p. ex. des fichiers côté serveur)
+ */
+export function setPersistentCache(cache: PersistentCache): void {
+  persistentCache = cache;
+}
+
+export function readPersistedEntry(key: string): Promise<CacheEntry | undefined> {
+  return persistentCache.read(key);
+}
+
+export function writePersistedEntry(key: string, entry: CacheEntry): Promise<void> {
+  return persistentCache.write(key, entry);
+}
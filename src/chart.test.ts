@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { chartKey, computeMovements } from './chart';
+
+describe('computeMovements', () => {
+  const dailyCharts = [
+    ['A', 'B', 'D'],
+    ['B', 'A'],
+    ['A', 'C', 'B']
+  ];
+
+  it('compares ranks with the previous period', () => {
+    const movements = computeMovements(['A', 'C', 'B', 'D'], ['B', 'A'], dailyCharts, 1);
+
+    expect(movements.get('A')).toEqual({ status: 'up', previousRank: 2, delta: 1, daysInChart: 3, peakRank: 1 });
+    expect(movements.get('B')).toMatchObject({ status: 'down', previousRank: 1, delta: -2, daysInChart: 3, peakRank: 1 });
+  });
+
+  it('tells new entries from re-entries', () => {
+    const movements = computeMovements(['A', 'C', 'B', 'D'], ['B', 'A'], dailyCharts, 1);
+
+    expect(movements.get('C')).toMatchObject({ status: 'new', delta: 0, daysInChart: 1, peakRank: 2 });
+    expect(movements.get('D')).toMatchObject({ status: 're-entry', daysInChart: 0, peakRank: 3 });
+  });
+
+  it('only counts days before the period when looking for re-entries', () => {
+    const movements = computeMovements(['C'], [], [['X'], ['C'], ['C']], 2);
+
+    expect(movements.get('C')).toMatchObject({ status: 'new', daysInChart: 2 });
+  });
+});
+
+describe('chartKey', () => {
+  it('keys merged rows by Wikidata item and single-wiki rows by title', () => {
+    expect(chartKey({ article: 'Genève', views: 1 })).toBe('Genève');
+    expect(chartKey({ article: 'Genf', views: 1, mainLanguage: 'de', wikidataId: 'Q71' })).toBe('Q71');
+    expect(chartKey({ article: 'Genf', views: 1, mainLanguage: 'de' })).toBe('de:Genf');
+  });
+});
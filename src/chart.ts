@@ -0,0 +1,70 @@
+import { Article } from './types';
+
+/** Taille du classement affiché, au sens d'un hit-parade */
+export const CHART_SIZE = 50;
+/** Nombre de classements quotidiens examinés pour l'ancienneté et le meilleur rang */
+export const CHART_LOOKBACK_DAYS = 30;
+/** Jours examinés au minimum avant la période, pour distinguer les retours des nouvelles entrées */
+export const CHART_REENTRY_DAYS = 7;
+
+export type MovementStatus = 'up' | 'down' | 'same' | 'new' | 're-entry';
+
+export interface ChartMovement {
+  status: MovementStatus;
+  /** Rang sur la période précédente équivalente, absent si l'article n'y figurait pas */
+  previousRank?: number;
+  /** Places gagnées (positif) ou perdues (négatif) depuis la période précédente */
+  delta: number;
+  /** Jours consécutifs dans le classement quotidien, jusqu'au dernier jour de la période */
+  daysInChart: number;
+  /** Meilleur rang atteint : rang courant ou rang quotidien sur les jours examinés */
+  peakRank: number;
+}
+
+/**
+ * Identifiant d'une ligne d'un classement à l'autre : l'élément Wikidata pour les lignes
+ * fusionnées (le titre principal peut changer de wiki), le titre sinon.
+ */
+export function chartKey(article: Article): string {
+  if (!article.mainLanguage) return article.article;
+  return article.wikidataId ?? `${article.mainLanguage}:${article.article}`;
+}
+
+/**
+ * Mouvements de chaque ligne du classement courant.
+ * `current` et `previous` sont les clés des classements de la période et de la période
+ * précédente ; `dailyCharts` les classements quotidiens, du plus ancien au dernier jour
+ * de la période (`periodLength` derniers éléments).
+ */
+export function computeMovements(
+  current: string[],
+  previous: string[],
+  dailyCharts: string[][],
+  periodLength: number
+): Map<string, ChartMovement> {
+  const previousRanks = new Map(previous.map((key, index) => [key, index + 1]));
+  const dailyRanks = dailyCharts.map(chart => new Map(chart.map((key, index) => [key, index + 1])));
+  const periodStart = dailyCharts.length - periodLength;
+
+  return new Map(current.map((key, index) => {
+    const rank = index + 1;
+    const previousRank = previousRanks.get(key);
+
+    let daysInChart = 0;
+    for (let day = dailyRanks.length - 1; day >= 0 && dailyRanks[day].has(key); day--) {
+      daysInChart++;
+    }
+
+    const peakRank = Math.min(rank, ...dailyRanks.flatMap(ranks => ranks.get(key) ?? []));
+
+    let status: MovementStatus;
+    if (previousRank !== undefined) {
+      status = previousRank > rank ? 'up' : previousRank < rank ? 'down' : 'same';
+    } else {
+      const seenBefore = dailyRanks.slice(0, Math.max(periodStart, 0)).some(ranks => ranks.has(key));
+      status = seenBefore ? 're-entry' : 'new';
+    }
+
+    return [key, { status, previousRank, delta: previousRank !== undefined ? previousRank - rank : 0, daysInChart, peakRank }];
+  }));
+}
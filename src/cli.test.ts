@@ -0,0 +1,96 @@
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { formatTable, parseCliArgs, runCommand } from './cli';
+
+const fixturesDir = fileURLToPath(new URL('../fixtures', import.meta.url));
+
+beforeEach(() => {
+  // Les fixtures couvrent le 1er mars 2026, soit « hier » pour l'application
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date(2026, 2, 2, 10));
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+function run(argv: string[], onFallback?: (message: string, error: unknown) => void) {
+  const invocation = parseCliArgs([...argv, '--fixtures', fixturesDir]);
+  if (!invocation) throw new Error('unexpected help');
+  return runCommand(invocation, onFallback);
+}
+
+describe('parseCliArgs', () => {
+  it('reads the command and its options', () => {
+    expect(parseCliArgs(['top', '--lang', 'de', '--period', 'weekly', '--swiss', '--format', 'md'])).toMatchObject({
+      command: 'top',
+      options: { language: 'de', period: 'weekly', swissFilter: 'topics', format: 'md', access: 'all-access', limit: 25 }
+    });
+    expect(parseCliArgs(['history', 'Roger Federer', '--days', '7'])).toMatchObject({
+      command: 'history', article: 'Roger Federer', options: { days: 7, agent: 'user', verbose: false }
+    });
+    expect(parseCliArgs(['digest', '-v'])).toMatchObject({ command: 'digest', options: { verbose: true } });
+  });
+
+  it('returns null when help is requested', () => {
+    expect(parseCliArgs([])).toBeNull();
+    expect(parseCliArgs(['top', '--help'])).toBeNull();
+  });
+
+  it('rejects invalid usage with a readable message', () => {
+    expect(() => parseCliArgs(['ranking'])).toThrow('--command');
+    expect(() => parseCliArgs(['top', '--format', 'xml'])).toThrow('table, json, csv, md');
+    expect(() => parseCliArgs(['history'])).toThrow('titre d\'article attendu');
+    expect(() => parseCliArgs(['history', 'Genève', '--lang', 'ch'])).toThrow('--lang');
+    expect(() => parseCliArgs(['top', '--date', '2026-03-05'])).toThrow('--date');
+    expect(() => parseCliArgs(['top', '--limit', '0'])).toThrow('--limit');
+  });
+});
+
+describe('formatTable', () => {
+  it('aligns text left and numbers right', () => {
+    expect(formatTable(['Rang', 'Article'], [[1, 'Genève'], [10, 'Sion']])).toBe(
+      'Rang  Article\n----  -------\n   1  Genève\n  10  Sion\n'
+    );
+  });
+});
+
+describe('runCommand', () => {
+  it('prints the top articles as a table', async () => {
+    const output = await run(['top', '--limit', '2']);
+
+    expect(output).toContain('Articles les plus consultés (fr, Jour');
+    expect(output).toMatch(/ {3}1 {2}Genève +45000\n {3}2 {2}Roger Federer +40000\n$/);
+  });
+
+  it('reuses the interface exports for the other formats', async () => {
+    const data = JSON.parse(await run(['trending', '--format', 'json']));
+
+    expect(data).toMatchObject({ tab: 'trending', language: 'fr', period: 'daily' });
+    expect(data.articles[0]).toMatchObject({ rank: 1, title: 'Votation fédérale du 1er mars 2026' });
+  });
+
+  it('reports the API fallbacks to the given listener instead of the console', async () => {
+    const onFallback = vi.fn();
+    await run(['trending'], onFallback);
+
+    expect(onFallback).toHaveBeenCalledWith(expect.stringContaining('Error loading'), expect.anything());
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it('prints the daily views of an article', async () => {
+    const output = await run(['history', 'Genève', '--days', '2', '--format', 'csv']);
+
+    expect(output).toBe('date,views\n2026-02-27,15000\n2026-02-28,15200\n2026-03-01,45000\n');
+  });
+
+  it('combines both rankings in a digest with a single CSV header', async () => {
+    const lines = (await run(['digest', '--limit', '2', '--format', 'csv'])).trim().split('\n');
+
+    expect(lines).toHaveLength(5);
+    expect(lines[0]).toMatch(/^tab,/);
+    expect(lines.slice(1).map(line => line.split(',')[0])).toEqual(['mostViewed', 'mostViewed', 'trending', 'trending']);
+  });
+});
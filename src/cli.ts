@@ -0,0 +1,309 @@
+import { parseArgs } from 'node:util';
+import { parseISO } from 'date-fns';
+import {
+  FallbackListener,
+  fetchArticleViewHistory,
+  fetchTopArticles,
+  fetchTrendingArticles,
+  getLatestAvailableDate,
+  setProviders,
+  subscribeToFallbacks
+} from './api';
+import { ExportContext, describeExport, serializeArticles, toExportRows } from './export';
+import { createI18n } from './i18n';
+import { createFixtureMetadataProvider, createFixturePageviewsProvider } from './providers/fixture';
+import { summarizeTopics } from './topics';
+import { isSuspicious } from './traffic';
+import { AccessFilter, Agent, Article, Language, LanguageSelection, Period, RankingTab, SwissFilter, ViewHistory } from './types';
+import { ACCESS_FILTERS, LANGUAGE_SELECTIONS, PERIODS, parseViewDate } from './urlState';
+
+export type OutputFormat = 'table' | 'json' | 'csv' | 'md';
+export type CliCommandName = 'top' | 'trending' | 'history' | 'digest';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'csv', 'md'];
+const COMMANDS: CliCommandName[] = ['top', 'trending', 'history', 'digest'];
+const AGENTS: Agent[] = ['user', 'automated', 'spider', 'all-agents'];
+
+export interface CliOptions {
+  language: LanguageSelection;
+  period: Period;
+  swissFilter: SwissFilter;
+  access: AccessFilter;
+  /** Dernier jour de la période (yyyy-MM-dd), absent pour les données les plus récentes */
+  date?: string;
+  /** Nombre de lignes par classement */
+  limit: number;
+  format: OutputFormat;
+  /** Fichier de sortie, sortie standard sinon */
+  output?: string;
+  /** Répertoire de réponses enregistrées remplaçant les API Wikimedia */
+  fixtures?: string;
+  includeSuspicious: boolean;
+  /** Jours d'historique (`history`) */
+  days: number;
+  agent: Agent;
+  /** Détail des données complémentaires indisponibles, sur la sortie d'erreur */
+  verbose: boolean;
+}
+
+export interface CliInvocation {
+  command: CliCommandName;
+  /** Titre de l'article (`history`) */
+  article?: string;
+  options: CliOptions;
+}
+
+export const USAGE = `Usage : helvetiscan <commande> [options]
+
+Commandes :
+  top                  articles les plus consultés
+  trending             articles en progression
+  history <article>    vues quotidiennes d'un article
+  digest               synthèse : classement, progressions et thèmes
+
+Options :
+  --lang <code>        fr, de, it, rm, en, es ou ch (wikis nationaux fusionnés) [fr]
+  --period <période>   daily, 48h, weekly ou monthly [daily]
+  --swiss              sujets suisses uniquement (Wikidata)
+  --readers            lectures depuis la Suisse uniquement
+  --access <mode>      all-access, desktop, mobile-web ou mobile-app [all-access]
+  --date <yyyy-MM-dd>  dernier jour de la période [dernières données]
+  --limit <n>          lignes par classement [25]
+  --days <n>           jours d'historique (history) [30]
+  --agent <type>       user, automated, spider ou all-agents (history) [user]
+  --include-suspicious conserve les entrées au trafic suspect
+  --format <format>    table, json, csv ou md [table]
+  -o, --output <file>  écrit dans un fichier plutôt que sur la sortie standard
+  --fixtures <dir>     lit des réponses enregistrées au lieu des API Wikimedia
+  -v, --verbose        détaille chaque donnée complémentaire indisponible (sinon, un total)
+  -h, --help           affiche cette aide`;
+
+function choice<T extends string>(name: string, value: string | undefined, allowed: T[], fallback: T): T {
+  if (value === undefined) return fallback;
+  if (!allowed.includes(value as T)) {
+    throw new Error(`--${name} : valeur invalide « ${value} » (${allowed.join(', ')})`);
+  }
+  return value as T;
+}
+
+function positiveInteger(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new Error(`--${name} : entier positif attendu, « ${value} » reçu`);
+  }
+  return number;
+}
+
+/**
+ * Lit la ligne de commande ; retourne null si l'aide est demandée.
+ * Les erreurs d'usage lèvent une exception dont le message est destiné à l'utilisateur.
+ */
+export function parseCliArgs(argv: string[]): CliInvocation | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      lang: { type: 'string' },
+      period: { type: 'string' },
+      swiss: { type: 'boolean' },
+      readers: { type: 'boolean' },
+      access: { type: 'string' },
+      date: { type: 'string' },
+      limit: { type: 'string' },
+      days: { type: 'string' },
+      agent: { type: 'string' },
+      'include-suspicious': { type: 'boolean' },
+      format: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      fixtures: { type: 'string' },
+      verbose: { type: 'boolean', short: 'v' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  const [name, article, ...extra] = positionals;
+  if (values.help || !name) return null;
+
+  const command = choice('command', name, COMMANDS, 'top');
+  if (command === 'history' ? !article : article !== undefined) {
+    throw new Error(command === 'history' ? 'history : titre d\'article attendu' : `${command} : argument inattendu « ${article} »`);
+  }
+  if (extra.length > 0) throw new Error(`argument inattendu « ${extra[0]} »`);
+  if (values.swiss && values.readers) throw new Error('--swiss et --readers sont incompatibles');
+
+  const date = values.date === undefined ? undefined : parseViewDate(values.date, getLatestAvailableDate());
+  if (date === null) throw new Error(`--date : jour invalide ou non publié « ${values.date} »`);
+
+  const options: CliOptions = {
+    language: choice('lang', values.lang, LANGUAGE_SELECTIONS, 'fr'),
+    period: choice('period', values.period, PERIODS, 'daily'),
+    swissFilter: values.swiss ? 'topics' : values.readers ? 'readers' : 'none',
+    access: choice('access', values.access, ACCESS_FILTERS, 'all-access'),
+    date,
+    limit: positiveInteger('limit', values.limit, 25),
+    format: choice('format', values.format, OUTPUT_FORMATS, 'table'),
+    output: values.output,
+    fixtures: values.fixtures,
+    includeSuspicious: values['include-suspicious'] ?? false,
+    days: positiveInteger('days', values.days, 30),
+    agent: choice('agent', values.agent, AGENTS, 'user'),
+    verbose: values.verbose ?? false
+  };
+
+  if (command === 'history' && options.language === 'ch') {
+    throw new Error('history : choisir le wiki de l\'article (--lang fr, de, it…)');
+  }
+
+  return { command, article, options };
+}
+
+/**
+ * Tableau texte aligné, les colonnes numériques à droite
+ */
+export function formatTable(header: string[], rows: (string | number)[][]): string {
+  const cells = [header, ...rows.map(row => row.map(String))];
+  const widths = header.map((_, column) => Math.max(...cells.map(row => row[column].length)));
+  const numeric = header.map((_, column) => rows.length > 0 && rows.every(row => typeof row[column] === 'number'));
+
+  const line = (row: string[]) => row
+    .map((cell, column) => (numeric[column] ? cell.padStart(widths[column]) : cell.padEnd(widths[column])))
+    .join('  ')
+    .trimEnd();
+
+  return [line(cells[0]), widths.map(width => '-'.repeat(width)).join('  '), ...cells.slice(1).map(line)].join('\n') + '\n';
+}
+
+function rankingTable(articles: Article[], context: ExportContext): string {
+  const rows = toExportRows(articles, context);
+  const trending = context.tab === 'trending';
+  return formatTable(
+    trending ? ['Rang', 'Article', 'Vues', 'Progression', 'Fiabilité'] : ['Rang', 'Article', 'Vues'],
+    rows.map(row => trending
+      ? [row.rank, row.title, row.views, row.growth === null ? '' : `${row.growth > 0 ? '+' : ''}${row.growth} (${row.growthPercentage}%)`, row.reliability ?? '']
+      : [row.rank, row.title, row.views])
+  );
+}
+
+/**
+ * Classement dans le format demandé ; json, csv et md reprennent les exports de l'interface
+ */
+export function formatRanking(articles: Article[], context: ExportContext, format: OutputFormat): string {
+  if (format === 'table') return `${describeExport(context)}\n\n${rankingTable(articles, context)}`;
+  return serializeArticles(articles, context, format).content;
+}
+
+export function formatHistory(history: ViewHistory[], article: string, language: Language, format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ article, language, history }, null, 2) + '\n';
+    case 'csv':
+      return ['date,views', ...history.map(day => `${day.date},${day.views}`)].join('\n') + '\n';
+    case 'md':
+      return [`# ${article} (${language})`, '', '| Jour | Vues |', '| --- | ---: |', ...history.map(day => `| ${day.date} | ${day.views} |`)].join('\n') + '\n';
+    default:
+      return formatTable(['Jour', 'Vues'], history.map(day => [day.date, day.views]));
+  }
+}
+
+interface DigestSection {
+  context: ExportContext;
+  articles: Article[];
+}
+
+/**
+ * Synthèse d'une période : classement, progressions et part des vues par thème
+ */
+export function formatDigest(sections: DigestSection[], format: OutputFormat): string {
+  const { t } = createI18n('fr');
+  const topics = summarizeTopics(sections.find(({ context }) => context.tab === 'mostViewed')?.articles ?? []);
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify({
+        sections: sections.map(({ context, articles }) => JSON.parse(serializeArticles(articles, context, 'json').content)),
+        topics
+      }, null, 2) + '\n';
+    case 'csv':
+      // L'en-tête n'est écrit qu'une fois : chaque ligne porte déjà son onglet
+      return sections.map(({ context, articles }, index) => {
+        const content = serializeArticles(articles, context, 'csv').content;
+        return index === 0 ? content : content.slice(content.indexOf('\n') + 1);
+      }).join('');
+    case 'md':
+      return [
+        ...sections.map(({ context, articles }) => serializeArticles(articles, context, 'md').content.replace(/^# /, '## ')),
+        '## Thèmes\n',
+        '| Thème | Articles | Part des vues |',
+        '| --- | ---: | ---: |',
+        ...topics.map(({ topic, count, share }) => `| ${t(`topic.${topic}`)} | ${count} | ${Math.round(share * 100)}% |`)
+      ].join('\n') + '\n';
+    default:
+      return [
+        ...sections.map(({ context, articles }) => formatRanking(articles, context, 'table')),
+        formatTable(['Thème', 'Articles', 'Part des vues'], topics.map(({ topic, count, share }) => [t(`topic.${topic}`), count, `${Math.round(share * 100)}%`]))
+      ].join('\n');
+  }
+}
+
+async function fetchRanking(tab: RankingTab, options: CliOptions): Promise<DigestSection> {
+  const { language, period, swissFilter, access, date } = options;
+  const rankingOptions = { endDate: date ? parseISO(date) : undefined, access };
+  const articles = tab === 'mostViewed'
+    ? await fetchTopArticles(language, period, swissFilter, rankingOptions)
+    : await fetchTrendingArticles(language, period, swissFilter, rankingOptions);
+
+  // Comme dans l'interface et les flux, les entrées suspectes sont écartées par défaut
+  const visible = options.includeSuspicious ? articles : articles.filter(article => !isSuspicious(article));
+  return {
+    context: {
+      tab, language, period, swissFilter,
+      access: access === 'all-access' ? undefined : access,
+      date,
+      generatedAt: new Date()
+    },
+    articles: visible.slice(0, options.limit)
+  };
+}
+
+/**
+ * Exécute une commande et retourne le texte à écrire ; les replis de l'API (données complémentaires
+ * indisponibles) sont transmis à `onFallback` plutôt que journalisés
+ */
+export async function runCommand(invocation: CliInvocation, onFallback?: FallbackListener): Promise<string> {
+  if (invocation.options.fixtures) {
+    setProviders({
+      pageviews: createFixturePageviewsProvider(invocation.options.fixtures),
+      metadata: createFixtureMetadataProvider(invocation.options.fixtures)
+    });
+  }
+
+  const unsubscribe = onFallback ? subscribeToFallbacks(onFallback) : () => {};
+  try {
+    return await executeCommand(invocation);
+  } finally {
+    unsubscribe();
+  }
+}
+
+async function executeCommand({ command, article, options }: CliInvocation): Promise<string> {
+  switch (command) {
+    case 'top':
+    case 'trending': {
+      const { context, articles } = await fetchRanking(command === 'top' ? 'mostViewed' : 'trending', options);
+      return formatRanking(articles, context, options.format);
+    }
+    case 'history': {
+      // L'API Pageviews attend le titre avec des soulignés
+      const title = (article ?? '').replace(/ /g, '_');
+      const language = options.language as Language;
+      const endDate = options.date ? parseISO(options.date) : getLatestAvailableDate();
+      const history = await fetchArticleViewHistory(title, language, options.days, endDate, options.agent);
+      return formatHistory(history, title, language, options.format);
+    }
+    case 'digest': {
+      const sections = await Promise.all([fetchRanking('mostViewed', options), fetchRanking('trending', options)]);
+      return formatDigest(sections, options.format);
+    }
+  }
+}
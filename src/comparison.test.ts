@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { compareAttention, divergenceScore, splitTrending } from './comparison';
+import { Article } from './types';
+
+// Lignes fusionnées telles que produites par l'appariement Wikidata
+const merged: Article[] = [
+  { article: 'Roger_Federer', views: 6000, wikidataId: 'Q1426', mainLanguage: 'de', languages: { fr: 2000, de: 4000 }, localTitles: { fr: 'Roger_Federer', de: 'Roger_Federer' } },
+  { article: 'Genève', views: 6000, wikidataId: 'Q71', mainLanguage: 'fr', languages: { fr: 6000 }, localTitles: { fr: 'Genève' } },
+  { article: 'Zürich', views: 4000, wikidataId: 'Q72', mainLanguage: 'de', languages: { fr: 2000, de: 2000 }, localTitles: { fr: 'Zurich', de: 'Zürich' } },
+  { article: 'Sechseläuten', views: 4000, mainLanguage: 'de', languages: { de: 4000 }, localTitles: { de: 'Sechseläuten' } }
+];
+
+describe('compareAttention', () => {
+  it('normalizes views by the size of each ranking and ranks the widest gaps first', () => {
+    const rows = compareAttention(merged, ['fr', 'de']);
+
+    expect(rows.map(row => row.key)).toEqual(['Q71', 'de:Sechseläuten', 'Q1426', 'Q72']);
+    expect(rows[0]).toMatchObject({ attention: { fr: 0.6, de: 0 }, divergence: 1, leader: 'fr' });
+    // 20 % des vues francophones, 40 % des germanophones : écart d'un facteur 2
+    expect(rows[2].attention).toEqual({ fr: 0.2, de: 0.4 });
+    expect(rows[2].divergence).toBeCloseTo(1 / 3);
+    expect(rows[3]).toMatchObject({ localTitles: { fr: 'Zurich', de: 'Zürich' }, attention: { fr: 0.2, de: 0.2 }, divergence: 0 });
+  });
+});
+
+describe('divergenceScore', () => {
+  it('is 0 for identical attention and 1 for disjoint rankings', () => {
+    const same = compareAttention([{ article: 'A', views: 2, wikidataId: 'Q1', languages: { fr: 1, de: 1 } }], ['fr', 'de']);
+    const disjoint = compareAttention([
+      { article: 'A', views: 1, wikidataId: 'Q1', languages: { fr: 1 } },
+      { article: 'B', views: 1, wikidataId: 'Q2', languages: { de: 1 } }
+    ], ['fr', 'de']);
+
+    expect(divergenceScore(same, ['fr', 'de'])).toBe(0);
+    expect(divergenceScore(disjoint, ['fr', 'de'])).toBe(1);
+  });
+
+  it('averages the distance over every pair of wikis', () => {
+    const rows = compareAttention(merged, ['fr', 'de']);
+    // |0,6 − 0| + |0 − 0,4| + |0,2 − 0,4| + |0,2 − 0,2|, divisé par deux
+    expect(divergenceScore(rows, ['fr', 'de'])).toBeCloseTo(0.6);
+    expect(divergenceScore(rows, ['fr'])).toBe(0);
+  });
+});
+
+describe('splitTrending', () => {
+  it('separates trends shared by several wikis from those of a single wiki', () => {
+    const split = splitTrending(merged, ['fr', 'de', 'it']);
+
+    expect(split.shared.map(row => row.article)).toEqual(['Roger_Federer', 'Zürich']);
+    expect(split.exclusive.fr?.map(row => row.article)).toEqual(['Genève']);
+    expect(split.exclusive.de?.map(row => row.article)).toEqual(['Sechseläuten']);
+    expect(split.exclusive.it).toEqual([]);
+  });
+});
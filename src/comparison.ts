@@ -0,0 +1,109 @@
+import { Article, Language } from './types';
+
+/** Wikis comparés par défaut : Romandie et Suisse alémanique (« Röstigraben ») */
+export const DEFAULT_COMPARISON_LANGUAGES: Language[] = ['fr', 'de'];
+
+/** Écart à partir duquel un sujet est mis en évidence : attention quatre fois plus forte d'un côté */
+export const DIVERGENCE_HIGHLIGHT = 0.6;
+
+/**
+ * Article comparé entre wikis. L'attention est la part des vues du classement de chaque wiki :
+ * elle neutralise la différence de taille entre les wikis. Un article hors classement compte pour 0.
+ */
+export interface ComparisonRow {
+  /** QID Wikidata, ou `{langue}:{titre}` pour un article sans élément */
+  key: string;
+  wikidataId?: string;
+  localTitles: Partial<Record<Language, string>>;
+  views: Partial<Record<Language, number>>;
+  /** Part (0 à 1) des vues classées de chaque wiki comparé */
+  attention: Partial<Record<Language, number>>;
+  /** (max − min) / (max + min) des attentions : 0 si égales, 1 si l'article n'est classé que d'un côté */
+  divergence: number;
+  /** Wiki où l'article retient le plus l'attention */
+  leader: Language;
+}
+
+/** Tendances des wikis comparés : communes à plusieurs d'entre eux, ou propres à un seul */
+export interface TrendingSplit {
+  shared: Article[];
+  exclusive: Partial<Record<Language, Article[]>>;
+}
+
+function languageTotals(rows: Article[], languages: Language[]): Record<string, number> {
+  return Object.fromEntries(languages.map(language => [
+    language,
+    rows.reduce((sum, row) => sum + (row.languages?.[language] ?? 0), 0)
+  ]));
+}
+
+/**
+ * Compare l'attention portée à chaque article par des classements fusionnés (vues par langue
+ * dans `languages`, titres dans `localTitles`). Les écarts les plus marqués viennent en premier.
+ */
+export function compareAttention(merged: Article[], languages: Language[]): ComparisonRow[] {
+  const totals = languageTotals(merged, languages);
+
+  return merged
+    .map(row => {
+      const attention = Object.fromEntries(languages.map(language => [
+        language,
+        totals[language] > 0 ? (row.languages?.[language] ?? 0) / totals[language] : 0
+      ])) as Partial<Record<Language, number>>;
+      const values = languages.map(language => attention[language] ?? 0);
+      const max = Math.max(...values);
+      const min = Math.min(...values);
+
+      return {
+        key: row.wikidataId ?? `${row.mainLanguage}:${row.article}`,
+        wikidataId: row.wikidataId,
+        localTitles: row.localTitles ?? {},
+        views: row.languages ?? {},
+        attention,
+        divergence: max > 0 ? (max - min) / (max + min) : 0,
+        leader: languages[values.indexOf(max)]
+      };
+    })
+    // Écart absolu : un petit article absent d'un wiki importe moins qu'un sujet majeur deux fois plus lu
+    .sort((a, b) => spread(b, languages) - spread(a, languages));
+}
+
+function spread(row: ComparisonRow, languages: Language[]): number {
+  const values = languages.map(language => row.attention[language] ?? 0);
+  return Math.max(...values) - Math.min(...values);
+}
+
+/**
+ * Indice de divergence des classements (0 à 1) : distance de variation totale entre les
+ * répartitions d'attention, moyennée sur les paires de wikis. 0 : mêmes lectures dans les
+ * mêmes proportions ; 1 : aucun article en commun.
+ */
+export function divergenceScore(rows: ComparisonRow[], languages: Language[]): number {
+  const distances: number[] = [];
+
+  languages.forEach((a, i) => {
+    languages.slice(i + 1).forEach(b => {
+      distances.push(rows.reduce((sum, row) => sum + Math.abs((row.attention[a] ?? 0) - (row.attention[b] ?? 0)), 0) / 2);
+    });
+  });
+
+  return distances.length > 0 ? distances.reduce((sum, distance) => sum + distance, 0) / distances.length : 0;
+}
+
+/**
+ * Répartit des tendances fusionnées entre celles de plusieurs wikis et celles d'un seul
+ */
+export function splitTrending(merged: Article[], languages: Language[]): TrendingSplit {
+  const split: TrendingSplit = { shared: [], exclusive: Object.fromEntries(languages.map(language => [language, []])) };
+
+  merged.forEach(row => {
+    const trendingIn = languages.filter(language => row.languages?.[language] !== undefined);
+    if (trendingIn.length > 1) {
+      split.shared.push(row);
+    } else if (trendingIn.length === 1) {
+      split.exclusive[trendingIn[0]]?.push(row);
+    }
+  });
+
+  return split;
+}
@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { getPeriodDateRange } from '../api';
+import { loadViewHistory } from '../dataSource';
+import { isAbortError } from '../errors';
+import { summarizeViewHistory } from '../history';
+import { ACCESS_METHODS, accessShares } from '../traffic';
+import { useI18n } from '../hooks/useI18n';
+import { articleTitle, articleUrl } from '../articles';
+import ViewHistoryChart from './ViewHistoryChart';
+import { Agent, Article, Language, Period, ViewHistory } from '../types';
+
+interface ArticleDetailPanelProps {
+  article: Article;
+  language: Language;
+  period: Period;
+  /** Dernier jour de la période consultée (par défaut hier) */
+  endDate?: Date;
+  onClose: () => void;
+}
+
+const HISTORY_RANGES = [30, 90, 365];
+
+// Les robots d'indexation (`spider`) ne sont pas proposés
+const AGENTS: Exclude<Agent, 'spider'>[] = ['user', 'automated', 'all-agents'];
+
+/**
+ * Panneau latéral de détail d'un article : métadonnées, historique et statistiques
+ */
+function ArticleDetailPanel({ article, language, period, endDate, onClose }: ArticleDetailPanelProps) {
+  const { t, formatNumber, formatPercent, formatDate, formatDateTime } = useI18n();
+  const [range, setRange] = useState(30);
+  const [agent, setAgent] = useState<Agent>('user');
+  const [history, setHistory] = useState<ViewHistory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    // Pour une date passée, l'historique s'arrête au jour consulté
+    loadViewHistory(article.article, language, range, endDate, agent, undefined, controller.signal)
+      .then(result => {
+        if (controller.signal.aborted) return;
+        setHistory(result);
+        setLoading(false);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error('Error loading view history:', err);
+        setError(t('detail.historyError'));
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [article.article, language, range, endDate, agent, t]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const title = articleTitle(article);
+  const summary = summarizeViewHistory(history);
+  const metadata = article.metadata;
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black/30" onClick={onClose}>
+      <aside
+        className="w-full max-w-2xl h-full overflow-y-auto bg-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          <div className="flex items-start space-x-4">
+            {metadata?.thumbnail && (
+              <img src={metadata.thumbnail} alt="" className="h-20 w-20 object-cover rounded" />
+            )}
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">{title}</h2>
+              <a
+                href={articleUrl(article, language)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                {t('detail.read')}
+              </a>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label={t('detail.close')}>
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {metadata?.extract && (
+            <p className="text-sm text-gray-700 whitespace-pre-line">{metadata.extract}</p>
+          )}
+
+          {metadata?.categories && metadata.categories.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {metadata.categories.map(category => (
+                <span key={category} className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded">
+                  {category.replace(/^[^:]+:/, '')}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {(article.accessViews || article.agentViews) && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">{t('detail.traffic')}</h3>
+              <div className="flex flex-wrap gap-2 text-xs">
+                {article.accessViews && ACCESS_METHODS.map(access => (
+                  <span key={access} className="px-2 py-1 bg-gray-100 text-gray-700 rounded">
+                    {t(`access.${access}`)} {formatPercent(accessShares(article.accessViews ?? {})[access] ?? 0)}
+                  </span>
+                ))}
+                {article.agentViews && (
+                  <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded">
+                    {t('detail.robotViews', { views: formatNumber(article.agentViews.automated) })}
+                  </span>
+                )}
+              </div>
+              {article.suspicion && article.suspicion.length > 0 && (
+                <ul className="mt-2 text-xs text-amber-800 list-disc list-inside">
+                  {article.suspicion.map(flag => (
+                    <li key={flag}>{t(`suspicion.${flag}`)}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {article.editActivity && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">{t('detail.edits')}</h3>
+              <p className="text-xs text-gray-700">
+                {t('detail.editCount', {
+                  edits: article.editActivity.edits,
+                  editors: article.editActivity.editors,
+                  baseline: formatNumber(article.editActivity.baselineDailyEdits, { maximumFractionDigits: 1 }),
+                })}
+                {article.editActivity.editDriven && (
+                  <span className="ml-2 px-1.5 py-0.5 rounded font-medium bg-indigo-100 text-indigo-700">{t('edits.driven')}</span>
+                )}
+              </p>
+              {article.editActivity.lastEdit && (
+                <p className="mt-1 text-xs text-gray-500">
+                  {t('detail.lastEdit', { date: formatDateTime(new Date(article.editActivity.lastEdit.timestamp)) })}
+                  {article.editActivity.lastEdit.user && ` · ${article.editActivity.lastEdit.user}`}
+                  {article.editActivity.lastEdit.summary && <span className="block italic">{article.editActivity.lastEdit.summary}</span>}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-gray-900">{t('detail.dailyViews')}</h3>
+              <div className="flex space-x-2">
+                <select
+                  value={agent}
+                  onChange={(e) => setAgent(e.target.value as Agent)}
+                  className="rounded border-gray-300 text-xs"
+                >
+                  {AGENTS.map(value => (
+                    <option key={value} value={value}>{t(`agent.${value}`)}</option>
+                  ))}
+                </select>
+                {HISTORY_RANGES.map(days => (
+                  <button
+                    key={days}
+                    onClick={() => setRange(days)}
+                    className={`px-2 py-1 rounded text-xs font-medium ${
+                      range === days
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {t('detail.rangeDays', { days })}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {error ? (
+              <div className="text-red-600 text-sm text-center py-8">{error}</div>
+            ) : loading ? (
+              <div className="flex justify-center items-center h-48">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : (
+              <ViewHistoryChart history={history} highlight={getPeriodDateRange(period, endDate)} />
+            )}
+          </div>
+
+          {!loading && !error && summary.latest && (
+            <dl className="grid grid-cols-3 gap-4">
+              <div className="p-3 bg-gray-50 rounded">
+                <dt className="text-xs text-gray-500">{t('detail.peak')}</dt>
+                <dd className="text-lg font-semibold text-gray-900">{summary.peak && formatNumber(summary.peak.views)}</dd>
+                <dd className="text-xs text-gray-500">{summary.peak && formatDate(summary.peak.date)}</dd>
+              </div>
+              <div className="p-3 bg-gray-50 rounded">
+                <dt className="text-xs text-gray-500">{t('detail.median')}</dt>
+                <dd className="text-lg font-semibold text-gray-900">{formatNumber(Math.round(summary.median))}</dd>
+                <dd className="text-xs text-gray-500">{t('detail.overDays', { count: history.length })}</dd>
+              </div>
+              <div className="p-3 bg-gray-50 rounded">
+                <dt className="text-xs text-gray-500">{t('detail.latestVsAverage')}</dt>
+                <dd className="text-lg font-semibold text-gray-900">{formatNumber(summary.latest.views)}</dd>
+                {summary.latestVsAverage !== null && (
+                  <dd className={`text-xs ${summary.latestVsAverage >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {summary.latestVsAverage >= 0 ? '+' : ''}
+                    {formatNumber(summary.latestVsAverage, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}% ({formatNumber(Math.round(summary.average30))})
+                  </dd>
+                )}
+              </div>
+            </dl>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
+
+export default ArticleDetailPanel;
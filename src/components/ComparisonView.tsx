@@ -0,0 +1,262 @@
+import { useEffect, useState } from 'react';
+import { LanguageComparison, fetchDivergenceByPeriod, fetchLanguageComparison } from '../api';
+import { articleTitle, articleUrl } from '../articles';
+import { DIVERGENCE_HIGHLIGHT } from '../comparison';
+import { isAbortError } from '../errors';
+import { useI18n } from '../hooks/useI18n';
+import { AccessFilter, Article, Language, Period, SwissFilter } from '../types';
+import { LANGUAGES, PERIODS, SWISS_FILTERS, ViewState } from '../urlState';
+
+interface ComparisonViewProps {
+  languages: Language[];
+  period: Period;
+  swissFilter: SwissFilter;
+  access: AccessFilter;
+  endDate?: Date;
+  swissThreshold: number;
+  onChange: (changes: Partial<ViewState>) => void;
+}
+
+const MAX_ROWS = 30;
+const MAX_TRENDING = 10;
+
+/**
+ * Onglet « Comparer » : wikis côte à côte, articles appariés par liens interlangues.
+ * L'attention (part des vues classées de chaque wiki) rend comparables des wikis de tailles différentes.
+ */
+function ComparisonView({ languages, period, swissFilter, access, endDate, swissThreshold, onChange }: ComparisonViewProps) {
+  const { t, formatNumber, formatPercent } = useI18n();
+  const [comparison, setComparison] = useState<LanguageComparison | null>(null);
+  const [scores, setScores] = useState<Partial<Record<Period, number | null>>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Clé stable : le tableau des langues est recréé à chaque lecture de l'URL
+  const languageKey = languages.join(',');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const compared = languageKey.split(',') as Language[];
+    setLoading(true);
+    setError(null);
+
+    fetchLanguageComparison(compared, period, swissFilter, { endDate, access, swissThreshold, signal: controller.signal })
+      .then(result => {
+        if (controller.signal.aborted) return;
+        setComparison(result);
+        setLoading(false);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error('Error loading language comparison:', err);
+        setError(t('compare.error'));
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [languageKey, period, swissFilter, access, endDate, swissThreshold, t]);
+
+  // Indice de chaque période, chargé à part : les périodes longues demandent de nombreux classements
+  useEffect(() => {
+    const controller = new AbortController();
+    setScores({});
+
+    fetchDivergenceByPeriod(languageKey.split(',') as Language[], swissFilter, { endDate, access, swissThreshold, signal: controller.signal })
+      .then(result => {
+        if (!controller.signal.aborted) setScores(result);
+      })
+      .catch(err => {
+        if (!isAbortError(err)) console.error('Error loading divergence scores:', err);
+      });
+
+    return () => controller.abort();
+  }, [languageKey, swissFilter, access, endDate, swissThreshold]);
+
+  const toggleLanguage = (language: Language) => {
+    const next = languages.includes(language)
+      ? languages.filter(code => code !== language)
+      : LANGUAGES.filter(code => code === language || languages.includes(code));
+    if (next.length >= 2) onChange({ compareLanguages: next });
+  };
+
+  const titleLink = (article: Article, language: Language) => (
+    <a
+      href={articleUrl(article, language)}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-blue-600 hover:text-blue-800"
+    >
+      {articleTitle(article)}
+    </a>
+  );
+
+  const localArticle = (titles: Partial<Record<Language, string>>, language: Language): Article | null => {
+    const title = titles[language];
+    return title ? { article: title, views: 0, mainLanguage: language } : null;
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <span className="text-sm text-gray-700">{t('compare.languages')}</span>
+        {LANGUAGES.map(language => (
+          <button
+            key={language}
+            onClick={() => toggleLanguage(language)}
+            title={languages.includes(language) && languages.length <= 2 ? t('compare.minLanguages') : undefined}
+            className={`px-3 py-1.5 rounded-md text-sm font-medium uppercase ${
+              languages.includes(language)
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {language}
+          </button>
+        ))}
+        <div className="flex ml-auto rounded-md border border-gray-200 overflow-hidden">
+          {SWISS_FILTERS.map(value => (
+            <button
+              key={value}
+              onClick={() => onChange({ swissFilter: value })}
+              title={t(`swiss.${value}.description`)}
+              className={`px-3 py-2 text-sm font-medium ${
+                swissFilter === value
+                  ? 'bg-red-600 text-white'
+                  : 'bg-white text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {t(`swiss.${value}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-2">
+        {PERIODS.map(value => {
+          const score = scores[value];
+          return (
+            <button
+              key={value}
+              onClick={() => onChange({ period: value })}
+              className={`px-4 py-2 rounded-md text-left ${
+                period === value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              <span className="block text-sm font-medium">{t(`period.${value}`)}</span>
+              <span className="block text-xs opacity-80">
+                {t('compare.score', { score: score === undefined ? '…' : score === null ? '—' : formatPercent(score) })}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      <p className="mb-4 text-xs text-gray-500">{t('compare.scoreDescription')}</p>
+
+      {error ? (
+        <div className="text-red-600 p-4 text-center">{error}</div>
+      ) : loading || !comparison ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <>
+          <h2 className="text-sm font-semibold text-gray-900 mb-2">{t('compare.attention')}</h2>
+          <div className="overflow-x-auto mb-8">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('table.article')}</th>
+                  {languages.map(language => (
+                    <th key={language} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {language}
+                    </th>
+                  ))}
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('compare.gap')}</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {comparison.rows.slice(0, MAX_ROWS).map(row => {
+                  const article = localArticle(row.localTitles, row.leader);
+                  const highlighted = row.divergence >= DIVERGENCE_HIGHLIGHT;
+                  return (
+                    <tr key={row.key} className={highlighted ? 'bg-amber-50' : undefined}>
+                      <td className="px-6 py-3 text-sm">
+                        {article && titleLink(article, row.leader)}
+                        <span className="ml-2 text-xs text-gray-400">{row.leader}</span>
+                      </td>
+                      {languages.map(language => {
+                        const attention = row.attention[language] ?? 0;
+                        return (
+                          <td
+                            key={language}
+                            title={row.views[language] === undefined ? t('compare.notRanked') : t('compare.views', { views: formatNumber(row.views[language] ?? 0) })}
+                            className="px-6 py-3 text-sm text-gray-700"
+                          >
+                            <span>{formatPercent(attention)}</span>
+                            <span className="block h-1 mt-1 w-24 rounded bg-gray-100">
+                              <span className="block h-1 rounded bg-blue-500" style={{ width: `${Math.min(attention * 10, 1) * 100}%` }} />
+                            </span>
+                          </td>
+                        );
+                      })}
+                      <td className="px-6 py-3 text-sm">
+                        <span className={highlighted ? 'font-medium text-amber-700' : 'text-gray-500'}>
+                          {formatPercent(row.divergence)}
+                        </span>
+                        {highlighted && <span className="ml-2 text-xs text-amber-700">{t('compare.divergent')}</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <h2 className="text-sm font-semibold text-gray-900 mb-2">{t('compare.sharedTrending')}</h2>
+          {comparison.trending.shared.length === 0 ? (
+            <p className="mb-6 text-sm text-gray-500">{t('compare.none')}</p>
+          ) : (
+            <ul className="mb-6 space-y-1 text-sm">
+              {comparison.trending.shared.slice(0, MAX_TRENDING).map(row => (
+                <li key={row.wikidataId ?? row.article}>
+                  {titleLink(row, row.mainLanguage ?? languages[0])}
+                  <span className="ml-2 text-xs text-gray-500">
+                    {languages
+                      .filter(language => row.languages?.[language] !== undefined)
+                      .map(language => `${language} ${formatNumber(row.languages?.[language] ?? 0)}`)
+                      .join(' · ')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <h2 className="text-sm font-semibold text-gray-900 mb-2">{t('compare.exclusiveTrending')}</h2>
+          <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${languages.length}, minmax(0, 1fr))` }}>
+            {languages.map(language => {
+              const rows = comparison.trending.exclusive[language] ?? [];
+              return (
+                <div key={language}>
+                  <h3 className="text-xs font-medium text-gray-500 uppercase mb-1">{language}</h3>
+                  {rows.length === 0 ? (
+                    <p className="text-sm text-gray-500">{t('compare.none')}</p>
+                  ) : (
+                    <ol className="space-y-1 text-sm list-decimal list-inside">
+                      {rows.slice(0, MAX_TRENDING).map(row => (
+                        <li key={row.article}>
+                          {titleLink(row, language)}
+                          <span className="ml-2 text-xs text-gray-500">{formatNumber(row.views)}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ComparisonView;
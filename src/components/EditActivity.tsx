@@ -0,0 +1,37 @@
+import { useI18n } from '../hooks/useI18n';
+import { EditActivity as EditActivityData } from '../types';
+
+interface EditActivityProps {
+  activity?: EditActivityData;
+}
+
+/**
+ * Modifications de la période (cellule du classement des tendances), avec l'indicateur
+ * « porté par les modifications » ; le dernier résumé de modification en infobulle
+ */
+function EditActivity({ activity }: EditActivityProps) {
+  const { t, formatNumber } = useI18n();
+  if (!activity) return null;
+  const { edits, editors, dailyEdits, baselineDailyEdits, lastEdit, editDriven } = activity;
+
+  return (
+    <>
+      <span title={lastEdit?.summary && t('edits.lastSummary', { summary: lastEdit.summary })}>
+        {t('edits.summary', { edits, editors })}
+      </span>
+      {editDriven && (
+        <span
+          title={t('edits.drivenTitle', {
+            daily: formatNumber(dailyEdits, { maximumFractionDigits: 1 }),
+            baseline: formatNumber(baselineDailyEdits, { maximumFractionDigits: 1 }),
+          })}
+          className="ml-2 px-1.5 py-0.5 rounded text-xs font-medium bg-indigo-100 text-indigo-700"
+        >
+          {t('edits.driven')}
+        </span>
+      )}
+    </>
+  );
+}
+
+export default EditActivity;
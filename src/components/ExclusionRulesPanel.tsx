@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Filter } from 'lucide-react';
+import { ExclusionResult, ExclusionRules, RuleExclusionReason, SiteExclusionCounts, SiteExclusionReason, parseRule } from '../exclusions';
+import { useI18n } from '../hooks/useI18n';
+
+interface ExclusionRulesPanelProps {
+  rules: ExclusionRules;
+  excluded: ExclusionResult['excluded'];
+  /** Pages écartées par le wiki (voir `fetchSiteExclusionCounts`) */
+  siteExcluded: SiteExclusionCounts;
+  /** Lignes enrichies, seules à pouvoir être reconnues comme homonymies */
+  analyzedRows: number;
+  totalRows: number;
+  onChange: (rules: ExclusionRules) => void;
+}
+
+const REASONS: RuleExclusionReason[] = ['blocklist', 'disambiguation'];
+const SITE_REASONS: SiteExclusionReason[] = ['namespace', 'mainPage', 'technical'];
+
+/**
+ * Compteur des lignes masquées par motif et éditeur des règles d'exclusion
+ */
+function ExclusionRulesPanel({ rules, excluded, siteExcluded, analyzedRows, totalRows, onChange }: ExclusionRulesPanelProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const total = REASONS.reduce((sum, reason) => sum + (excluded[reason] ?? 0), 0);
+  const siteTotal = SITE_REASONS.reduce((sum, reason) => sum + (siteExcluded[reason] ?? 0), 0);
+  const invalid = [...rules.blocklist, ...rules.allowlist].filter(entry => entry.trim() && !parseRule(entry));
+
+  const listEditor = (list: 'blocklist' | 'allowlist') => (
+    <label className="block">
+      <span className="block mb-1 font-medium text-gray-700">{t(`exclusions.${list}`)}</span>
+      <textarea
+        value={rules[list].join('\n')}
+        onChange={(e) => onChange({ ...rules, [list]: e.target.value.split('\n') })}
+        rows={4}
+        spellCheck={false}
+        className="w-full rounded-md border-gray-300 font-mono text-xs"
+      />
+    </label>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="flex items-center space-x-1 text-gray-500 hover:text-gray-700"
+      >
+        <Filter className="h-3 w-3" />
+        <span>
+          {t('exclusions.summary', { count: total })}
+          {total > 0 && ` (${REASONS
+            .filter(reason => excluded[reason])
+            .map(reason => t(
+              reason === 'disambiguation' && analyzedRows < totalRows ? 'exclusions.reason.disambiguationPartial' : `exclusions.reason.${reason}`,
+              { count: excluded[reason] ?? 0, analyzed: analyzedRows }
+            ))
+            .join(', ')})`}
+          {siteTotal > 0 && ` · ${t('exclusions.siteSummary', { count: siteTotal })}`}
+        </span>
+      </button>
+      {open && (
+        <div className="absolute left-0 z-10 mt-2 w-96 space-y-3 rounded-md border border-gray-200 bg-white p-4 text-xs shadow-lg">
+          <p className="text-gray-500">{t('exclusions.help')}</p>
+          {listEditor('blocklist')}
+          {listEditor('allowlist')}
+          {invalid.length > 0 && (
+            <p className="text-red-600">{t('exclusions.invalid', { entries: invalid.join(', ') })}</p>
+          )}
+          <label className="flex items-center space-x-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={rules.hideDisambiguation}
+              onChange={(e) => onChange({ ...rules, hideDisambiguation: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            <span>{t('exclusions.hideDisambiguation')}</span>
+          </label>
+          <p className="text-gray-500">
+            {t('exclusions.site')}
+            {siteTotal > 0 && ` ${t('exclusions.siteCounts', {
+              reasons: SITE_REASONS
+                .filter(reason => siteExcluded[reason])
+                .map(reason => t(`exclusions.siteReason.${reason}`, { count: siteExcluded[reason] ?? 0 }))
+                .join(', ')
+            })}`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExclusionRulesPanel;
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { Download, Rss } from 'lucide-react';
+import { BACKEND_URL } from '../dataSource';
+import { EXPORT_FORMATS, ExportContext, ExportFormat, buildExportUrl, serializeArticles } from '../export';
+import { useI18n } from '../hooks/useI18n';
+import { Article } from '../types';
+
+interface ExportMenuProps {
+  articles: Article[];
+  /** Rangs du classement affiché, par `rowKey` */
+  ranks: Map<string, number>;
+  context: Omit<ExportContext, 'generatedAt'>;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  md: 'Markdown',
+  rss: 'RSS',
+  atom: 'Atom',
+};
+
+/**
+ * Menu d'export de la vue courante (téléchargement ou URL d'abonnement)
+ */
+function ExportMenu({ articles, ranks, context }: ExportMenuProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [copied, setCopied] = useState<ExportFormat | null>(null);
+
+  const download = (format: ExportFormat) => {
+    const file = serializeArticles(articles, { ...context, generatedAt: new Date() }, format, buildExportUrl(BACKEND_URL || window.location.origin, format, context), ranks);
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.filename;
+    link.click();
+    // Révoquée après le démarrage du téléchargement, que certains navigateurs interrompraient sinon
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    setOpen(false);
+  };
+
+  const copyFeedUrl = async (format: ExportFormat) => {
+    await navigator.clipboard.writeText(buildExportUrl(BACKEND_URL || window.location.origin, format, context));
+    setCopied(format);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={articles.length === 0}
+        className="flex items-center px-3 py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+      >
+        <Download className="h-4 w-4 mr-2" />
+        {t('export.button')}
+      </button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-56 rounded-md bg-white shadow-lg border border-gray-200 py-1">
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format}
+              onClick={() => download(format)}
+              className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              {t('export.download', { format: FORMAT_LABELS[format] })}
+            </button>
+          ))}
+          <div className="border-t border-gray-100 my-1" />
+          {(['rss', 'atom'] as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => copyFeedUrl(format)}
+              className="flex items-center w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              <Rss className="h-4 w-4 mr-2 text-orange-500" />
+              {copied === format ? t('export.copied') : t('export.copyFeed', { format: FORMAT_LABELS[format] })}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExportMenu;
@@ -0,0 +1,31 @@
+import { ChartMovement } from '../chart';
+import { useI18n } from '../hooks/useI18n';
+
+interface MovementIndicatorProps {
+  movement?: ChartMovement;
+}
+
+/**
+ * Évolution du rang depuis la période précédente (▲3, ▼5, =, NEW, RE-ENTRY)
+ */
+function MovementIndicator({ movement }: MovementIndicatorProps) {
+  const { t } = useI18n();
+  if (!movement) return null;
+
+  const { status, delta, previousRank } = movement;
+  const [label, className, title] = {
+    up: [`▲${delta}`, 'text-green-600', t('movement.previousRank', { rank: previousRank ?? '' })],
+    down: [`▼${-delta}`, 'text-red-600', t('movement.previousRank', { rank: previousRank ?? '' })],
+    same: ['=', 'text-gray-400', t('movement.same')],
+    new: ['NEW', 'text-blue-600', t('movement.new')],
+    're-entry': ['RE-ENTRY', 'text-purple-600', t('movement.re-entry')],
+  }[status];
+
+  return (
+    <span title={title} className={`ml-2 text-xs font-semibold ${className}`}>
+      {label}
+    </span>
+  );
+}
+
+export default MovementIndicator;
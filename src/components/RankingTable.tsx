@@ -0,0 +1,250 @@
+import { useEffect } from 'react';
+import { ArrowDown, ArrowUp, Info, Star } from 'lucide-react';
+import { articleLanguage, articleTitle, articleUrl } from '../articles';
+import { CHART_LOOKBACK_DAYS, ChartMovement, chartKey } from '../chart';
+import { useI18n } from '../hooks/useI18n';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { MessageKey } from '../i18n';
+import { RankingSort, RankingSortKey, rowKey } from '../ranking';
+import { ACCESS_METHODS, SUSPICION_THRESHOLDS, accessShares, automatedShare } from '../traffic';
+import { Article, Language, LanguageSelection, RankingTab } from '../types';
+import EditActivity from './EditActivity';
+import MovementIndicator from './MovementIndicator';
+import SuspicionBadge from './SuspicionBadge';
+import SwissRelevanceBadge from './SwissRelevanceBadge';
+import TopicChip from './TopicChip';
+
+interface RankingTableProps {
+  articles: Article[];
+  /** Rang de chaque ligne (par `rowKey`) dans le classement filtré, avant recherche et tri */
+  ranks: Map<string, number>;
+  tab: RankingTab;
+  language: LanguageSelection;
+  movements: Map<string, ChartMovement>;
+  sort: RankingSort;
+  onSortChange: (sort: RankingSort) => void;
+  onSelect: (article: Article) => void;
+  isWatched: (article: string, language: Language) => boolean;
+  onToggleWatch: (article: string, language: Language) => void;
+  /** Lignes rendues, pour leur enrichissement à l'affichage */
+  onVisibleRowsChange: (articles: Article[]) => void;
+}
+
+// Hauteur fixe des lignes : vues, répartition par langue et par accès sur trois lignes au plus
+const ROW_HEIGHT = 72;
+
+const reliabilityClasses: Record<NonNullable<Article['reliability']>, string> = {
+  high: 'bg-green-100 text-green-700',
+  medium: 'bg-yellow-100 text-yellow-700',
+  low: 'bg-gray-100 text-gray-600',
+};
+
+// Au-delà de la fenêtre examinée, l'ancienneté n'est connue qu'en minimum
+const formatDaysInChart = (movement?: ChartMovement) => {
+  if (!movement) return '';
+  return movement.daysInChart >= CHART_LOOKBACK_DAYS ? `${CHART_LOOKBACK_DAYS}+` : String(movement.daysInChart);
+};
+
+const headerClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-gray-50';
+
+/**
+ * Classement complet : en-têtes triables, seules les lignes visibles sont rendues
+ */
+function RankingTable({
+  articles,
+  ranks,
+  tab,
+  language,
+  movements,
+  sort,
+  onSortChange,
+  onSelect,
+  isWatched,
+  onToggleWatch,
+  onVisibleRowsChange,
+}: RankingTableProps) {
+  const { t, formatNumber, formatPercent } = useI18n();
+  const { containerRef, onScroll, scrollToTop, start, end, paddingTop, paddingBottom } = useVirtualRows(articles.length, ROW_HEIGHT);
+  const rows = articles.slice(start, end);
+
+  useEffect(() => {
+    onVisibleRowsChange(articles.slice(start, end));
+  }, [articles, start, end, onVisibleRowsChange]);
+
+  const columnCount = tab === 'trending' ? 8 : 6;
+
+  // `description` : explication affichée au survol de l'en-tête
+  const sortHeader = (key: RankingSortKey, label: MessageKey, description?: MessageKey) => {
+    const active = sort.key === key;
+    // Premier clic : rang croissant, valeurs décroissantes ; clic suivant : sens inverse
+    const initial = key === 'rank' ? 'asc' : 'desc';
+    const next: RankingSort = { key, direction: active ? (sort.direction === 'asc' ? 'desc' : 'asc') : initial };
+    const Arrow = sort.direction === 'asc' ? ArrowUp : ArrowDown;
+
+    return (
+      <th
+        className={headerClass}
+        title={description && t(description)}
+        aria-sort={active ? (sort.direction === 'asc' ? 'ascending' : 'descending') : undefined}
+      >
+        <button
+          onClick={() => {
+            onSortChange(next);
+            scrollToTop();
+          }}
+          title={t('table.sort', { column: t(label) })}
+          className={`inline-flex items-center uppercase tracking-wider ${active ? 'text-gray-900' : 'hover:text-gray-700'}`}
+        >
+          {t(label)}
+          {description && <Info className="h-3 w-3 ml-1" />}
+          {active && <Arrow className="h-3 w-3 ml-1" />}
+        </button>
+      </th>
+    );
+  };
+
+  return (
+    <div ref={containerRef} onScroll={onScroll} className="overflow-auto max-h-[70vh]">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="sticky top-0 z-10">
+          <tr>
+            {sortHeader('rank', 'table.rank')}
+            <th className={headerClass}>{t('table.article')}</th>
+            {sortHeader('views', 'table.views')}
+            {sortHeader('automatedShare', 'table.automatedShare', 'table.automatedShareDescription')}
+            {tab === 'trending' && (
+              <>
+                {sortHeader('growth', 'table.growth')}
+                {sortHeader('growthPercentage', 'table.growthPercentage')}
+                {sortHeader('reliability', 'table.reliability')}
+                <th className={headerClass}>{t('table.edits')}</th>
+              </>
+            )}
+            {tab === 'mostViewed' && (
+              <>
+                <th className={headerClass}>{t('table.daysInChart')}</th>
+                <th className={headerClass}>{t('table.peakRank')}</th>
+              </>
+            )}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {paddingTop > 0 && <tr style={{ height: paddingTop }}><td colSpan={columnCount} /></tr>}
+          {rows.map(item => {
+            const itemLanguage = articleLanguage(item, language);
+            const movement = movements.get(chartKey(item));
+            const automated = automatedShare(item);
+
+            return (
+              <tr
+                key={rowKey(item)}
+                onClick={() => onSelect(item)}
+                style={{ height: ROW_HEIGHT }}
+                className="hover:bg-gray-50 cursor-pointer"
+              >
+                <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                  {ranks.get(rowKey(item))}
+                  {tab === 'mostViewed' && <MovementIndicator movement={movement} />}
+                </td>
+                <td className="px-6 py-2 whitespace-nowrap">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onToggleWatch(item.article, itemLanguage);
+                    }}
+                    className="mr-2 align-text-bottom"
+                    aria-label={t('table.watch')}
+                  >
+                    <Star
+                      className={`h-4 w-4 ${
+                        isWatched(item.article, itemLanguage)
+                          ? 'fill-yellow-400 text-yellow-500'
+                          : 'text-gray-300 hover:text-yellow-500'
+                      }`}
+                    />
+                  </button>
+                  <a
+                    href={articleUrl(item, language)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={(e) => e.stopPropagation()}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    {articleTitle(item)}
+                  </a>
+                  <SwissRelevanceBadge score={item.swissScore} signals={item.swissSignals} />
+                  <TopicChip topic={item.topic} />
+                  <SuspicionBadge flags={item.suspicion} />
+                </td>
+                <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                  {formatNumber(item.views)}
+                  {item.languages && (
+                    <div className="text-xs text-gray-400">
+                      {Object.entries(item.languages)
+                        .sort(([, a], [, b]) => b - a)
+                        .map(([code, views]) => `${code} ${formatNumber(views)}`)
+                        .join(' · ')}
+                    </div>
+                  )}
+                  {item.accessViews && (
+                    <div className="text-xs text-gray-400">
+                      {ACCESS_METHODS
+                        .map(method => `${t(`access.${method}`)} ${formatPercent(accessShares(item.accessViews ?? {})[method] ?? 0)}`)
+                        .join(' · ')}
+                    </div>
+                  )}
+                </td>
+                <td className={`px-6 py-2 whitespace-nowrap text-sm ${
+                  automated !== undefined && automated >= SUSPICION_THRESHOLDS.automatedShare ? 'text-red-600' : 'text-gray-500'
+                }`}>
+                  {automated !== undefined && formatPercent(automated)}
+                </td>
+                {tab === 'trending' && (
+                  <>
+                    <td className={`px-6 py-2 whitespace-nowrap text-sm ${item.growth && item.growth > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {item.growth && item.growth > 0 ? '+' : ''}
+                      {item.growth !== undefined && formatNumber(item.growth)}
+                    </td>
+                    <td className={`px-6 py-2 whitespace-nowrap text-sm ${item.growth && item.growth > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {item.growthPercentage !== undefined && `${formatNumber(item.growthPercentage, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}%`}
+                    </td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm">
+                      {item.reliability && (
+                        <span
+                          title={t('table.trendDetails', {
+                            score: formatNumber(item.trendScore ?? 0, { maximumFractionDigits: 1 }),
+                            expected: formatNumber(item.previousViews ?? 0),
+                          })}
+                          className={`px-2 py-0.5 rounded-full text-xs ${reliabilityClasses[item.reliability]}`}
+                        >
+                          {t(`reliability.${item.reliability}`)}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                      <EditActivity activity={item.editActivity} />
+                    </td>
+                  </>
+                )}
+                {tab === 'mostViewed' && (
+                  <>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {formatDaysInChart(movement)}
+                    </td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {movement?.peakRank ?? ''}
+                    </td>
+                  </>
+                )}
+              </tr>
+            );
+          })}
+          {paddingBottom > 0 && <tr style={{ height: paddingBottom }}><td colSpan={columnCount} /></tr>}
+        </tbody>
+      </table>
+      {articles.length === 0 && <p className="p-4 text-center text-sm text-gray-500">{t('table.noMatch')}</p>}
+    </div>
+  );
+}
+
+export default RankingTable;
@@ -0,0 +1,28 @@
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Mini-courbe SVG sans axes, pour donner la tendance d'une série en un coup d'œil
+ */
+function Sparkline({ values, width = 120, height = 28 }: SparklineProps) {
+  if (values.length < 2) {
+    return <svg width={width} height={height} aria-hidden="true" />;
+  }
+
+  const max = Math.max(...values, 1);
+  const step = width / (values.length - 1);
+  const points = values
+    .map((value, index) => `${(index * step).toFixed(1)},${(height - 2 - (value / max) * (height - 4)).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} aria-hidden="true">
+      <polyline points={points} fill="none" strokeWidth="1.5" className="stroke-blue-600" />
+    </svg>
+  );
+}
+
+export default Sparkline;
@@ -0,0 +1,25 @@
+import { useI18n } from '../hooks/useI18n';
+import { SuspicionFlag } from '../types';
+
+interface SuspicionBadgeProps {
+  flags?: SuspicionFlag[];
+}
+
+/**
+ * Badge signalant un trafic probablement artificiel (masqué si rien de suspect)
+ */
+function SuspicionBadge({ flags = [] }: SuspicionBadgeProps) {
+  const { t } = useI18n();
+  if (flags.length === 0) return null;
+
+  return (
+    <span
+      title={t('suspicion.title', { flags: flags.map(flag => t(`suspicion.${flag}`)).join(', ') })}
+      className="ml-2 px-1.5 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800"
+    >
+      {t('suspicion.badge')}
+    </span>
+  );
+}
+
+export default SuspicionBadge;
@@ -0,0 +1,32 @@
+import { useI18n } from '../hooks/useI18n';
+import { SwissSignal } from '../types';
+
+interface SwissRelevanceBadgeProps {
+  score?: number;
+  signals?: SwissSignal[];
+}
+
+/**
+ * Badge de pertinence suisse (masqué lorsque le score est nul ou inconnu)
+ */
+function SwissRelevanceBadge({ score, signals = [] }: SwissRelevanceBadgeProps) {
+  const { t, formatPercent } = useI18n();
+  if (!score) return null;
+
+  const className = score >= 0.9
+    ? 'bg-red-600 text-white'
+    : score >= 0.5
+      ? 'bg-red-100 text-red-700'
+      : 'bg-gray-100 text-gray-600';
+
+  return (
+    <span
+      title={t('swiss.badge', { signals: signals.map(signal => t(`swiss.signal.${signal}`)).join(', ') })}
+      className={`ml-2 px-1.5 py-0.5 rounded text-xs font-medium ${className}`}
+    >
+      CH {formatPercent(score)}
+    </span>
+  );
+}
+
+export default SwissRelevanceBadge;
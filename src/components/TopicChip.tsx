@@ -0,0 +1,33 @@
+import { useI18n } from '../hooks/useI18n';
+import { Topic } from '../types';
+
+interface TopicChipProps {
+  topic?: Topic;
+}
+
+const TOPIC_CLASSES: Record<Topic, string> = {
+  politics: 'bg-indigo-100 text-indigo-700',
+  sport: 'bg-green-100 text-green-700',
+  culture: 'bg-pink-100 text-pink-700',
+  science: 'bg-cyan-100 text-cyan-700',
+  people: 'bg-orange-100 text-orange-700',
+  places: 'bg-teal-100 text-teal-700',
+  companies: 'bg-slate-200 text-slate-700',
+  deaths: 'bg-gray-800 text-white'
+};
+
+/**
+ * Pastille du thème d'un article (masquée si aucun thème n'a été reconnu)
+ */
+function TopicChip({ topic }: TopicChipProps) {
+  const { t } = useI18n();
+  if (!topic) return null;
+
+  return (
+    <span className={`ml-2 px-1.5 py-0.5 rounded text-xs font-medium ${TOPIC_CLASSES[topic]}`}>
+      {t(`topic.${topic}`)}
+    </span>
+  );
+}
+
+export default TopicChip;
@@ -0,0 +1,51 @@
+import { useI18n } from '../hooks/useI18n';
+import { TopicFacet, TopicShare } from '../topics';
+
+interface TopicFacetsProps {
+  shares: TopicShare[];
+  selected: TopicFacet | null;
+  /** Lignes du classement, dont seules les enrichies ont un thème connu */
+  totalRows: number;
+  onSelect: (topic: TopicFacet | null) => void;
+}
+
+/**
+ * Facettes par thème : nombre d'articles, part des vues de la période et filtre sur un thème,
+ * d'après les lignes enrichies (les suivantes le sont au défilement)
+ */
+function TopicFacets({ shares, selected, totalRows, onSelect }: TopicFacetsProps) {
+  const { t, formatNumber, formatPercent } = useI18n();
+  if (shares.length === 0) return null;
+  const total = shares.reduce((sum, { count }) => sum + count, 0);
+
+  const buttonClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-md text-xs font-medium text-left ${
+      active ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+    }`;
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-4">
+      <button onClick={() => onSelect(null)} className={buttonClass(selected === null)}>
+        {t('topic.all', { count: total })}
+      </button>
+      {shares.map(({ topic, count, views, share }) => (
+        <button
+          key={topic}
+          onClick={() => onSelect(selected === topic ? null : topic)}
+          title={t('topic.views', { views: formatNumber(views) })}
+          className={buttonClass(selected === topic)}
+        >
+          <span>{t('topic.facet', { topic: t(`topic.${topic}`), count, share: formatPercent(share) })}</span>
+          <span className="block h-1 mt-1 rounded bg-black/10">
+            <span className="block h-1 rounded bg-current opacity-60" style={{ width: `${share * 100}%` }} />
+          </span>
+        </button>
+      ))}
+      {total < totalRows && (
+        <p className="w-full text-xs text-gray-500">{t('topic.partial', { count: total, total: totalRows })}</p>
+      )}
+    </div>
+  );
+}
+
+export default TopicFacets;
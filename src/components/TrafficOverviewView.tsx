@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+import { SWISS_NATIONAL_LANGUAGES, fetchTrafficOverview } from '../api';
+import { isAbortError } from '../errors';
+import { useI18n } from '../hooks/useI18n';
+import { TrafficOverview } from '../overview';
+import { AccessFilter, Language, LanguageSelection, Period } from '../types';
+import { PERIODS, ViewState } from '../urlState';
+import ViewHistoryChart from './ViewHistoryChart';
+
+interface TrafficOverviewViewProps {
+  language: LanguageSelection;
+  period: Period;
+  access: AccessFilter;
+  endDate?: Date;
+  swissThreshold: number;
+  onChange: (changes: Partial<ViewState>) => void;
+}
+
+// Lundi 5 janvier 2026 : sert à nommer les jours de la semaine dans la langue de l'interface
+const FIRST_MONDAY = new Date(2026, 0, 5);
+
+/**
+ * Onglet « Trafic » : vues totales d'un wiki, part captée par le haut du classement et
+ * profils hebdomadaire et saisonnier. « Toute la Suisse » se lit wiki par wiki.
+ */
+function TrafficOverviewView({ language, period, access, endDate, swissThreshold, onChange }: TrafficOverviewViewProps) {
+  const { t, formatNumber, formatPercent, formatDate } = useI18n();
+  const [nationalWiki, setNationalWiki] = useState<Language>('de');
+  const wiki = language === 'ch' ? nationalWiki : language;
+  const [overview, setOverview] = useState<TrafficOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    fetchTrafficOverview(wiki, period, { endDate, access, swissThreshold, signal: controller.signal })
+      .then(result => {
+        if (controller.signal.aborted) return;
+        setOverview(result);
+        setLoading(false);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error('Error loading traffic overview:', err);
+        setError(t('traffic.error'));
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [wiki, period, access, endDate, swissThreshold, t]);
+
+  const bar = (ratio: number, max: number) => (
+    <span className="block h-2 rounded bg-gray-100">
+      <span className="block h-2 rounded bg-blue-500" style={{ width: `${max > 0 ? (ratio / max) * 100 : 0}%` }} />
+    </span>
+  );
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {PERIODS.map(value => (
+          <button
+            key={value}
+            onClick={() => onChange({ period: value })}
+            className={`px-4 py-2 rounded-md text-sm font-medium ${
+              period === value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {t(`period.${value}`)}
+          </button>
+        ))}
+        {language === 'ch' && (
+          <label className="flex items-center ml-auto space-x-2 text-sm text-gray-700">
+            <span>{t('traffic.wiki')}</span>
+            <select
+              value={nationalWiki}
+              onChange={(e) => setNationalWiki(e.target.value as Language)}
+              className="rounded-md border-gray-300 text-sm"
+            >
+              {SWISS_NATIONAL_LANGUAGES.map(code => (
+                <option key={code} value={code}>{code}.wikipedia</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {error ? (
+        <div className="text-red-600 p-4 text-center">{error}</div>
+      ) : loading || !overview ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+            <div className="rounded-md bg-gray-50 px-4 py-3">
+              <span className="block text-xs text-gray-500">
+                {t('traffic.periodViews', { start: formatDate(overview.range.start), end: formatDate(overview.range.end) })}
+              </span>
+              <span className="block text-2xl font-semibold text-gray-900">{formatNumber(overview.periodViews)}</span>
+            </div>
+            <div className="rounded-md bg-gray-50 px-4 py-3" title={t('traffic.topShareDescription')}>
+              <span className="block text-xs text-gray-500">{t('traffic.topShare')}</span>
+              <span className="block text-2xl font-semibold text-gray-900">{formatPercent(overview.topShare)}</span>
+            </div>
+            <div className="rounded-md bg-gray-50 px-4 py-3" title={t('traffic.swissShareDescription')}>
+              <span className="block text-xs text-gray-500">{t('traffic.swissShare')}</span>
+              <span className="block text-2xl font-semibold text-red-700">{formatPercent(overview.swissShare)}</span>
+            </div>
+          </div>
+
+          <h2 className="text-sm font-semibold text-gray-900 mb-2">{t('traffic.daily', { wiki: `${overview.language}.wikipedia` })}</h2>
+          <div className="mb-6">
+            <ViewHistoryChart history={overview.totals} highlight={overview.range} />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <div>
+              <h2 className="text-sm font-semibold text-gray-900 mb-2">{t('traffic.weekdays')}</h2>
+              <ul className="space-y-1">
+                {overview.weekdays.map((ratio, index) => {
+                  const day = new Date(FIRST_MONDAY.getFullYear(), FIRST_MONDAY.getMonth(), FIRST_MONDAY.getDate() + index);
+                  return (
+                    <li key={index} className="grid grid-cols-[6rem_1fr_4rem] items-center gap-2 text-sm text-gray-700">
+                      <span>{formatDate(day, { weekday: 'long' })}</span>
+                      {bar(ratio, Math.max(...overview.weekdays))}
+                      <span className="text-right text-xs text-gray-500">{formatPercent(ratio)}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+            <div>
+              <h2 className="text-sm font-semibold text-gray-900 mb-2">{t('traffic.months')}</h2>
+              <ul className="space-y-1">
+                {overview.months.map(({ month, average, ratio }) => (
+                  <li
+                    key={month}
+                    title={t('traffic.monthAverage', { views: formatNumber(Math.round(average)) })}
+                    className="grid grid-cols-[6rem_1fr_4rem] items-center gap-2 text-sm text-gray-700"
+                  >
+                    <span>{formatDate(`${month}-01`, { month: 'short', year: 'numeric' })}</span>
+                    {bar(ratio, Math.max(...overview.months.map(value => value.ratio)))}
+                    <span className="text-right text-xs text-gray-500">{formatPercent(ratio)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+          <p className="mt-4 text-xs text-gray-500">{t('traffic.patternDescription')}</p>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default TrafficOverviewView;
@@ -0,0 +1,93 @@
+import { format } from 'date-fns';
+import { useI18n } from '../hooks/useI18n';
+import { ViewHistory } from '../types';
+
+interface ViewHistoryChartProps {
+  history: ViewHistory[];
+  /** Période actuellement sélectionnée, mise en évidence sur le graphique */
+  highlight?: { start: Date; end: Date };
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 48 };
+
+/**
+ * Graphique linéaire SVG des vues quotidiennes
+ */
+function ViewHistoryChart({ history, highlight }: ViewHistoryChartProps) {
+  const { t, formatNumber, formatDate } = useI18n();
+  if (history.length === 0) {
+    return <div className="text-sm text-gray-500 text-center py-8">{t('chart.noData')}</div>;
+  }
+
+  const innerWidth = WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const maxViews = Math.max(...history.map(day => day.views), 1);
+  const step = history.length > 1 ? innerWidth / (history.length - 1) : 0;
+
+  const x = (index: number) => PADDING.left + index * step;
+  const y = (views: number) => PADDING.top + innerHeight - (views / maxViews) * innerHeight;
+
+  const points = history.map((day, index) => `${x(index)},${y(day.views)}`).join(' ');
+
+  // Indices couverts par la période sélectionnée
+  let highlightRect: { x: number; width: number } | null = null;
+  if (highlight) {
+    const start = format(highlight.start, 'yyyy-MM-dd');
+    const end = format(highlight.end, 'yyyy-MM-dd');
+    const first = history.findIndex(day => day.date >= start);
+    let last = -1;
+    history.forEach((day, index) => {
+      if (day.date <= end) last = index;
+    });
+    if (first !== -1 && last >= first) {
+      const left = Math.max(x(first) - step / 2, PADDING.left);
+      const right = Math.min(x(last) + step / 2, WIDTH - PADDING.right);
+      highlightRect = { x: left, width: Math.max(right - left, 2) };
+    }
+  }
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={t('chart.label')}>
+      {highlightRect && (
+        <rect
+          x={highlightRect.x}
+          y={PADDING.top}
+          width={highlightRect.width}
+          height={innerHeight}
+          className="fill-blue-100"
+        >
+          <title>{t('chart.selectedPeriod')}</title>
+        </rect>
+      )}
+      <line
+        x1={PADDING.left}
+        y1={PADDING.top + innerHeight}
+        x2={WIDTH - PADDING.right}
+        y2={PADDING.top + innerHeight}
+        className="stroke-gray-300"
+      />
+      <text x={PADDING.left - 6} y={PADDING.top + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+        {formatNumber(maxViews)}
+      </text>
+      <text x={PADDING.left - 6} y={PADDING.top + innerHeight} textAnchor="end" className="fill-gray-500 text-[10px]">
+        0
+      </text>
+      <polyline points={points} fill="none" className="stroke-blue-600" strokeWidth={1.5} />
+      {history.map((day, index) => (
+        <circle key={day.date} cx={x(index)} cy={y(day.views)} r={history.length > 90 ? 0 : 2} className="fill-blue-600">
+          <title>{t('chart.point', { date: formatDate(day.date), views: formatNumber(day.views) })}</title>
+        </circle>
+      ))}
+      <text x={PADDING.left} y={HEIGHT - 6} className="fill-gray-500 text-[10px]">
+        {formatDate(history[0].date)}
+      </text>
+      <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" className="fill-gray-500 text-[10px]">
+        {formatDate(history[history.length - 1].date)}
+      </text>
+    </svg>
+  );
+}
+
+export default ViewHistoryChart;
@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { Bell, Trash2 } from 'lucide-react';
+import { fetchDailyRanks, getLatestAvailableDate } from '../api';
+import { loadViewHistory } from '../dataSource';
+import { isAbortError } from '../errors';
+import { articleTitle, articleUrl } from '../articles';
+import { useI18n } from '../hooks/useI18n';
+import { Article, Language, ViewHistory } from '../types';
+import { WatchedArticle, WatchlistSettings, detectSpike, watchKey } from '../watchlist';
+import Sparkline from './Sparkline';
+
+interface WatchlistViewProps {
+  items: WatchedArticle[];
+  settings: WatchlistSettings;
+  onSettingsChange: (settings: WatchlistSettings) => void;
+  onRemove: (article: string, language: Language) => void;
+  onSelect: (article: Article) => void;
+}
+
+const SPARKLINE_DAYS = 30;
+const ALERT_MULTIPLES = [2, 3, 5, 10];
+
+/**
+ * Onglet « Suivis » : vues récentes, tendance et rang du jour de chaque article suivi
+ */
+function WatchlistView({ items, settings, onSettingsChange, onRemove, onSelect }: WatchlistViewProps) {
+  const { t, formatNumber } = useI18n();
+  const [histories, setHistories] = useState<Record<string, ViewHistory[] | null>>({});
+  const [ranks, setRanks] = useState<Partial<Record<Language, Map<string, number>>>>({});
+  const [permission, setPermission] = useState(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    const latestDate = getLatestAvailableDate();
+
+    items.forEach(item => {
+      loadViewHistory(item.article, item.language, SPARKLINE_DAYS, latestDate, undefined, undefined, signal)
+        .then(history => {
+          if (!signal.aborted) setHistories(current => ({ ...current, [watchKey(item)]: history }));
+        })
+        .catch(error => {
+          if (isAbortError(error)) return;
+          console.error(`Error loading watchlist history for ${item.article}:`, error);
+          setHistories(current => ({ ...current, [watchKey(item)]: null }));
+        });
+    });
+
+    [...new Set(items.map(item => item.language))].forEach(language => {
+      fetchDailyRanks(language, latestDate, signal)
+        .then(result => {
+          if (!signal.aborted) setRanks(current => ({ ...current, [language]: result }));
+        })
+        .catch(error => {
+          if (!isAbortError(error)) console.error(`Error loading daily ranking for ${language}:`, error);
+        });
+    });
+
+    return () => controller.abort();
+  }, [items]);
+
+  const requestPermission = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  if (items.length === 0) {
+    return (
+      <div className="text-sm text-gray-500 text-center py-16">
+        {t('watchlist.empty')}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-700">
+        <label className="flex items-center space-x-2">
+          <span>{t('watchlist.alertAbove')}</span>
+          <select
+            value={settings.alertMultiple}
+            onChange={(e) => onSettingsChange({ ...settings, alertMultiple: Number(e.target.value) })}
+            className="rounded-md border-gray-300 text-sm"
+          >
+            {ALERT_MULTIPLES.map(value => (
+              <option key={value} value={value}>{t('watchlist.multiple', { value })}</option>
+            ))}
+          </select>
+        </label>
+        {permission === 'default' && (
+          <button
+            onClick={requestPermission}
+            className="flex items-center px-3 py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+          >
+            <Bell className="h-4 w-4 mr-2" />
+            {t('watchlist.enableNotifications')}
+          </button>
+        )}
+        {permission === 'denied' && (
+          <span className="text-xs text-gray-500">{t('watchlist.notificationsBlocked')}</span>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('table.article')}</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('watchlist.latestViews')}</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('watchlist.days', { days: SPARKLINE_DAYS })}</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('watchlist.dailyRank')}</th>
+              <th className="px-6 py-3" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {items.map(item => {
+              const key = watchKey(item);
+              const history = histories[key];
+              const latest = history?.[history.length - 1];
+              const spike = history ? detectSpike(history, settings.alertMultiple) : null;
+              const rank = ranks[item.language]?.get(item.article);
+              const article: Article = { article: item.article, views: latest?.views ?? 0, mainLanguage: item.language };
+
+              return (
+                <tr key={key} onClick={() => onSelect(article)} className="hover:bg-gray-50 cursor-pointer">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <a
+                      href={articleUrl(article, item.language)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={(e) => e.stopPropagation()}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      {articleTitle(article)}
+                    </a>
+                    <span className="ml-2 text-xs text-gray-400">{item.language}</span>
+                    {spike && (
+                      <span
+                        title={t('watchlist.baseline', { views: formatNumber(Math.round(spike.baseline)) })}
+                        className="ml-2 px-1.5 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-700"
+                      >
+                        × {formatNumber(spike.ratio, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {history === null ? t('watchlist.unavailable') : latest ? formatNumber(latest.views) : '…'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <Sparkline values={(history ?? []).map(day => day.views)} />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {rank ? `#${rank}` : '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onRemove(item.article, item.language);
+                      }}
+                      className="text-gray-400 hover:text-red-600"
+                      aria-label={t('watchlist.unwatch')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default WatchlistView;
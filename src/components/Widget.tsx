@@ -0,0 +1,113 @@
+import { useEffect, useMemo, useState } from 'react';
+import { articleTitle, articleUrl } from '../articles';
+import { loadRanking } from '../dataSource';
+import { isAbortError } from '../errors';
+import { I18nContext } from '../hooks/useI18n';
+import { createI18n, resolveUiLanguage } from '../i18n';
+import { rowKey } from '../ranking';
+import { isSuspicious } from '../traffic';
+import { Article } from '../types';
+import { DEFAULT_VIEW_STATE, serializeViewState } from '../urlState';
+import { WidgetConfig } from '../widget';
+
+interface WidgetProps {
+  config: WidgetConfig;
+}
+
+/**
+ * Widget intégrable (`widget.html`) : les premières lignes d'un classement, rafraîchies
+ * régulièrement. Styles propres (`widget.css`), sans Tailwind ni styles de la page hôte.
+ */
+function Widget({ config }: WidgetProps) {
+  const { tab, language, period, swissFilter, rows, theme, compact, refresh } = config;
+  // Pas de langue enregistrée : le stockage local est souvent indisponible dans une iframe tierce
+  const i18n = useMemo(() => createI18n(resolveUiLanguage(null, language, navigator.languages)), [language]);
+  const { t, formatNumber, formatDateTime } = i18n;
+  const [articles, setArticles] = useState<Article[] | null>(null);
+  const [error, setError] = useState(false);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  useEffect(() => {
+    let controller: AbortController | undefined;
+
+    const load = () => {
+      controller?.abort();
+      controller = new AbortController();
+      const { signal } = controller;
+
+      loadRanking(tab, language, period, swissFilter, { signal })
+        .then(result => {
+          if (signal.aborted) return;
+          // Comme dans l'application, les entrées suspectes sont masquées
+          setArticles(result.filter(article => !isSuspicious(article)).slice(0, rows));
+          setError(false);
+          setLastUpdated(new Date());
+        })
+        .catch(err => {
+          if (isAbortError(err)) return;
+          console.error('Error loading widget ranking:', err);
+          setError(true);
+        });
+    };
+
+    load();
+    const timer = setInterval(load, refresh * 60 * 1000);
+    return () => {
+      clearInterval(timer);
+      controller?.abort();
+    };
+  }, [tab, language, period, swissFilter, rows, refresh]);
+
+  const appUrl = new URL(`/?${serializeViewState({ ...DEFAULT_VIEW_STATE, tab, language, period, swissFilter })}`, window.location.href);
+
+  return (
+    <I18nContext.Provider value={i18n}>
+      <div className={`hs-widget hs-widget--${theme}${compact ? ' hs-widget--compact' : ''}`}>
+        <header className="hs-widget__header">
+          <h1 className="hs-widget__title">{t('widget.title')}</h1>
+          <p className="hs-widget__subtitle">
+            {t(`tab.${tab}`)} · {t(`period.${period}`)}
+            {language === 'ch' ? '' : ` · ${language}.wikipedia`}
+          </p>
+        </header>
+
+        {error && !articles ? (
+          <p className="hs-widget__message">{t('widget.error')}</p>
+        ) : !articles ? (
+          <p className="hs-widget__message">{t('widget.loading')}</p>
+        ) : (
+          <ol className="hs-widget__list">
+            {articles.map((article, index) => (
+              <li key={rowKey(article)} className="hs-widget__row">
+                <span className="hs-widget__rank">{index + 1}</span>
+                {!compact && article.metadata?.thumbnail && (
+                  <img src={article.metadata.thumbnail} alt="" className="hs-widget__thumbnail" loading="lazy" />
+                )}
+                <div className="hs-widget__body">
+                  <a href={articleUrl(article, language)} target="_blank" rel="noopener noreferrer" className="hs-widget__link">
+                    {articleTitle(article)}
+                  </a>
+                  {!compact && article.metadata?.description && (
+                    <p className="hs-widget__description">{article.metadata.description}</p>
+                  )}
+                </div>
+                <span className="hs-widget__value">
+                  {tab === 'trending' && article.growthPercentage !== undefined
+                    ? `+${formatNumber(article.growthPercentage, { maximumFractionDigits: 0 })}%`
+                    : formatNumber(article.views)}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <footer className="hs-widget__footer">
+          <a href={appUrl.href} target="_blank" rel="noopener noreferrer">{t('widget.more')}</a>
+          {lastUpdated && <span>{t('widget.updated', { date: formatDateTime(lastUpdated) })}</span>}
+        </footer>
+      </div>
+    </I18nContext.Provider>
+  );
+}
+
+export default Widget;
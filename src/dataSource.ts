@@ -0,0 +1,120 @@
+import {
+  RankingOptions,
+  fetchArticleViewHistory,
+  fetchTopArticles,
+  fetchTrendingArticles
+} from './api';
+import { NetworkError, ParseError, errorFromResponse, isAbortError } from './errors';
+import { parseRule } from './exclusions';
+import { configureHttp } from './http';
+import { DEFAULT_SWISS_THRESHOLD } from './swissRelevance';
+import { DEFAULT_TREND_OPTIONS, TrendOptions } from './trends';
+import { Agent, Article, Language, LanguageSelection, Period, RankingTab, SwissFilter, ViewHistory } from './types';
+import { DEFAULT_VIEW_STATE, formatViewDate, serializeViewState } from './urlState';
+
+/**
+ * `direct` : le navigateur interroge Wikimedia ; `backend` : classements et historiques
+ * viennent du backend HelvetiScan (archive locale), les autres requêtes passent par son proxy.
+ */
+export type DataMode = 'direct' | 'backend';
+
+export const DATA_MODES: DataMode[] = ['direct', 'backend'];
+
+/** Adresse du backend (`VITE_BACKEND_URL`), même origine par défaut */
+export const BACKEND_URL = (import.meta.env.VITE_BACKEND_URL ?? '').replace(/\/$/, '');
+
+let dataMode: DataMode = 'direct';
+
+export function isDataMode(value: unknown): value is DataMode {
+  return typeof value === 'string' && (DATA_MODES as string[]).includes(value);
+}
+
+export function getDataMode(): DataMode {
+  return dataMode;
+}
+
+export function setDataMode(mode: DataMode): void {
+  dataMode = mode;
+  configureHttp({ proxy: mode === 'backend' ? `${BACKEND_URL}/api/proxy` : null });
+}
+
+// Mêmes erreurs typées que les requêtes Wikimedia (voir `errors.ts`)
+async function fetchFromBackend<T>(path: string, params: URLSearchParams, signal?: AbortSignal): Promise<T> {
+  const url = `${BACKEND_URL}${path}?${params}`;
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new NetworkError(url);
+  }
+
+  if (!response.ok) {
+    throw errorFromResponse(response, url);
+  }
+
+  try {
+    return await response.json() as T;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new ParseError(url);
+  }
+}
+
+// Le backend ne calcule que les réglages par défaut ; les autres le sont ici, via son proxy
+function usesDefaultSettings({
+  swissThreshold = DEFAULT_SWISS_THRESHOLD,
+  trend = DEFAULT_TREND_OPTIONS,
+  normalize = false,
+  allowlist = []
+}: RankingOptions): boolean {
+  return !normalize && swissThreshold === DEFAULT_SWISS_THRESHOLD && !allowlist.some(parseRule) &&
+    Object.entries(trend).every(([name, value]) => DEFAULT_TREND_OPTIONS[name as keyof TrendOptions] === value);
+}
+
+/**
+ * Classement d'un onglet, depuis Wikimedia ou le backend selon le mode
+ */
+export function loadRanking(
+  tab: RankingTab,
+  language: LanguageSelection,
+  period: Period,
+  swissFilter: SwissFilter,
+  options: RankingOptions = {},
+  mode: DataMode = dataMode
+): Promise<Article[]> {
+  if (mode === 'backend' && usesDefaultSettings(options)) {
+    const params = serializeViewState({
+      ...DEFAULT_VIEW_STATE,
+      language,
+      period,
+      swissFilter,
+      access: options.access ?? DEFAULT_VIEW_STATE.access,
+      date: options.endDate ? formatViewDate(options.endDate) : null
+    });
+    return fetchFromBackend(tab === 'mostViewed' ? '/api/top' : '/api/trending', params, options.signal);
+  }
+
+  return tab === 'mostViewed'
+    ? fetchTopArticles(language, period, swissFilter, options)
+    : fetchTrendingArticles(language, period, swissFilter, options);
+}
+
+/**
+ * Vues quotidiennes d'un article ; le backend complète la série avec son archive
+ */
+export function loadViewHistory(
+  article: string,
+  language: Language,
+  days: number = 30,
+  endDate: Date = new Date(),
+  agent: Agent = 'user',
+  mode: DataMode = dataMode,
+  signal?: AbortSignal
+): Promise<ViewHistory[]> {
+  if (mode === 'backend') {
+    const params = new URLSearchParams({ article, lang: language, days: String(days), date: formatViewDate(endDate), agent });
+    return fetchFromBackend('/api/history', params, signal);
+  }
+  return fetchArticleViewHistory(article, language, days, endDate, agent, signal);
+}
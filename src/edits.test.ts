@@ -0,0 +1,39 @@
+import { eachDayOfInterval } from 'date-fns';
+import { describe, expect, it } from 'vitest';
+import { summarizeEdits } from './edits';
+
+const days = [new Date(2026, 2, 1)];
+const baselineDays = eachDayOfInterval({ start: new Date(2026, 1, 15), end: new Date(2026, 1, 28) });
+
+const revisions = [
+  { timestamp: '2026-02-20T08:00:00Z', user: 'Lemanique', comment: 'Orthographe' },
+  { timestamp: '2026-03-01T09:00:00Z', user: 'Helvetica92', comment: 'Premiers résultats' },
+  { timestamp: '2026-03-01T18:30:00Z', user: 'Bernoise', comment: 'Résultats définitifs' },
+  { timestamp: '2026-03-01T12:00:00Z', user: 'Helvetica92', comment: '' },
+];
+
+describe('summarizeEdits', () => {
+  it('counts the edits and editors of the period and keeps the latest summary', () => {
+    expect(summarizeEdits(revisions, days, baselineDays, 500)).toEqual({
+      edits: 3,
+      editors: 2,
+      dailyEdits: 3,
+      baselineDailyEdits: 1 / 14,
+      lastEdit: { timestamp: '2026-03-01T18:30:00Z', user: 'Bernoise', summary: 'Résultats définitifs' },
+      editDriven: true
+    });
+  });
+
+  it('needs views and edits to rise together', () => {
+    expect(summarizeEdits(revisions, days, baselineDays, -200).editDriven).toBe(false);
+    expect(summarizeEdits(revisions.slice(0, 2), days, baselineDays, 500).editDriven).toBe(false);
+
+    // Article habituellement très modifié : trois modifications ne sont pas une hausse
+    const busy = baselineDays.map(day => ({ timestamp: `${day.getFullYear()}-02-${String(day.getDate()).padStart(2, '0')}T10:00:00Z` }));
+    expect(summarizeEdits([...busy, ...revisions], days, baselineDays, 500).editDriven).toBe(false);
+  });
+
+  it('reports an article left untouched', () => {
+    expect(summarizeEdits([], days, baselineDays, 500)).toMatchObject({ edits: 0, editors: 0, lastEdit: undefined, editDriven: false });
+  });
+});
@@ -0,0 +1,43 @@
+import { format } from 'date-fns';
+import { EditActivity, RevisionsResponse } from './types';
+
+type Revision = NonNullable<NonNullable<RevisionsResponse['query']>['pages'][number]['revisions']>[number];
+
+/** Seuils de l'indicateur « porté par les modifications » */
+export const EDIT_THRESHOLDS = {
+  /** Modifications minimales sur la période */
+  minEdits: 3,
+  /** Rythme quotidien de la période rapporté à celui de la référence */
+  riseFactor: 3
+};
+
+/**
+ * Activité éditoriale d'un article sur la période et sa référence, d'après ses modifications
+ * (horodatages UTC, comme les jours des API Wikimedia). La tendance est dite portée par les
+ * modifications lorsque les vues progressent (`growth`) et que le rythme des modifications
+ * dépasse nettement celui de la référence.
+ */
+export function summarizeEdits(revisions: Revision[], days: Date[], baselineDays: Date[], growth?: number): EditActivity {
+  const within = (range: Date[]) => {
+    const from = format(range[0], 'yyyy-MM-dd');
+    const to = format(range[range.length - 1], 'yyyy-MM-dd');
+    return revisions.filter(({ timestamp }) => timestamp.slice(0, 10) >= from && timestamp.slice(0, 10) <= to);
+  };
+
+  const periodRevisions = within(days).sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  const baselineEdits = baselineDays.length > 0 ? within(baselineDays).length : 0;
+  const baselineDailyEdits = baselineDays.length > 0 ? baselineEdits / baselineDays.length : 0;
+  const dailyEdits = periodRevisions.length / days.length;
+  const [last] = periodRevisions;
+
+  return {
+    edits: periodRevisions.length,
+    editors: new Set(periodRevisions.map(({ user }) => user).filter(Boolean)).size,
+    dailyEdits,
+    baselineDailyEdits,
+    lastEdit: last && { timestamp: last.timestamp, user: last.user, summary: last.comment || undefined },
+    editDriven: (growth ?? 0) > 0
+      && periodRevisions.length >= EDIT_THRESHOLDS.minEdits
+      && dailyEdits >= EDIT_THRESHOLDS.riseFactor * baselineDailyEdits
+  };
+}
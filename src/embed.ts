@@ -0,0 +1,54 @@
+import { WIDGET_ATTRIBUTES, WIDGET_RESIZE_MESSAGE, parseWidgetConfig, serializeWidgetConfig } from './widget';
+
+// Page du widget, servie par le même hôte que ce script
+const WIDGET_URL = new URL('/widget.html', new URL(import.meta.url).origin);
+
+/**
+ * `<helvetiscan-widget language="ch" period="daily" rows="5" compact>` : intègre le widget
+ * dans une iframe, isolée des styles de la page hôte, dont la hauteur suit le contenu
+ */
+class HelvetiScanWidget extends HTMLElement {
+  static observedAttributes = [...WIDGET_ATTRIBUTES];
+
+  private frame = document.createElement('iframe');
+
+  constructor() {
+    super();
+    const root = this.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = ':host { display: block; } iframe { display: block; width: 100%; height: 320px; border: 0; }';
+    this.frame.title = 'HelvetiScan';
+    this.frame.loading = 'lazy';
+    root.append(style, this.frame);
+  }
+
+  connectedCallback() {
+    window.addEventListener('message', this.handleMessage);
+    this.update();
+  }
+
+  disconnectedCallback() {
+    window.removeEventListener('message', this.handleMessage);
+  }
+
+  attributeChangedCallback() {
+    if (this.isConnected) this.update();
+  }
+
+  private update() {
+    const config = parseWidgetConfig(attribute => this.getAttribute(attribute));
+    const src = `${WIDGET_URL.href}?${serializeWidgetConfig(config)}`;
+    if (this.frame.src !== src) this.frame.src = src;
+  }
+
+  private handleMessage = (event: MessageEvent) => {
+    if (event.source !== this.frame.contentWindow || event.origin !== WIDGET_URL.origin) return;
+    if (event.data?.type === WIDGET_RESIZE_MESSAGE && typeof event.data.height === 'number') {
+      this.frame.style.height = `${event.data.height}px`;
+    }
+  };
+}
+
+if (!customElements.get('helvetiscan-widget')) {
+  customElements.define('helvetiscan-widget', HelvetiScanWidget);
+}
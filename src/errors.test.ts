@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ApiError, NetworkError, NotFoundError, RateLimitError, errorFromResponse, errorKind, parseRetryAfter } from './errors';
+
+function response(status: number, headers: Record<string, string> = {}): Response {
+  return { ok: false, status, statusText: 'Error', headers: new Headers(headers) } as Response;
+}
+
+describe('parseRetryAfter', () => {
+  it('reads a delay in seconds or an HTTP date', () => {
+    const now = Date.UTC(2026, 2, 2, 10);
+
+    expect(parseRetryAfter('120', now)).toBe(120 * 1000);
+    expect(parseRetryAfter('Mon, 02 Mar 2026 10:00:30 GMT', now)).toBe(30 * 1000);
+    expect(parseRetryAfter('Mon, 02 Mar 2026 09:00:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores missing or unreadable values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('errorFromResponse', () => {
+  it('types failures by status', () => {
+    const url = 'https://example.org/';
+
+    expect(errorFromResponse(response(404), url)).toBeInstanceOf(NotFoundError);
+    expect(errorFromResponse(response(429, { 'Retry-After': '5' }), url)).toMatchObject({ retryAfter: 5000 });
+    expect(errorFromResponse(response(503), url)).toBeInstanceOf(NetworkError);
+    expect(errorKind(errorFromResponse(response(403), url))).toBe('unknown');
+    expect(errorFromResponse(response(403), url)).toBeInstanceOf(ApiError);
+    expect(errorKind(new RateLimitError(url))).toBe('rateLimited');
+  });
+});
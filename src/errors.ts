@@ -0,0 +1,91 @@
+/**
+ * Échec d'une requête vers une API (Wikimedia ou backend HelvetiScan)
+ */
+export class ApiError extends Error {
+  constructor(message: string, readonly url: string, readonly status?: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** Réponse 404 : page inconnue ou données pas encore publiées (classement du jour) */
+export class NotFoundError extends ApiError {
+  constructor(url: string) {
+    super(`Data not found or not yet available: ${url}`, url, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** Réponse 429 ; `retryAfter` est le délai demandé par le serveur (`Retry-After`), en millisecondes */
+export class RateLimitError extends ApiError {
+  constructor(url: string, readonly retryAfter?: number) {
+    super(`Rate limited: ${url}`, url, 429);
+    this.name = 'RateLimitError';
+  }
+}
+
+/** Serveur injoignable ou en erreur (5xx) */
+export class NetworkError extends ApiError {
+  constructor(url: string, status?: number) {
+    super(status ? `Server error (${status}): ${url}` : `Network error: ${url}`, url, status);
+    this.name = 'NetworkError';
+  }
+}
+
+/** Réponse reçue mais illisible (JSON invalide) */
+export class ParseError extends ApiError {
+  constructor(url: string) {
+    super(`Invalid response: ${url}`, url);
+    this.name = 'ParseError';
+  }
+}
+
+/**
+ * Délai `Retry-After` en millisecondes (nombre de secondes ou date HTTP), undefined si absent ou illisible
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value.trim())) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+/**
+ * Erreur typée correspondant à une réponse HTTP en échec
+ */
+export function errorFromResponse(response: Response, url: string): ApiError {
+  switch (response.status) {
+    case 404:
+      return new NotFoundError(url);
+    case 429:
+      return new RateLimitError(url, parseRetryAfter(response.headers.get('Retry-After')));
+    default:
+      return response.status >= 500
+        ? new NetworkError(url, response.status)
+        : new ApiError(`API request failed: ${response.statusText} (${response.status})`, url, response.status);
+  }
+}
+
+/** Vrai pour l'erreur d'une requête annulée (`AbortController`) */
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === 'AbortError';
+}
+
+/**
+ * Relance l'erreur d'une requête annulée : à appeler en tête des `catch` qui remplacent
+ * un échec par une valeur par défaut, pour ne pas poursuivre un chargement abandonné
+ */
+export function rethrowIfAborted(error: unknown): void {
+  if (isAbortError(error)) throw error;
+}
+
+/** Catégorie d'erreur présentée à l'utilisateur */
+export type ErrorKind = 'notFound' | 'rateLimited' | 'network' | 'parse' | 'unknown';
+
+export function errorKind(error: unknown): ErrorKind {
+  if (error instanceof NotFoundError) return 'notFound';
+  if (error instanceof RateLimitError) return 'rateLimited';
+  if (error instanceof NetworkError) return 'network';
+  if (error instanceof ParseError) return 'parse';
+  return 'unknown';
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_EXCLUSION_RULES,
+  FALLBACK_SITE_EXCLUSIONS,
+  applyExclusionRules,
+  applySiteExclusions,
+  buildSiteExclusions,
+  loadExclusionRules,
+  parseRule,
+  saveExclusionRules,
+  siteExclusionReason
+} from './exclusions';
+import { Article } from './types';
+
+describe('buildSiteExclusions', () => {
+  it('collects local, canonical and alias prefixes of every non-article namespace', () => {
+    const site = buildSiteExclusions({
+      query: {
+        general: { mainpage: 'Hauptseite' },
+        namespaces: {
+          0: { id: 0, name: '' },
+          6: { id: 6, name: 'Datei', canonical: 'File' },
+          14: { id: 14, name: 'Kategorie', canonical: 'Category' }
+        },
+        namespacealiases: [{ id: 6, alias: 'Bild' }]
+      }
+    });
+
+    expect(site).toEqual({ namespacePrefixes: ['datei:', 'file:', 'kategorie:', 'category:', 'bild:'], mainPages: ['Hauptseite'] });
+    expect(siteExclusionReason('Hauptseite', site)).toBe('mainPage');
+    expect(siteExclusionReason('Bild:Matterhorn.jpg', site)).toBe('namespace');
+    expect(siteExclusionReason('Suche', site)).toBe('technical');
+    expect(siteExclusionReason('Matterhorn', site)).toBeNull();
+  });
+});
+
+describe('applySiteExclusions', () => {
+  it('counts the pages excluded by the wiki, except those of the allowlist', () => {
+    const articles: Article[] = [
+      { article: 'Spécial:Recherche', views: 4 },
+      { article: 'Cookie_(informatique)', views: 3 },
+      { article: 'Recherche', views: 2 },
+      { article: 'Genève', views: 1 }
+    ];
+    const result = applySiteExclusions(articles, FALLBACK_SITE_EXCLUSIONS, ['/^cookie/i']);
+
+    expect(result.articles.map(article => article.article)).toEqual(['Cookie_(informatique)', 'Genève']);
+    expect(result.excluded).toEqual({ namespace: 1, technical: 1 });
+  });
+});
+
+describe('parseRule', () => {
+  it('matches plain titles regardless of case and underscores', () => {
+    const rule = parseRule(' Liste_des_communes ');
+    expect(rule?.('liste des communes')).toBe(true);
+    expect(rule?.('Liste des communes du canton de Vaud')).toBe(false);
+  });
+
+  it('reads /pattern/flags entries as regular expressions and rejects invalid ones', () => {
+    expect(parseRule('/^liste des/i')?.('Liste des communes du canton de Vaud')).toBe(true);
+    expect(parseRule('/(/')).toBeNull();
+    expect(parseRule('  ')).toBeNull();
+  });
+
+  it('ignores the global and sticky flags, which would make matches alternate', () => {
+    const rule = parseRule('/genève/giy');
+    expect([rule?.('Genève'), rule?.('Genève'), rule?.('Canton de Genève')]).toEqual([true, true, true]);
+  });
+});
+
+describe('applyExclusionRules', () => {
+  const articles: Article[] = [
+    { article: 'Liste_des_communes_du_canton_de_Vaud', views: 4 },
+    { article: 'Liste_des_communes_suisses', views: 3 },
+    { article: 'Mercure', views: 2, disambiguation: true },
+    { article: 'Genève', views: 1, localTitles: { de: 'Genf', fr: 'Genève' } }
+  ];
+
+  it('counts the rows excluded by each rule, the allowlist taking precedence', () => {
+    const result = applyExclusionRules(articles, {
+      blocklist: ['/^Liste des/', 'Genf'],
+      allowlist: ['Liste des communes suisses'],
+      hideDisambiguation: true
+    });
+
+    expect(result.articles.map(article => article.article)).toEqual(['Liste_des_communes_suisses']);
+    expect(result.excluded).toEqual({ blocklist: 2, disambiguation: 1 });
+  });
+
+  it('keeps every row with the default rules', () => {
+    expect(applyExclusionRules(articles, DEFAULT_EXCLUSION_RULES)).toEqual({ articles, excluded: {} });
+  });
+});
+
+describe('loadExclusionRules', () => {
+  it('round-trips the rules and ignores unreadable storage', () => {
+    const values = new Map<string, string>();
+    const storage = { getItem: (key: string) => values.get(key) ?? null, setItem: (key: string, value: string) => { values.set(key, value); } };
+    const rules = { blocklist: ['/^Liste/'], allowlist: [], hideDisambiguation: true };
+
+    saveExclusionRules(storage, rules);
+    expect(loadExclusionRules(storage)).toEqual(rules);
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    values.set('helvetiscan-exclusion-rules', '{not json');
+    expect(loadExclusionRules(storage)).toEqual(DEFAULT_EXCLUSION_RULES);
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,221 @@
+import { Article, SiteInfoResponse } from './types';
+
+/**
+ * Pages à écarter des classements d'un wiki, d'après ses `siteinfo` :
+ * tout espace de noms autre que les articles (noms locaux, canoniques et alias) et sa page d'accueil.
+ */
+export interface SiteExclusions {
+  /** Préfixes `Nom:` en minuscules, avec soulignés */
+  namespacePrefixes: string[];
+  /** Titres de page d'accueil, avec soulignés */
+  mainPages: string[];
+}
+
+/** Motif d'exclusion d'une page par le wiki */
+export type SiteExclusionReason = 'namespace' | 'mainPage' | 'technical';
+
+/** Pages écartées par le wiki, par motif */
+export type SiteExclusionCounts = Partial<Record<SiteExclusionReason, number>>;
+
+/**
+ * Règles propres au wiki, utilisées tant que ses `siteinfo` n'ont pu être chargées
+ */
+export const FALLBACK_SITE_EXCLUSIONS: SiteExclusions = {
+  namespacePrefixes: [
+    'Wikipédia:', 'Wikipedia:', 'Special:', 'Spécial:',
+    'Speciale:', 'Spezial:', 'MediaWiki:', 'Help:', 'Aide:',
+    'Hilfe:', 'Ayuda:', 'Template:', 'Modèle:', 'Vorlage:',
+    'Plantilla:', 'User:', 'Utilisateur:', 'Benutzer:',
+    'Usuario:', 'Talk:', 'Discussion:', 'Diskussion:', 'Discusión:',
+    'Aiuto:', 'Utente:', 'Discussione:', 'Agid:', 'Utilisader:', 'Discussiun:',
+    'File:', 'Fichier:', 'Datei:', 'Category:', 'Catégorie:', 'Kategorie:', 'Portal:', 'Portail:'
+  ].map(prefix => prefix.toLowerCase()),
+  mainPages: [
+    'Wikipédia:Accueil_principal', 'Wikipedia:Main_Page', 'Main_Page',
+    'Wikipedia:Hauptseite', 'Wikipedia:Portada',
+    'Pagina_principale', 'Pagina_principala'
+  ]
+};
+
+// Pages très consultées par des navigateurs ou des robots plutôt que par des lecteurs
+const TECHNICAL_PAGES = new Set([
+  'Cookie_(informatique)', 'HTTP_cookie', 'Cookie',
+  'Recherche', 'Search', 'Suche', 'Búsqueda'
+]);
+
+const underscored = (title: string) => title.replace(/ /g, '_');
+
+/**
+ * Règles d'un wiki depuis sa réponse `meta=siteinfo` (espaces de noms, alias, page d'accueil)
+ */
+export function buildSiteExclusions(siteinfo: SiteInfoResponse): SiteExclusions {
+  const { general, namespaces, namespacealiases = [] } = siteinfo.query;
+  // L'espace 0 (articles) n'a pas de préfixe
+  const names = Object.values(namespaces)
+    .filter(namespace => namespace.id !== 0)
+    .flatMap(namespace => [namespace.name, namespace.canonical ?? '']);
+  const aliases = namespacealiases.filter(alias => alias.id !== 0).map(alias => alias.alias);
+
+  return {
+    namespacePrefixes: [...new Set([...names, ...aliases].filter(Boolean).map(name => `${underscored(name)}:`.toLowerCase()))],
+    mainPages: [underscored(general.mainpage)]
+  };
+}
+
+/**
+ * Titre décodé de l'URL ; tel quel s'il contient un « % » qui n'est pas un échappement
+ */
+export function decodeTitle(title: string): string {
+  try {
+    return decodeURIComponent(title);
+  } catch {
+    // Titre contenant un « % » littéral
+    return title;
+  }
+}
+
+/**
+ * Motif pour lequel le wiki écarte une page, null pour un article
+ */
+export function siteExclusionReason(title: string, site: SiteExclusions): SiteExclusionReason | null {
+  const decoded = underscored(decodeTitle(title));
+  const lower = decoded.toLowerCase();
+
+  if (site.mainPages.includes(decoded)) return 'mainPage';
+  if (site.namespacePrefixes.some(prefix => lower.startsWith(prefix))) return 'namespace';
+  if (TECHNICAL_PAGES.has(decoded)) return 'technical';
+  return null;
+}
+
+/**
+ * Règles d'exclusion modifiables par l'utilisateur. Chaque entrée est un titre (casse et soulignés
+ * indifférents) ou une expression régulière `/motif/options` ; la liste blanche l'emporte sur le reste.
+ */
+export interface ExclusionRules {
+  blocklist: string[];
+  allowlist: string[];
+  hideDisambiguation: boolean;
+}
+
+export const DEFAULT_EXCLUSION_RULES: ExclusionRules = {
+  blocklist: [],
+  allowlist: [],
+  hideDisambiguation: false
+};
+
+/** Motif d'exclusion d'une ligne par les règles de l'utilisateur */
+export type RuleExclusionReason = 'blocklist' | 'disambiguation';
+
+export interface ExclusionResult {
+  articles: Article[];
+  /** Lignes écartées par motif */
+  excluded: Partial<Record<RuleExclusionReason, number>>;
+}
+
+const normalizeTitle = (title: string) => decodeTitle(title).replace(/_/g, ' ').trim().toLowerCase();
+
+/**
+ * Prédicat d'une entrée de règle sur un titre lisible, null si l'entrée est vide ou l'expression invalide
+ */
+export function parseRule(entry: string): ((title: string) => boolean) | null {
+  const trimmed = entry.trim();
+  if (!trimmed) return null;
+
+  const regex = trimmed.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    try {
+      // Sans `g` ni `y`, dont le `lastIndex` ferait alterner le résultat d'un titre à l'autre
+      const pattern = new RegExp(regex[1], regex[2].replace(/[gy]/g, ''));
+      return title => pattern.test(title);
+    } catch {
+      return null;
+    }
+  }
+
+  const expected = normalizeTitle(trimmed);
+  return title => title.toLowerCase() === expected;
+}
+
+function matcher(entries: string[]): (titles: string[]) => boolean {
+  const predicates = entries.map(parseRule).filter((rule): rule is (title: string) => boolean => rule !== null);
+  return titles => predicates.some(predicate => titles.some(predicate));
+}
+
+// Titres lisibles d'une ligne, y compris les titres locaux d'une ligne fusionnée
+function readableTitles(article: Article): string[] {
+  return [article.article, ...Object.values(article.localTitles ?? {})].map(title => decodeTitle(title).replace(/_/g, ' '));
+}
+
+/**
+ * Écarte les pages exclues par le wiki (voir `siteExclusionReason`), sauf celles de la liste blanche
+ * de l'utilisateur, et compte les pages écartées par motif
+ */
+export function applySiteExclusions(
+  articles: Article[],
+  site: SiteExclusions,
+  allowlist: string[] = []
+): { articles: Article[]; excluded: SiteExclusionCounts } {
+  const allowed = matcher(allowlist);
+  const excluded: SiteExclusionCounts = {};
+
+  const kept = articles.filter(article => {
+    const reason = siteExclusionReason(article.article, site);
+    if (!reason || allowed(readableTitles(article))) return true;
+
+    excluded[reason] = (excluded[reason] ?? 0) + 1;
+    return false;
+  });
+
+  return { articles: kept, excluded };
+}
+
+/**
+ * Applique les règles de l'utilisateur ; les lignes fusionnées sont testées sur chacun de leurs titres locaux
+ */
+export function applyExclusionRules(articles: Article[], rules: ExclusionRules): ExclusionResult {
+  const allowed = matcher(rules.allowlist);
+  const blocked = matcher(rules.blocklist);
+  const excluded: ExclusionResult['excluded'] = {};
+
+  const kept = articles.filter(article => {
+    const titles = readableTitles(article);
+    if (allowed(titles)) return true;
+
+    const reason: RuleExclusionReason | null = blocked(titles)
+      ? 'blocklist'
+      : rules.hideDisambiguation && article.disambiguation ? 'disambiguation' : null;
+    if (!reason) return true;
+
+    excluded[reason] = (excluded[reason] ?? 0) + 1;
+    return false;
+  });
+
+  return { articles: kept, excluded };
+}
+
+const STORAGE_KEY = 'helvetiscan-exclusion-rules';
+
+/** Sous-ensemble de `Storage` utilisé (remplaçable dans les tests) */
+export type ExclusionStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+/**
+ * Règles enregistrées, complétées par les valeurs par défaut (par défaut si illisibles)
+ */
+export function loadExclusionRules(storage: ExclusionStorage): ExclusionRules {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    const stored = raw ? (JSON.parse(raw) as Partial<ExclusionRules>) : {};
+    return {
+      blocklist: Array.isArray(stored.blocklist) ? stored.blocklist.filter(entry => typeof entry === 'string') : [],
+      allowlist: Array.isArray(stored.allowlist) ? stored.allowlist.filter(entry => typeof entry === 'string') : [],
+      hideDisambiguation: stored.hideDisambiguation ?? DEFAULT_EXCLUSION_RULES.hideDisambiguation
+    };
+  } catch (error) {
+    console.error('Error reading exclusion rules:', error);
+    return DEFAULT_EXCLUSION_RULES;
+  }
+}
+
+export function saveExclusionRules(storage: ExclusionStorage, rules: ExclusionRules): void {
+  storage.setItem(STORAGE_KEY, JSON.stringify(rules));
+}
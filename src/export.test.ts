@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { buildExportUrl, parseExportUrl, serializeArticles } from './export';
+import { rowKey, searchArticles, sortArticles } from './ranking';
+import { Article } from './types';
+
+const context = {
+  tab: 'trending' as const,
+  language: 'fr' as const,
+  period: 'weekly' as const,
+  swissFilter: 'topics' as const,
+  generatedAt: new Date('2026-03-02T06:00:00Z')
+};
+
+const articles: Article[] = [
+  { article: 'Genève', views: 45000, growth: 3000, growthPercentage: 7.14, reliability: 'high' },
+  { article: 'Procter_&_Gamble', views: 1200 },
+  { article: 'Sion,_"Valais"|test', views: 900, growth: -10, growthPercentage: -1.1, reliability: 'low' }
+];
+
+describe('serializeArticles', () => {
+  it('writes CSV with the active filters on each row and quoted fields', () => {
+    const { content, mimeType, filename } = serializeArticles(articles, context, 'csv');
+    const lines = content.trim().split('\n');
+
+    expect(mimeType).toContain('text/csv');
+    expect(filename).toBe('helvetiscan-trending-fr-weekly-2026-03-02.csv');
+    expect(lines[0]).toBe('tab,language,period,swissFilter,rank,title,views,growth,growthPercentage,reliability,url');
+    expect(lines[1]).toBe('trending,fr,weekly,topics,1,Genève,45000,3000,7.1,high,https://fr.wikipedia.org/wiki/Gen%C3%A8ve');
+    expect(lines[3]).toContain('"Sion, ""Valais""|test"');
+  });
+
+  it('writes JSON with context and rows', () => {
+    const data = JSON.parse(serializeArticles(articles, context, 'json').content);
+
+    expect(data).toMatchObject({ tab: 'trending', language: 'fr', period: 'weekly', swissFilter: 'topics' });
+    expect(data.articles[1]).toEqual({
+      rank: 2, title: 'Procter & Gamble', views: 1200, growth: null, growthPercentage: null, reliability: null,
+      url: 'https://fr.wikipedia.org/wiki/Procter_%26_Gamble'
+    });
+  });
+
+  it('writes a Markdown table with escaped pipes', () => {
+    const { content } = serializeArticles(articles, context, 'md');
+
+    expect(content).toContain('| 1 | [Genève](https://fr.wikipedia.org/wiki/Gen%C3%A8ve) | 45000 | +3000 (7.1%) | high |');
+    expect(content).toContain('Sion, "Valais"\\|test');
+  });
+
+  it('keeps the ranking ranks when the list is searched or sorted', () => {
+    const ranks = new Map(articles.map((article, index) => [rowKey(article), index + 1]));
+    const sorted = sortArticles(articles, { key: 'views', direction: 'asc' });
+    const searched = searchArticles(articles, 'Procter');
+
+    const rank = (list: Article[]) => JSON.parse(serializeArticles(list, context, 'json', '', ranks).content)
+      .articles.map((row: { rank: number }) => row.rank);
+    expect(rank(sorted)).toEqual([3, 2, 1]);
+    expect(rank(searched)).toEqual([2]);
+  });
+
+  it('exports titles containing a literal percent sign', () => {
+    const data = JSON.parse(serializeArticles([{ article: '100%_Wolle', views: 10 }], context, 'json').content);
+
+    expect(data.articles[0]).toMatchObject({ title: '100% Wolle', url: 'https://fr.wikipedia.org/wiki/100%25_Wolle' });
+  });
+
+  it('writes RSS and Atom feeds with escaped titles', () => {
+    const rss = serializeArticles(articles, context, 'rss', 'https://example.org/export/rss').content;
+    const atom = serializeArticles(articles, context, 'atom', 'https://example.org/export/atom').content;
+
+    expect(rss).toContain('<atom:link href="https://example.org/export/rss" rel="self"');
+    expect(rss).toContain('<title>#2 Procter &amp; Gamble</title>');
+    expect(rss.match(/<item>/g)).toHaveLength(3);
+    expect(atom).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(atom).toContain('<updated>2026-03-02T06:00:00.000Z</updated>');
+    expect(atom.match(/<entry>/g)).toHaveLength(3);
+  });
+});
+
+describe('export URLs', () => {
+  it('round-trips the view through a stable URL', () => {
+    const url = buildExportUrl('https://helvetiscan.example', 'rss', context);
+
+    expect(url).toBe('https://helvetiscan.example/export/rss?tab=trending&lang=fr&period=weekly&swiss=topics');
+    expect(parseExportUrl(new URL(url))).toEqual({
+      format: 'rss',
+      context: { tab: 'trending', language: 'fr', period: 'weekly', swissFilter: 'topics' }
+    });
+  });
+
+  it('pins a past date in the URL, title and filename', () => {
+    const pinned = { ...context, date: '2026-02-15' };
+    const url = buildExportUrl('https://helvetiscan.example', 'atom', pinned);
+
+    expect(url).toContain('&date=2026-02-15');
+    expect(parseExportUrl(new URL(url))?.context.date).toBe('2026-02-15');
+    expect(serializeArticles(articles, pinned, 'json').filename).toBe('helvetiscan-trending-fr-weekly-2026-02-15.json');
+    expect(JSON.parse(serializeArticles(articles, pinned, 'json').content).date).toBe('2026-02-15');
+  });
+
+  it('falls back to defaults for unknown parameters and ignores other paths', () => {
+    expect(parseExportUrl(new URL('https://x.test/export/csv?lang=xx'))?.context).toEqual({
+      tab: 'mostViewed', language: 'fr', period: 'daily', swissFilter: 'none'
+    });
+    expect(parseExportUrl(new URL('https://x.test/export/pdf'))).toBeNull();
+    expect(parseExportUrl(new URL('https://x.test/'))).toBeNull();
+  });
+});
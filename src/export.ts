@@ -0,0 +1,282 @@
+import { articleTitle, articleUrl } from './articles';
+import { rowKey } from './ranking';
+import { AccessFilter, Article, LanguageSelection, Period, RankingTab, SwissFilter } from './types';
+import { ACCESS_FILTERS, LANGUAGE_SELECTIONS, PERIODS, RANKING_TABS, SWISS_FILTERS, parseViewDate } from './urlState';
+
+export type ExportFormat = 'csv' | 'json' | 'md' | 'rss' | 'atom';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'md', 'rss', 'atom'];
+
+/** Vue exportée : les filtres actifs au moment de l'export */
+export interface ExportContext {
+  tab: RankingTab;
+  language: LanguageSelection;
+  period: Period;
+  swissFilter: SwissFilter;
+  /** Mode d'accès compté ; absent pour tous les accès */
+  access?: AccessFilter;
+  /** Dernier jour de la période (yyyy-MM-dd) ; absent pour les données les plus récentes */
+  date?: string;
+  generatedAt: Date;
+}
+
+export interface ExportRow {
+  rank: number;
+  title: string;
+  views: number;
+  growth: number | null;
+  growthPercentage: number | null;
+  reliability: string | null;
+  url: string;
+}
+
+export interface ExportFile {
+  content: string;
+  mimeType: string;
+  filename: string;
+}
+
+const TAB_LABELS: Record<RankingTab, string> = {
+  mostViewed: 'Articles les plus consultés',
+  trending: 'Articles en progression'
+};
+
+const PERIOD_LABELS: Record<Period, string> = {
+  daily: 'Jour',
+  '48h': '48 heures',
+  weekly: 'Semaine',
+  monthly: 'Mois'
+};
+
+const SWISS_FILTER_LABELS: Record<SwissFilter, string> = {
+  none: 'Tous les internautes',
+  readers: 'Internautes en Suisse',
+  topics: 'Sujets suisses'
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8'
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  md: 'md',
+  rss: 'rss.xml',
+  atom: 'atom.xml'
+};
+
+/**
+ * Lignes exportées, dans l'ordre de `articles`. `ranks` (clé `rowKey`) donne le rang affiché quand
+ * la liste est recherchée ou triée ; à défaut, le rang est la position dans la liste.
+ */
+export function toExportRows(articles: Article[], context: ExportContext, ranks?: Map<string, number>): ExportRow[] {
+  return articles.map((article, index) => ({
+    rank: ranks?.get(rowKey(article)) ?? index + 1,
+    title: articleTitle(article),
+    views: article.views,
+    growth: article.growth ?? null,
+    growthPercentage: article.growthPercentage !== undefined ? Math.round(article.growthPercentage * 10) / 10 : null,
+    reliability: article.reliability ?? null,
+    url: articleUrl(article, context.language)
+  }));
+}
+
+/**
+ * Titre lisible de la vue exportée
+ */
+export function describeExport(context: ExportContext): string {
+  const date = context.date ? `, au ${context.date}` : '';
+  const access = context.access && context.access !== 'all-access' ? `, ${context.access}` : '';
+  return `HelvetiScan — ${TAB_LABELS[context.tab]} (${context.language}, ${PERIOD_LABELS[context.period]}${date}, ${SWISS_FILTER_LABELS[context.swissFilter]}${access})`;
+}
+
+function escapeCsv(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function formatGrowth(row: ExportRow): string {
+  if (row.growth === null) return '';
+  return `${row.growth > 0 ? '+' : ''}${row.growth} (${row.growthPercentage ?? 0}%)`;
+}
+
+function summarizeRow(row: ExportRow): string {
+  const parts = [`${row.views} vues`];
+  if (row.growth !== null) parts.push(formatGrowth(row));
+  if (row.reliability) parts.push(`fiabilité ${row.reliability}`);
+  return parts.join(' · ');
+}
+
+function contextFields(context: ExportContext): [string, string][] {
+  return [
+    ['tab', context.tab],
+    ['language', context.language],
+    ['period', context.period],
+    ['swissFilter', context.swissFilter],
+    ...(context.access ? [['access', context.access] as [string, string]] : []),
+    ...(context.date ? [['date', context.date] as [string, string]] : []),
+    ['generatedAt', context.generatedAt.toISOString()]
+  ];
+}
+
+function toCsv(rows: ExportRow[], context: ExportContext): string {
+  const header = ['tab', 'language', 'period', 'swissFilter', 'rank', 'title', 'views', 'growth', 'growthPercentage', 'reliability', 'url'];
+  const lines = rows.map(row => [
+    context.tab, context.language, context.period, context.swissFilter,
+    row.rank, row.title, row.views, row.growth, row.growthPercentage, row.reliability, row.url
+  ].map(escapeCsv).join(','));
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
+
+function toJson(rows: ExportRow[], context: ExportContext): string {
+  return JSON.stringify({ ...Object.fromEntries(contextFields(context)), articles: rows }, null, 2) + '\n';
+}
+
+function toMarkdown(rows: ExportRow[], context: ExportContext): string {
+  const lines = [
+    `# ${escapeMarkdown(describeExport(context))}`,
+    '',
+    `_Généré le ${context.generatedAt.toISOString()}_`,
+    '',
+    '| Rang | Article | Vues | Progression | Fiabilité |',
+    '| ---: | --- | ---: | ---: | --- |',
+    ...rows.map(row =>
+      `| ${row.rank} | [${escapeMarkdown(row.title)}](${row.url}) | ${row.views} | ${formatGrowth(row)} | ${row.reliability ?? ''} |`
+    )
+  ];
+  return lines.join('\n') + '\n';
+}
+
+function toRss(rows: ExportRow[], context: ExportContext, selfUrl: string): string {
+  const title = escapeXml(describeExport(context));
+  const date = context.generatedAt.toUTCString();
+  const items = rows.map(row => `    <item>
+      <title>${escapeXml(`#${row.rank} ${row.title}`)}</title>
+      <link>${escapeXml(row.url)}</link>
+      <description>${escapeXml(summarizeRow(row))}</description>
+      <guid isPermaLink="false">${escapeXml(`${row.url}#${context.generatedAt.toISOString().slice(0, 10)}-${context.tab}-${context.period}`)}</guid>
+      <pubDate>${date}</pubDate>
+    </item>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${title}</title>
+    <link>${escapeXml(selfUrl)}</link>
+    <atom:link href="${escapeXml(selfUrl)}" rel="self" type="application/rss+xml"/>
+    <description>${title}</description>
+    <lastBuildDate>${date}</lastBuildDate>
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+}
+
+function toAtom(rows: ExportRow[], context: ExportContext, selfUrl: string): string {
+  const updated = context.generatedAt.toISOString();
+  const entries = rows.map(row => `  <entry>
+    <title>${escapeXml(`#${row.rank} ${row.title}`)}</title>
+    <link href="${escapeXml(row.url)}"/>
+    <id>${escapeXml(`${row.url}#${updated.slice(0, 10)}-${context.tab}-${context.period}`)}</id>
+    <updated>${updated}</updated>
+    <summary>${escapeXml(summarizeRow(row))}</summary>
+  </entry>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(describeExport(context))}</title>
+  <id>${escapeXml(selfUrl)}</id>
+  <link href="${escapeXml(selfUrl)}" rel="self"/>
+  <updated>${updated}</updated>
+  <author><name>HelvetiScan</name></author>
+${entries.join('\n')}
+</feed>
+`;
+}
+
+/**
+ * Sérialise la vue courante. `selfUrl` est l'URL stable du flux (RSS/Atom), `ranks` les rangs
+ * du classement (voir `toExportRows`).
+ */
+export function serializeArticles(
+  articles: Article[],
+  context: ExportContext,
+  format: ExportFormat,
+  selfUrl = '',
+  ranks?: Map<string, number>
+): ExportFile {
+  const rows = toExportRows(articles, context, ranks);
+  const content = {
+    csv: () => toCsv(rows, context),
+    json: () => toJson(rows, context),
+    md: () => toMarkdown(rows, context),
+    rss: () => toRss(rows, context, selfUrl),
+    atom: () => toAtom(rows, context, selfUrl)
+  }[format]();
+
+  const date = context.date ?? context.generatedAt.toISOString().slice(0, 10);
+  return {
+    content,
+    mimeType: MIME_TYPES[format],
+    filename: `helvetiscan-${context.tab}-${context.language}-${context.period}-${date}.${EXTENSIONS[format]}`
+  };
+}
+
+/**
+ * URL stable d'un export (servie par le middleware `/export`), p. ex. pour s'abonner à un flux
+ */
+export function buildExportUrl(origin: string, format: ExportFormat, context: Omit<ExportContext, 'generatedAt'>): string {
+  const params = new URLSearchParams({
+    tab: context.tab,
+    lang: context.language,
+    period: context.period,
+    swiss: context.swissFilter
+  });
+  if (context.access && context.access !== 'all-access') params.set('access', context.access);
+  if (context.date) params.set('date', context.date);
+  return `${origin}/export/${format}?${params.toString()}`;
+}
+
+function pick<T extends string>(value: string | null, allowed: T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+/**
+ * Lit une URL d'export ; retourne null si le chemin n'est pas `/export/{format}`
+ */
+export function parseExportUrl(url: URL): { format: ExportFormat; context: Omit<ExportContext, 'generatedAt'> } | null {
+  const match = url.pathname.match(/^\/export\/([a-z]+)\/?$/);
+  if (!match || !EXPORT_FORMATS.includes(match[1] as ExportFormat)) return null;
+
+  const params = url.searchParams;
+  return {
+    format: match[1] as ExportFormat,
+    context: {
+      tab: pick(params.get('tab'), RANKING_TABS, 'mostViewed'),
+      language: pick(params.get('lang'), LANGUAGE_SELECTIONS, 'fr'),
+      period: pick(params.get('period'), PERIODS, 'daily'),
+      swissFilter: pick(params.get('swiss'), SWISS_FILTERS, 'none'),
+      access: params.has('access') ? pick(params.get('access'), ACCESS_FILTERS, 'all-access') : undefined,
+      date: parseViewDate(params.get('date')) ?? undefined
+    }
+  };
+}
@@ -0,0 +1,44 @@
+import { ViewHistory } from './types';
+
+export interface ViewHistorySummary {
+  peak: ViewHistory | null;
+  median: number;
+  latest: ViewHistory | null;
+  average30: number;
+  /** Écart (en %) entre le dernier jour disponible et la moyenne des 30 derniers jours */
+  latestVsAverage: number | null;
+}
+
+/**
+ * Médiane d'une série de valeurs (0 si vide)
+ */
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+/**
+ * Calcule les statistiques résumées d'un historique de vues quotidiennes
+ */
+export function summarizeViewHistory(history: ViewHistory[]): ViewHistorySummary {
+  if (history.length === 0) {
+    return { peak: null, median: 0, latest: null, average30: 0, latestVsAverage: null };
+  }
+
+  const peak = history.reduce((best, day) => (day.views > best.views ? day : best), history[0]);
+  const latest = history[history.length - 1];
+  const last30 = history.slice(-30);
+  const average30 = last30.reduce((sum, day) => sum + day.views, 0) / last30.length;
+
+  return {
+    peak,
+    median: median(history.map(day => day.views)),
+    latest,
+    average30,
+    latestVsAverage: average30 > 0 ? ((latest.views - average30) / average30) * 100 : null
+  };
+}
@@ -0,0 +1,25 @@
+import { useCallback, useState } from 'react';
+import { DataMode, isDataMode, setDataMode } from '../dataSource';
+
+const STORAGE_KEY = 'helvetiscan-data-mode';
+
+/**
+ * Source des données (Wikimedia en direct ou backend), conservée dans le navigateur
+ */
+export function useDataMode(): [DataMode, (mode: DataMode) => void] {
+  const [mode, setMode] = useState<DataMode>(() => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const initial = isDataMode(stored) ? stored : 'direct';
+    // Réglé dès l'initialisation, avant les premières requêtes des effets
+    setDataMode(initial);
+    return initial;
+  });
+
+  const update = useCallback((next: DataMode) => {
+    localStorage.setItem(STORAGE_KEY, next);
+    setDataMode(next);
+    setMode(next);
+  }, []);
+
+  return [mode, update];
+}
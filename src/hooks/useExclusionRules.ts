@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import { ExclusionRules, loadExclusionRules, saveExclusionRules } from '../exclusions';
+
+/**
+ * Règles d'exclusion de l'utilisateur, conservées dans le navigateur
+ */
+export function useExclusionRules(): [ExclusionRules, (rules: ExclusionRules) => void] {
+  const [rules, setRules] = useState<ExclusionRules>(() => loadExclusionRules(localStorage));
+
+  useEffect(() => {
+    saveExclusionRules(localStorage, rules);
+  }, [rules]);
+
+  return [rules, setRules];
+}
@@ -0,0 +1,33 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { I18n, UiLanguage, createI18n, resolveUiLanguage } from '../i18n';
+import { LanguageSelection } from '../types';
+
+const STORAGE_KEY = 'helvetiscan-ui-language';
+
+/** Traductions de l'interface, fournies par `App` */
+export const I18nContext = createContext<I18n>(createI18n('fr'));
+
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
+
+/**
+ * Langue de l'interface : suit le wiki consulté tant que l'utilisateur n'en a pas choisi une,
+ * le choix explicite étant ensuite conservé dans le navigateur.
+ */
+export function useUiLanguage(dataLanguage: LanguageSelection): [I18n, (language: UiLanguage) => void] {
+  const [stored, setStored] = useState(() => localStorage.getItem(STORAGE_KEY));
+  const language = resolveUiLanguage(stored, dataLanguage, navigator.languages);
+  const i18n = useMemo(() => createI18n(language), [language]);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = useCallback((next: UiLanguage) => {
+    localStorage.setItem(STORAGE_KEY, next);
+    setStored(next);
+  }, []);
+
+  return [i18n, setLanguage];
+}
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { enrichVisibleArticles } from '../api';
+import { isAbortError } from '../errors';
+import { rowKey } from '../ranking';
+import { Article, LanguageSelection } from '../types';
+
+// Délai après le dernier défilement avant de charger les lignes affichées
+const ENRICH_DELAY = 200;
+
+type Enrichment = Pick<Article, 'wikidataId' | 'swissScore' | 'swissSignals' | 'metadata' | 'topic' | 'disambiguation' | 'metadataUnavailable'>;
+
+function enrichmentOf({ wikidataId, swissScore, swissSignals, metadata, topic, disambiguation, metadataUnavailable }: Article): Enrichment {
+  return { wikidataId, swissScore, swissSignals, metadata, topic, disambiguation, metadataUnavailable };
+}
+
+const sameRows = (a: Article[], b: Article[]) => a.length === b.length && a.every((row, i) => rowKey(row) === rowKey(b[i]));
+
+/**
+ * Enrichissement à l'affichage d'un classement complet (pertinence suisse, métadonnées) :
+ * les lignes signalées par `showRows` sont chargées une fois chacune, après le défilement.
+ * Les enrichissements dépendent du seul wiki et survivent donc aux rechargements du classement.
+ */
+export function useLazyEnrichment(language: LanguageSelection) {
+  const [visibleRows, setVisibleRows] = useState<Article[]>([]);
+  const [enrichments, setEnrichments] = useState<Map<string, Enrichment>>(new Map());
+  const requested = useRef(new Set<string>());
+  const controller = useRef(new AbortController());
+
+  useEffect(() => {
+    requested.current = new Set();
+    controller.current = new AbortController();
+    setEnrichments(new Map());
+    return () => controller.current.abort();
+  }, [language]);
+
+  useEffect(() => {
+    const pending = visibleRows.filter(row => !row.metadata && !requested.current.has(rowKey(row)));
+    if (pending.length === 0) return;
+
+    const timer = setTimeout(() => {
+      const { signal } = controller.current;
+      pending.forEach(row => requested.current.add(rowKey(row)));
+
+      enrichVisibleArticles(pending, language, signal)
+        .then(result => {
+          if (signal.aborted) return;
+          setEnrichments(current => {
+            const next = new Map(current);
+            result.forEach(article => next.set(rowKey(article), enrichmentOf(article)));
+            return next;
+          });
+        })
+        .catch(error => {
+          if (isAbortError(error)) return;
+          console.error('Error enriching visible rows:', error);
+          pending.forEach(row => requested.current.delete(rowKey(row)));
+        });
+    }, ENRICH_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [visibleRows, language]);
+
+  /** Lignes actuellement affichées ; sans effet si elles n'ont pas changé */
+  const showRows = useCallback((rows: Article[]) => {
+    setVisibleRows(current => (sameRows(current, rows) ? current : rows));
+  }, []);
+
+  /** Classement complété des enrichissements déjà chargés */
+  const apply = useCallback((articles: Article[]) => articles.map(article => {
+    const enrichment = enrichments.get(rowKey(article));
+    return enrichment && !article.metadata ? { ...article, ...enrichment } : article;
+  }), [enrichments]);
+
+  return { showRows, apply };
+}
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getLatestAvailableDate } from '../api';
+import { ViewState, parseViewState, serializeViewState } from '../urlState';
+
+function readLocation(): ViewState {
+  return parseViewState(new URLSearchParams(window.location.search), getLatestAvailableDate());
+}
+
+function buildLocation(state: ViewState): string {
+  const query = serializeViewState(state).toString();
+  return `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+}
+
+/**
+ * État de la vue synchronisé avec l'URL : chaque changement ajoute une entrée
+ * d'historique, les boutons précédent / suivant restaurent la vue correspondante.
+ */
+export function useViewState(): [ViewState, (changes: Partial<ViewState>) => void] {
+  const [state, setState] = useState<ViewState>(readLocation);
+
+  // URL canonique au chargement (valeurs invalides ou anciennes retirées), sans nouvelle entrée
+  useEffect(() => {
+    const canonical = buildLocation(readLocation());
+    if (canonical !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+      window.history.replaceState(window.history.state, '', canonical);
+    }
+  }, []);
+
+  useEffect(() => {
+    const handlePopState = () => setState(readLocation());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const update = useCallback((changes: Partial<ViewState>) => {
+    const next = { ...state, ...changes };
+    const location = buildLocation(next);
+    if (location !== buildLocation(state)) {
+      window.history.pushState(null, '', location);
+    }
+    setState(next);
+  }, [state]);
+
+  return [state, update];
+}
@@ -0,0 +1,41 @@
+import { UIEvent, useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * Fenêtre de lignes à rendre dans un conteneur défilant aux lignes de hauteur fixe :
+ * seules les lignes visibles (et `overscan` de part et d'autre) sont dans le DOM.
+ */
+export function useVirtualRows(count: number, rowHeight: number, overscan = 10) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setViewportHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const onScroll = useCallback((event: UIEvent<HTMLElement>) => setScrollTop(event.currentTarget.scrollTop), []);
+
+  const scrollToTop = useCallback(() => {
+    if (containerRef.current) containerRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, []);
+
+  const start = Math.min(count, Math.max(0, Math.floor(scrollTop / rowHeight) - overscan));
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  return {
+    containerRef,
+    onScroll,
+    scrollToTop,
+    start,
+    end,
+    /** Hauteurs des espaces remplaçant les lignes non rendues, avant et après la fenêtre */
+    paddingTop: start * rowHeight,
+    paddingBottom: (count - end) * rowHeight
+  };
+}
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getLatestAvailableDate } from '../api';
+import { loadViewHistory } from '../dataSource';
+import { I18n } from '../i18n';
+import { Language } from '../types';
+import {
+  SpikeAlert,
+  WatchedArticle,
+  WatchlistSettings,
+  detectSpike,
+  loadWatchlist,
+  loadWatchlistSettings,
+  saveWatchlist,
+  saveWatchlistSettings,
+  toggleWatched,
+  watchKey
+} from '../watchlist';
+
+// Historique examiné pour les alertes (référence + dernier jour)
+const ALERT_HISTORY_DAYS = 15;
+const ALERT_CHECK_INTERVAL = 60 * 60 * 1000;
+
+function notify(item: WatchedArticle, spike: SpikeAlert, { t, formatNumber, formatDate }: I18n) {
+  const title = decodeURIComponent(item.article).replace(/_/g, ' ');
+  new Notification(`HelvetiScan — ${title}`, {
+    body: t('watchlist.notification', {
+      views: formatNumber(spike.views),
+      date: formatDate(spike.date),
+      ratio: formatNumber(spike.ratio, { minimumFractionDigits: 1, maximumFractionDigits: 1 }),
+      language: item.language
+    }),
+    tag: `${watchKey(item)}:${spike.date}`
+  });
+}
+
+/**
+ * Liste de suivi persistée dans le navigateur (synchronisée entre onglets),
+ * avec notification (dans la langue de l'interface) lorsqu'un article suivi dépasse le multiple
+ * configuré de sa référence.
+ */
+export function useWatchlist(i18n: I18n) {
+  const [items, setItems] = useState<WatchedArticle[]>(() => loadWatchlist(localStorage));
+  const [settings, setSettings] = useState<WatchlistSettings>(() => loadWatchlistSettings(localStorage));
+
+  useEffect(() => {
+    saveWatchlist(localStorage, items);
+  }, [items]);
+
+  useEffect(() => {
+    saveWatchlistSettings(localStorage, settings);
+  }, [settings]);
+
+  // Modifications faites dans un autre onglet
+  useEffect(() => {
+    const handleStorage = () => {
+      const next = loadWatchlist(localStorage);
+      setItems(current => (JSON.stringify(current) === JSON.stringify(next) ? current : next));
+      setSettings(loadWatchlistSettings(localStorage));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  useEffect(() => {
+    if (items.length === 0 || typeof Notification === 'undefined') return;
+    let cancelled = false;
+
+    const check = async () => {
+      if (Notification.permission !== 'granted') return;
+      const latestDate = getLatestAvailableDate();
+
+      for (const item of items) {
+        try {
+          const history = await loadViewHistory(item.article, item.language, ALERT_HISTORY_DAYS, latestDate);
+          const spike = detectSpike(history, settings.alertMultiple);
+          if (cancelled || !spike || spike.date === item.notifiedFor) continue;
+
+          notify(item, spike, i18n);
+          setItems(current => current.map(entry =>
+            watchKey(entry) === watchKey(item) ? { ...entry, notifiedFor: spike.date } : entry
+          ));
+        } catch (error) {
+          console.error(`Error checking watchlist alert for ${item.article}:`, error);
+        }
+      }
+    };
+
+    check();
+    const timer = setInterval(check, ALERT_CHECK_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [items, settings.alertMultiple, i18n]);
+
+  const toggle = useCallback((article: string, language: Language) => {
+    setItems(current => toggleWatched(current, article, language));
+  }, []);
+
+  const isWatched = useCallback(
+    (article: string, language: Language) => items.some(item => watchKey(item) === watchKey({ article, language })),
+    [items]
+  );
+
+  return { items, settings, setSettings, toggle, isWatched };
+}
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NotFoundError, ParseError, RateLimitError } from './errors';
+import { configureHttp, fetchFromAPI, subscribeToRevalidation } from './http';
+
+function jsonResponse(data: unknown): Response {
+  return { ok: true, status: 200, statusText: 'OK', json: async () => data } as Response;
+}
+
+function errorResponse(status: number, headers: Record<string, string> = {}): Response {
+  return { ok: false, status, statusText: 'Error', headers: new Headers(headers), json: async () => ({}) } as Response;
+}
+
+const fetchMock = vi.fn();
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock);
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date(2026, 2, 15, 12));
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('fetchFromAPI', () => {
+  it('coalesces identical requests in flight', async () => {
+    let resolve: (value: Response) => void = () => {};
+    fetchMock.mockReturnValueOnce(new Promise<Response>(r => { resolve = r; }));
+
+    const first = fetchFromAPI('https://example.org/coalesce');
+    const second = fetchFromAPI('https://example.org/coalesce');
+    await Promise.resolve();
+    resolve(jsonResponse({ value: 1 }));
+
+    expect(await first).toEqual({ value: 1 });
+    expect(await second).toEqual({ value: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves fresh entries from cache', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ value: 1 }));
+
+    await fetchFromAPI('https://example.org/fresh');
+    expect(await fetchFromAPI('https://example.org/fresh')).toEqual({ value: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves stale entries immediately, then revalidates and notifies subscribers', async () => {
+    const url = 'https://example.org/stale';
+    const listener = vi.fn();
+    const unsubscribe = subscribeToRevalidation(listener);
+
+    fetchMock.mockResolvedValueOnce(jsonResponse({ value: 1 }));
+    await fetchFromAPI(url);
+
+    vi.setSystemTime(new Date(2026, 2, 15, 13));
+    fetchMock.mockResolvedValueOnce(jsonResponse({ value: 2 }));
+
+    expect(await fetchFromAPI(url)).toEqual({ value: 1 });
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith(url));
+    expect(await fetchFromAPI(url)).toEqual({ value: 2 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+  });
+
+  it('routes requests through the backend proxy, keyed by the upstream URL', async () => {
+    const url = 'https://example.org/proxied';
+    configureHttp({ proxy: 'http://localhost:8787/api/proxy', userAgent: 'HelvetiScan-test (ops@example.org)' });
+    fetchMock.mockResolvedValueOnce(jsonResponse({ value: 1 }));
+
+    try {
+      expect(await fetchFromAPI(url)).toEqual({ value: 1 });
+      expect(fetchMock).toHaveBeenCalledWith(
+        `http://localhost:8787/api/proxy?url=${encodeURIComponent(url)}`,
+        { headers: { 'User-Agent': 'HelvetiScan-test (ops@example.org)' }, signal: expect.any(AbortSignal) }
+      );
+      configureHttp({ proxy: null });
+      expect(await fetchFromAPI(url)).toEqual({ value: 1 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    } finally {
+      configureHttp({ proxy: null });
+    }
+  });
+
+  it('fails at once on missing data instead of retrying', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fetchMock.mockResolvedValue(errorResponse(404));
+
+    await expect(fetchFromAPI('https://example.org/missing')).rejects.toBeInstanceOf(NotFoundError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for Retry-After when rate limited, then retries', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fetchMock
+      .mockResolvedValueOnce(errorResponse(429, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(jsonResponse({ value: 1 }));
+
+    expect(await fetchFromAPI('https://example.org/limited')).toEqual({ value: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up when the requested delay is too long', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fetchMock.mockResolvedValue(errorResponse(429, { 'Retry-After': '3600' }));
+
+    const error = await fetchFromAPI('https://example.org/throttled').catch(err => err);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toMatchObject({ retryAfter: 3600 * 1000 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports unreadable responses', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 200, statusText: 'OK', json: async () => { throw new SyntaxError('Unexpected token'); } } as unknown as Response);
+
+    await expect(fetchFromAPI('https://example.org/garbled')).rejects.toBeInstanceOf(ParseError);
+  });
+
+  it('aborts a shared request only once every caller has given up', async () => {
+    let upstreamSignal: AbortSignal | undefined;
+    fetchMock.mockImplementation((_url: string, init: RequestInit) => {
+      upstreamSignal = init.signal ?? undefined;
+      return new Promise<Response>(() => {});
+    });
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const firstRequest = fetchFromAPI('https://example.org/abandoned', first.signal);
+    const secondRequest = fetchFromAPI('https://example.org/abandoned', second.signal);
+    await vi.waitFor(() => expect(upstreamSignal).toBeDefined());
+
+    first.abort();
+    await expect(firstRequest).rejects.toMatchObject({ name: 'AbortError' });
+    expect(upstreamSignal?.aborted).toBe(false);
+
+    second.abort();
+    await expect(secondRequest).rejects.toMatchObject({ name: 'AbortError' });
+    expect(upstreamSignal?.aborted).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,204 @@
+import { CacheEntry, createLruCache, getCacheTtl, readPersistedEntry, writePersistedEntry } from './cache';
+import { NetworkError, ParseError, RateLimitError, errorFromResponse, isAbortError } from './errors';
+
+const DEFAULT_USER_AGENT = "HelvetiScan/1.0 (educational project)";
+
+export interface HttpOptions {
+  /** User-Agent envoyé à Wikimedia ; les navigateurs peuvent imposer le leur */
+  userAgent?: string;
+  /** Proxy du backend (`/api/proxy`) relayant les requêtes, null pour interroger Wikimedia directement */
+  proxy?: string | null;
+}
+
+let userAgent = DEFAULT_USER_AGENT;
+let proxy: string | null = null;
+
+/**
+ * Règle l'identification et l'acheminement des requêtes (mode direct ou via le backend)
+ */
+export function configureHttp(options: HttpOptions): void {
+  userAgent = options.userAgent ?? userAgent;
+  if (options.proxy !== undefined) proxy = options.proxy;
+}
+
+// Cache mémoire LRU, adossé à IndexedDB pour survivre aux rechargements
+const MAX_CACHE_SIZE = 200;
+const memoryCache = createLruCache<CacheEntry>(MAX_CACHE_SIZE);
+
+// Requêtes en cours, partagées entre appelants identiques. Une requête n'est annulée
+// que lorsque tous ses appelants y ont renoncé.
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  callers: number;
+}
+const inFlightRequests = new Map<string, InFlightRequest>();
+
+// Tentatives par requête, et attente maximale acceptée d'un `Retry-After` avant d'abandonner
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY = 1000;
+const MAX_RETRY_AFTER = 30 * 1000;
+
+const revalidationListeners = new Set<(url: string) => void>();
+
+/**
+ * S'abonne aux rafraîchissements en arrière-plan ayant modifié une réponse déjà servie.
+ * Retourne la fonction de désabonnement.
+ */
+export function subscribeToRevalidation(listener: (url: string) => void): () => void {
+  revalidationListeners.add(listener);
+  return () => {
+    revalidationListeners.delete(listener);
+  };
+}
+
+/**
+ * Récupère les données depuis l'API avec cache et retry.
+ * Une réponse expirée est servie immédiatement puis rafraîchie en arrière-plan
+ * (stale-while-revalidate) ; les abonnés sont prévenus si elle a changé.
+ * Les échecs sont typés (voir `errors.ts`) ; `signal` annule l'attente de l'appelant.
+ */
+export async function fetchFromAPI<T = unknown>(url: string, signal?: AbortSignal): Promise<T> {
+  signal?.throwIfAborted();
+
+  let cached = memoryCache.get(url);
+  if (!cached) {
+    cached = await readPersistedEntry(url);
+    if (cached) memoryCache.set(url, cached);
+  }
+
+  if (cached) {
+    if (Date.now() >= cached.expiresAt) {
+      refresh(url, cached).catch(error => console.error(`Background refresh failed for ${url}:`, error));
+    }
+    return cached.data as T;
+  }
+
+  return refresh(url, undefined, signal) as Promise<T>;
+}
+
+/**
+ * Télécharge une réponse et met le cache à jour ; les appels simultanés sont fusionnés
+ */
+function refresh(url: string, stale?: CacheEntry, signal?: AbortSignal): Promise<unknown> {
+  let request = inFlightRequests.get(url);
+  if (!request) {
+    const controller = new AbortController();
+    const promise: Promise<unknown> = fetchWithRetry(url, controller.signal)
+      .then(data => {
+        const now = Date.now();
+        const entry: CacheEntry = { data, timestamp: now, expiresAt: now + getCacheTtl(url, data) };
+        memoryCache.set(url, entry);
+        writePersistedEntry(url, entry);
+
+        if (stale && JSON.stringify(stale.data) !== JSON.stringify(data)) {
+          revalidationListeners.forEach(listener => listener(url));
+        }
+
+        return data;
+      })
+      .finally(() => {
+        if (inFlightRequests.get(url)?.promise === promise) inFlightRequests.delete(url);
+      });
+    request = { promise, controller, callers: 0 };
+    inFlightRequests.set(url, request);
+  }
+
+  return follow(url, request, signal);
+}
+
+/**
+ * Attend une requête partagée ; l'abandon du dernier appelant l'annule
+ */
+function follow(url: string, request: InFlightRequest, signal?: AbortSignal): Promise<unknown> {
+  request.callers++;
+  if (!signal) return request.promise;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      request.callers--;
+      if (request.callers === 0) {
+        // Un nouvel appelant ne doit pas rejoindre une requête annulée
+        if (inFlightRequests.get(url) === request) inFlightRequests.delete(url);
+        request.controller.abort(signal.reason);
+      }
+      reject(signal.reason);
+    };
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    request.promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Attente interrompue par l'annulation de la requête
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Une requête, avec son échec typé
+ */
+async function fetchJson(url: string, signal: AbortSignal): Promise<unknown> {
+  // Le cache reste indexé par l'URL Wikimedia, quel que soit l'acheminement
+  const target = proxy ? `${proxy}?url=${encodeURIComponent(url)}` : url;
+  let response: Response;
+  try {
+    response = await fetch(target, {
+      headers: { 'User-Agent': userAgent },
+      signal
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`Network error for ${url}:`, error);
+    throw new NetworkError(url);
+  }
+
+  if (!response.ok) {
+    throw errorFromResponse(response, url);
+  }
+
+  try {
+    return await response.json();
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new ParseError(url);
+  }
+}
+
+/**
+ * Requête réseau avec retry et backoff exponentiel. Seuls les échecs passagers sont retentés :
+ * erreurs réseau et serveur, et limitation de débit (après le délai `Retry-After` s'il est raisonnable).
+ * Une page absente, une requête refusée ou une réponse illisible échouent aussitôt.
+ */
+async function fetchWithRetry(url: string, signal: AbortSignal): Promise<unknown> {
+  let delay = RETRY_DELAY;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fetchJson(url, signal);
+    } catch (error) {
+      const retryable = error instanceof NetworkError ||
+        (error instanceof RateLimitError && (error.retryAfter ?? 0) <= MAX_RETRY_AFTER);
+      if (!retryable || attempt >= MAX_ATTEMPTS) throw error;
+
+      const wait = error instanceof RateLimitError ? error.retryAfter ?? delay : delay;
+      console.error(`Attempt ${attempt} failed for ${url}, retrying in ${wait} ms:`, error);
+      await sleep(wait, signal);
+      delay *= 2;
+    }
+  }
+}
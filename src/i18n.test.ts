@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { createI18n, resolveUiLanguage } from './i18n';
+
+describe('createI18n', () => {
+  it('translates and interpolates messages', () => {
+    expect(createI18n('de').t('tab.watchlist', { count: 3 })).toBe('Beobachtet (3)');
+    expect(createI18n('fr').t('tab.watchlist', { count: 3 })).toBe('Suivis (3)');
+  });
+
+  it('leaves unknown placeholders untouched', () => {
+    expect(createI18n('en').t('topic.views')).toBe('{views} views over the period');
+  });
+
+  it('formats numbers with Swiss conventions', () => {
+    expect(createI18n('de').formatNumber(1234567)).toBe('1’234’567');
+    expect(createI18n('fr').formatNumber(1234567)).toMatch(/^1\s234\s567$/);
+  });
+
+  it('formats days in the local calendar', () => {
+    expect(createI18n('de').formatDate('2026-03-01')).toBe('01.03.2026');
+  });
+});
+
+describe('resolveUiLanguage', () => {
+  it('follows the wiki language until a language is chosen', () => {
+    expect(resolveUiLanguage(null, 'de')).toBe('de');
+    expect(resolveUiLanguage('it', 'de')).toBe('it');
+  });
+
+  it('falls back on the browser languages for wikis without an interface', () => {
+    expect(resolveUiLanguage(null, 'ch', ['es-ES', 'en-GB'])).toBe('en');
+    expect(resolveUiLanguage(null, 'es', ['es-ES'])).toBe('fr');
+    expect(resolveUiLanguage('xx', 'ch')).toBe('fr');
+  });
+});
@@ -0,0 +1,88 @@
+import { fr } from './locales/fr';
+import { de } from './locales/de';
+import { it } from './locales/it';
+import { en } from './locales/en';
+import { rm } from './locales/rm';
+import { LanguageSelection } from './types';
+
+/** Langue de l'interface, indépendante du wiki consulté */
+export type UiLanguage = 'fr' | 'de' | 'it' | 'en' | 'rm';
+
+export type MessageKey = keyof typeof fr;
+export type Messages = Record<MessageKey, string>;
+
+export const UI_LANGUAGES: UiLanguage[] = ['fr', 'de', 'it', 'rm', 'en'];
+
+export const UI_LANGUAGE_NAMES: Record<UiLanguage, string> = {
+  fr: 'Français',
+  de: 'Deutsch',
+  it: 'Italiano',
+  rm: 'Rumantsch',
+  en: 'English'
+};
+
+const CATALOGUES: Record<UiLanguage, Messages> = { fr, de, it, en, rm };
+
+/**
+ * Locales suisses de formatage des nombres et des dates ; le romanche, peu couvert
+ * par les moteurs Intl, se rabat sur le format suisse alémanique.
+ */
+export const UI_LOCALES: Record<UiLanguage, string[]> = {
+  fr: ['fr-CH'],
+  de: ['de-CH'],
+  it: ['it-CH'],
+  en: ['en-CH'],
+  rm: ['rm-CH', 'de-CH']
+};
+
+export interface I18n {
+  language: UiLanguage;
+  /** Message traduit, `{nom}` étant remplacé par `params.nom` */
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  /** Part (0 à 1) en pourcentage entier */
+  formatPercent: (share: number) => string;
+  /** Jour au format `yyyy-MM-dd` ou date, en style moyen sauf `options` */
+  formatDate: (value: string | Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatDateTime: (value: Date) => string;
+}
+
+export function isUiLanguage(value: unknown): value is UiLanguage {
+  return typeof value === 'string' && (UI_LANGUAGES as string[]).includes(value);
+}
+
+export function createI18n(language: UiLanguage): I18n {
+  const messages = CATALOGUES[language];
+  const locales = UI_LOCALES[language];
+  const percentFormat = new Intl.NumberFormat(locales, { style: 'percent', maximumFractionDigits: 0 });
+  const dateFormat = new Intl.DateTimeFormat(locales, { dateStyle: 'medium' });
+  const dateTimeFormat = new Intl.DateTimeFormat(locales, { dateStyle: 'medium', timeStyle: 'short' });
+
+  return {
+    language,
+    t: (key, params = {}) =>
+      (messages[key] ?? fr[key]).replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        name in params ? String(params[name]) : placeholder
+      ),
+    formatNumber: (value, options) => value.toLocaleString(locales, options),
+    formatPercent: share => percentFormat.format(share),
+    // Un jour seul est interprété en UTC par le constructeur Date : on le lit en heure locale
+    formatDate: (value, options) => (options ? new Intl.DateTimeFormat(locales, options) : dateFormat)
+      .format(typeof value === 'string' ? new Date(`${value}T00:00:00`) : value),
+    formatDateTime: value => dateTimeFormat.format(value)
+  };
+}
+
+/**
+ * Langue d'interface à utiliser : le choix enregistré, sinon celle du wiki consulté
+ * lorsqu'elle existe, sinon la première langue du navigateur disponible, sinon le français.
+ */
+export function resolveUiLanguage(
+  stored: string | null,
+  dataLanguage: LanguageSelection,
+  browserLanguages: readonly string[] = []
+): UiLanguage {
+  if (isUiLanguage(stored)) return stored;
+  if (isUiLanguage(dataLanguage)) return dataLanguage;
+  return browserLanguages.map(tag => tag.slice(0, 2).toLowerCase()).find(isUiLanguage) ?? 'fr';
+}
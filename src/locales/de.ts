@@ -0,0 +1,206 @@
+import { Messages } from '../i18n';
+
+export const de: Messages = {
+  'language.ch': 'Ganze Schweiz',
+  'uiLanguage.label': 'Sprache der Oberfläche',
+  'dataMode.label': 'Datenquelle',
+  'dataMode.direct': 'Wikimedia direkt',
+  'dataMode.backend': 'HelvetiScan-Backend',
+
+  'tab.mostViewed': 'Meistgelesene Artikel',
+  'tab.trending': 'Aufsteigende Artikel',
+  'tab.watchlist': 'Beobachtet ({count})',
+  'tab.compare': 'Vergleichen',
+  'tab.traffic': 'Verkehr',
+
+  'period.daily': 'Echtzeit',
+  'period.48h': '48 Stunden',
+  'period.weekly': 'Woche',
+  'period.monthly': 'Monat',
+
+  'access.label': 'Zugriffsart',
+  'access.all-access': 'Alle Zugriffe',
+  'access.desktop': 'Computer',
+  'access.mobile-web': 'Mobiles Web',
+  'access.mobile-app': 'App',
+
+  'swiss.none': 'Alle Leserinnen und Leser',
+  'swiss.none.description': 'Aufrufe aus der ganzen Welt in diesem Wiki.',
+  'swiss.readers': 'Leserschaft in der Schweiz',
+  'swiss.readers.description': 'Aufrufe aus der Schweiz (Länderdaten von Wikimedia, gerundete Werte).',
+  'swiss.topics': 'Schweizer Themen',
+  'swiss.topics.description': 'Artikel, deren Wikidata-Objekt mit der Schweiz verknüpft ist (Land, Staatsangehörigkeit, Kanton, Sitz), unabhängig von der Herkunft der Leserschaft.',
+  'swiss.threshold': 'Min. Relevanz',
+  'swiss.badge': 'Schweiz-Bezug (Wikidata): {signals}',
+  'swiss.signal.country': 'Land: Schweiz',
+  'swiss.signal.citizenship': 'Schweizer Staatsangehörigkeit',
+  'swiss.signal.location': 'in einem Schweizer Kanton gelegen',
+  'swiss.signal.headquarters': 'Sitz in der Schweiz',
+  'swiss.signal.origin': 'Schweizer Herkunft',
+  'swiss.signal.birthplace': 'in der Schweiz geboren',
+
+  'filters.latestData': 'Neueste Daten',
+  'filters.minViews': 'Min. Aufrufe',
+  'filters.trendCandidates': 'unter den ersten {count} Artikeln des Zeitraums',
+  'filters.trendCandidatesSwiss': 'unter den ersten {count} Schweizer Themen (Ränge 1 bis {rows})',
+  'filters.showSuspicious': 'Verdächtige Einträge anzeigen ({count})',
+  'filters.search': 'Artikel suchen',
+  'filters.searchResults': '{count} von {total} Artikel(n)',
+  'filters.normalize': 'Am Gesamtverkehr bereinigen',
+  'filters.normalizeDescription': 'Setzt die Aufrufe jedes Tages ins Verhältnis zum Gesamtverkehr des Wikis, damit ein Einbruch über Feiertage oder Ferien nicht wie ein Rückgang aussieht',
+
+  'error.loadArticles': 'Beim Laden der Daten ist ein Fehler aufgetreten. Bitte versuchen Sie es später erneut.',
+  'error.notFound': 'Die Daten für diesen Zeitraum sind von Wikimedia noch nicht veröffentlicht. Wählen Sie ein früheres Datum.',
+  'error.rateLimited': 'Wikimedia begrenzt vorübergehend die Anzahl Anfragen. Versuchen Sie es in einigen Augenblicken erneut.',
+  'error.network': 'Wikimedia ist nicht erreichbar. Prüfen Sie Ihre Verbindung und versuchen Sie es erneut.',
+  'error.parse': 'Wikimedia hat eine unlesbare Antwort geliefert. Bitte versuchen Sie es später erneut.',
+
+  'notice.previousDay': 'Die Daten vom {missing} sind noch nicht veröffentlicht: Rangliste bis {date}.',
+  'notice.partialMetadata': 'Beschreibungen und Themen für {count} Artikel nicht verfügbar: Die Rangliste wird ohne sie angezeigt.',
+  'notice.normalized': 'Aufrufe am Gesamtverkehr des Wikis bereinigt: Jeder Tag wird auf den Durchschnitt der letzten vier Wochen umgerechnet.',
+  'notice.offline': 'Offline – Daten vom {date}. Die Rangliste wird aktualisiert, sobald die Verbindung wieder besteht.',
+
+  'table.rank': 'Rang',
+  'table.article': 'Artikel',
+  'table.views': 'Aufrufe',
+  'table.automatedShare': 'Automatisiert',
+  'table.automatedShareDescription': 'Anteil der von Wikimedia als « automated » eingestuften Aufrufe (analysierte Zeilen). Die Ranglisten zählen nur menschliche Aufrufe: Die Ranglisten-API veröffentlicht nur den Agenten « user », ein Filter nach Agent ist dort daher nicht möglich.',
+  'table.growth': 'Zuwachs',
+  'table.daysInChart': 'Tage',
+  'table.peakRank': 'Bester Rang',
+  'table.watch': 'Artikel beobachten',
+  'table.trendDetails': 'z-Wert: {score} · {expected} erwartete Aufrufe',
+  'table.growthPercentage': 'Zuwachs %',
+  'table.reliability': 'Verlässlichkeit',
+  'table.sort': 'Nach {column} sortieren',
+  'table.noMatch': 'Kein Artikel entspricht der Suche.',
+  'table.edits': 'Bearbeitungen',
+
+  'reliability.high': 'Zuverlässig',
+  'reliability.medium': 'Mittel',
+  'reliability.low': 'Unsicher',
+
+  'movement.previousRank': 'Vorheriger Rang: {rank}',
+  'movement.same': 'Gleicher Rang wie in der Vorperiode',
+  'movement.new': 'Neueinsteiger in der Rangliste',
+  'movement.re-entry': 'Wiedereinstieg in die Rangliste',
+
+  'exclusions.summary': '{count} Zeile(n) durch Ihre Regeln ausgeblendet',
+  'exclusions.reason.blocklist': 'Sperrliste: {count}',
+  'exclusions.reason.disambiguation': 'Begriffsklärungen: {count}',
+  'exclusions.reason.disambiguationPartial': 'Begriffsklärungen: {count} unter den {analyzed} analysierten Zeilen',
+  'exclusions.help': 'Ein Titel oder ein regulärer Ausdruck /Muster/i pro Zeile. Die Zulassungsliste hat Vorrang vor der Sperrliste, dem Ausblenden von Begriffsklärungen und den Ausschlüssen des Wikis.',
+  'exclusions.blocklist': 'Sperrliste',
+  'exclusions.allowlist': 'Zulassungsliste',
+  'exclusions.invalid': 'Ungültige Ausdrücke ignoriert: {entries}',
+  'exclusions.hideDisambiguation': 'Begriffsklärungsseiten ausblenden',
+  'exclusions.site': 'Seiten ausserhalb des Artikelnamensraums (Dateien, Kategorien, Portale…), die Hauptseite und technische Seiten (Cookie, Suche…) jedes Wikis werden ausgeschlossen, ausser die Zulassungsliste behält sie.',
+  'exclusions.siteSummary': '{count} Seite(n) vom Wiki ausgeschlossen',
+  'exclusions.siteCounts': 'Aus dieser Rangliste ausgeschlossene Seiten: {reasons}.',
+  'exclusions.siteReason.namespace': 'keine Artikel: {count}',
+  'exclusions.siteReason.mainPage': 'Hauptseite: {count}',
+  'exclusions.siteReason.technical': 'technische Seiten: {count}',
+  'topic.all': 'Alle Themen ({count})',
+  'topic.facet': '{topic} ({count}) · {share} der Aufrufe',
+  'topic.views': '{views} Aufrufe im Zeitraum',
+  'topic.partial': 'Themen der {count} analysierten von {total} Zeilen: Die weiteren werden beim Anzeigen analysiert.',
+  'topic.politics': 'Politik',
+  'topic.sport': 'Sport',
+  'topic.culture': 'Kultur',
+  'topic.science': 'Wissenschaft',
+  'topic.people': 'Persönlichkeiten',
+  'topic.places': 'Orte',
+  'topic.companies': 'Unternehmen',
+  'topic.deaths': 'Todesfälle',
+  'topic.other': 'Andere',
+
+  'suspicion.badge': 'Verdächtig',
+  'suspicion.title': 'Verdächtiger Verkehr: {flags}',
+  'suspicion.desktop-skew': 'Aufrufe fast nur vom Computer',
+  'suspicion.automated-traffic': 'hoher Anteil automatisierter Zugriffe',
+  'suspicion.flat-profile': 'auffällig gleichmässige Tageswerte',
+  'suspicion.unexplained-spike': 'Spitze ohne jede Bearbeitung des Artikels',
+
+  'edits.summary': '{edits} Bearb. · {editors} Autor.',
+  'edits.driven': 'Live bearbeitet',
+  'edits.drivenTitle': 'Aufrufe und Bearbeitungen steigen gemeinsam: {daily} Bearb./Tag statt üblich {baseline}',
+  'edits.lastSummary': 'Letzte Zusammenfassung: {summary}',
+
+  'export.button': 'Exportieren',
+  'export.download': 'Als {format} herunterladen',
+  'export.copyFeed': '{format}-Link kopieren',
+  'export.copied': 'Link kopiert!',
+
+  'detail.read': 'Auf Wikipedia lesen',
+  'detail.close': 'Schliessen',
+  'detail.historyError': 'Der Aufrufverlauf konnte nicht geladen werden.',
+  'detail.traffic': 'Verteilung der Zugriffe',
+  'detail.robotViews': 'Bots {views} Aufrufe',
+  'detail.edits': 'Bearbeitungsaktivität',
+  'detail.editCount': '{edits} Bearbeitung(en) von {editors} Autor(en) im Zeitraum, üblich sind {baseline} pro Tag',
+  'detail.lastEdit': 'Letzte Bearbeitung: {date}',
+  'detail.dailyViews': 'Tägliche Aufrufe',
+  'detail.rangeDays': '{days} T.',
+  'detail.peak': 'Spitzentag',
+  'detail.median': 'Median',
+  'detail.overDays': 'über {count} Tage',
+  'detail.latestVsAverage': 'Letzter Tag / 30-Tage-Schnitt',
+
+  'agent.user': 'Menschen',
+  'agent.automated': 'Bots',
+  'agent.all-agents': 'Alle',
+
+  'chart.noData': 'Keine Daten verfügbar.',
+  'chart.label': 'Aufrufverlauf',
+  'chart.selectedPeriod': 'Gewählter Zeitraum',
+  'chart.point': '{date}: {views} Aufrufe',
+
+  'watchlist.empty': 'Keine beobachteten Artikel. Klicken Sie auf den Stern einer Zeile der Rangliste, um ihn hinzuzufügen.',
+  'watchlist.alertAbove': 'Alarm ab',
+  'watchlist.multiple': '{value} × dem Normalwert',
+  'watchlist.enableNotifications': 'Benachrichtigungen aktivieren',
+  'watchlist.notificationsBlocked': 'Benachrichtigungen vom Browser blockiert.',
+  'watchlist.latestViews': 'Aufrufe (letzter Tag)',
+  'watchlist.days': '{days} Tage',
+  'watchlist.dailyRank': 'Tagesrang',
+  'watchlist.baseline': 'Referenz: {views} Aufrufe/Tag',
+  'watchlist.unavailable': 'Nicht verfügbar',
+  'watchlist.unwatch': 'Nicht mehr beobachten',
+  'watchlist.notification': '{views} Aufrufe am {date}, also {ratio} × dem Normalwert ({language})',
+
+  'compare.languages': 'Verglichene Wikis:',
+  'compare.minLanguages': 'Mindestens zwei Wikis werden verglichen',
+  'compare.score': 'Divergenz: {score}',
+  'compare.scoreDescription': 'Divergenz: Anteil der Aufmerksamkeit, der sich zwischen den Wikis unterscheidet (0 %: gleiche Lektüre in gleichen Anteilen, 100 %: kein gemeinsamer Artikel). Die Aufmerksamkeit ist der Anteil an den Aufrufen der Rangliste jedes Wikis.',
+  'compare.attention': 'Aufmerksamkeit im Vergleich',
+  'compare.gap': 'Abstand',
+  'compare.divergent': 'Spaltend',
+  'compare.notRanked': 'Nicht in der Rangliste',
+  'compare.views': '{views} Aufrufe',
+  'compare.sharedTrending': 'Gemeinsame Trends',
+  'compare.exclusiveTrending': 'Trends nur in einem Wiki',
+  'compare.none': 'Keine Artikel.',
+  'compare.error': 'Die Wikis konnten nicht verglichen werden. Bitte versuchen Sie es später erneut.',
+
+  'traffic.wiki': 'Wiki:',
+  'traffic.periodViews': 'Aufrufe insgesamt vom {start} bis {end}',
+  'traffic.topShare': 'Anteil der 50 ersten Artikel',
+  'traffic.topShareDescription': 'Anteil der Gesamtaufrufe des Wikis, der auf die 50 meistgelesenen Artikel der Periode entfällt',
+  'traffic.swissShare': 'Anteil der Schweizer Themen',
+  'traffic.swissShareDescription': 'Anteil der Gesamtaufrufe des Wikis, der auf die Artikel mit Schweizer Thema unter diesen 50 entfällt',
+  'traffic.daily': 'Tägliche Aufrufe von {wiki} über ein Jahr',
+  'traffic.weekdays': 'Wochentage',
+  'traffic.months': 'Jahreszeiten',
+  'traffic.monthAverage': 'Durchschnittlich {views} Aufrufe pro Tag',
+  'traffic.patternDescription': 'Durchschnittlicher Verkehr jedes Wochentags und jedes Monats im Verhältnis zum Jahresdurchschnitt (100 %).',
+  'traffic.error': 'Der Verkehr des Wikis konnte nicht geladen werden. Bitte versuchen Sie es später erneut.',
+
+  'widget.title': 'Was die Schweiz auf Wikipedia liest',
+  'widget.loading': 'Wird geladen…',
+  'widget.error': 'Rangliste vorübergehend nicht verfügbar.',
+  'widget.more': 'Ganze Rangliste auf HelvetiScan',
+  'widget.updated': 'Aktualisiert: {date}',
+
+  'footer.source': 'Daten der Wikimedia-Pageviews-API.',
+  'footer.updated': 'Letzte Aktualisierung: {date}'
+};
@@ -0,0 +1,206 @@
+import { Messages } from '../i18n';
+
+export const en: Messages = {
+  'language.ch': 'All of Switzerland',
+  'uiLanguage.label': 'Interface language',
+  'dataMode.label': 'Data source',
+  'dataMode.direct': 'Wikimedia (direct)',
+  'dataMode.backend': 'HelvetiScan backend',
+
+  'tab.mostViewed': 'Most viewed articles',
+  'tab.trending': 'Trending articles',
+  'tab.watchlist': 'Watched ({count})',
+  'tab.compare': 'Compare',
+  'tab.traffic': 'Traffic',
+
+  'period.daily': 'Real time',
+  'period.48h': '48 hours',
+  'period.weekly': 'Week',
+  'period.monthly': 'Month',
+
+  'access.label': 'Access method',
+  'access.all-access': 'All access methods',
+  'access.desktop': 'Desktop',
+  'access.mobile-web': 'Mobile web',
+  'access.mobile-app': 'App',
+
+  'swiss.none': 'All readers',
+  'swiss.none.description': 'Reads from around the world on this wiki.',
+  'swiss.readers': 'Readers in Switzerland',
+  'swiss.readers.description': 'Reads from Switzerland (Wikimedia per-country data, rounded views).',
+  'swiss.topics': 'Swiss topics',
+  'swiss.topics.description': 'Articles whose Wikidata item is linked to Switzerland (country, citizenship, canton, headquarters), wherever the readers are.',
+  'swiss.threshold': 'Min. relevance',
+  'swiss.badge': 'Swiss relevance (Wikidata): {signals}',
+  'swiss.signal.country': 'country: Switzerland',
+  'swiss.signal.citizenship': 'Swiss citizenship',
+  'swiss.signal.location': 'located in a Swiss canton',
+  'swiss.signal.headquarters': 'headquartered in Switzerland',
+  'swiss.signal.origin': 'Swiss origin',
+  'swiss.signal.birthplace': 'born in Switzerland',
+
+  'filters.latestData': 'Latest data',
+  'filters.minViews': 'Min. views',
+  'filters.trendCandidates': 'among the top {count} articles of the period',
+  'filters.trendCandidatesSwiss': 'among the top {count} Swiss topics (ranks 1 to {rows})',
+  'filters.showSuspicious': 'Show suspicious entries ({count})',
+  'filters.search': 'Search articles',
+  'filters.searchResults': '{count} of {total} article(s)',
+  'filters.normalize': 'Adjust for total traffic',
+  'filters.normalizeDescription': 'Scales each day\'s views by the wiki\'s total traffic, so a holiday dip does not look like a decline',
+
+  'error.loadArticles': 'Something went wrong while loading the data. Please try again later.',
+  'error.notFound': 'Wikimedia has not published the data for this period yet. Pick an earlier date.',
+  'error.rateLimited': 'Wikimedia is temporarily limiting requests. Please try again in a moment.',
+  'error.network': 'Wikimedia could not be reached. Check your connection and try again.',
+  'error.parse': 'Wikimedia returned an unreadable response. Please try again later.',
+
+  'notice.previousDay': 'Data for {missing} is not published yet: ranking up to {date}.',
+  'notice.partialMetadata': 'Descriptions and topics are unavailable for {count} article(s): the ranking is shown without them.',
+  'notice.normalized': 'Views adjusted for the wiki\'s total traffic: each day is scaled to the average of the last four weeks.',
+  'notice.offline': 'Offline – data from {date}. The ranking will refresh as soon as the connection returns.',
+
+  'table.rank': 'Rank',
+  'table.article': 'Article',
+  'table.views': 'Views',
+  'table.automatedShare': 'Automated',
+  'table.automatedShareDescription': 'Share of views classified as "automated" by Wikimedia (analysed rows). Rankings only count human views: the top-list API only publishes the "user" agent, so filtering rankings by agent is not possible.',
+  'table.growth': 'Growth',
+  'table.daysInChart': 'Days',
+  'table.peakRank': 'Peak rank',
+  'table.watch': 'Watch article',
+  'table.trendDetails': 'z-score: {score} · {expected} expected views',
+  'table.growthPercentage': 'Growth %',
+  'table.reliability': 'Reliability',
+  'table.sort': 'Sort by {column}',
+  'table.noMatch': 'No article matches the search.',
+  'table.edits': 'Edits',
+
+  'reliability.high': 'Reliable',
+  'reliability.medium': 'Medium',
+  'reliability.low': 'Uncertain',
+
+  'movement.previousRank': 'Previous rank: {rank}',
+  'movement.same': 'Same rank as the previous period',
+  'movement.new': 'New entry in the chart',
+  'movement.re-entry': 'Back in the chart',
+
+  'exclusions.summary': '{count} row(s) hidden by your rules',
+  'exclusions.reason.blocklist': 'blocklist: {count}',
+  'exclusions.reason.disambiguation': 'disambiguation: {count}',
+  'exclusions.reason.disambiguationPartial': 'disambiguation: {count} among the {analyzed} analysed rows',
+  'exclusions.help': 'One title or /pattern/i regular expression per line. The allowlist takes precedence over the blocklist, over hiding disambiguation pages and over the wiki\'s exclusions.',
+  'exclusions.blocklist': 'Blocklist',
+  'exclusions.allowlist': 'Allowlist',
+  'exclusions.invalid': 'Invalid expressions ignored: {entries}',
+  'exclusions.hideDisambiguation': 'Hide disambiguation pages',
+  'exclusions.site': 'Pages outside the article namespace (files, categories, portals…), the main page and technical pages (Cookie, Search…) of each wiki are excluded unless the allowlist keeps them.',
+  'exclusions.siteSummary': '{count} page(s) excluded by the wiki',
+  'exclusions.siteCounts': 'Pages excluded from this ranking: {reasons}.',
+  'exclusions.siteReason.namespace': 'non-articles: {count}',
+  'exclusions.siteReason.mainPage': 'main page: {count}',
+  'exclusions.siteReason.technical': 'technical pages: {count}',
+  'topic.all': 'All topics ({count})',
+  'topic.facet': '{topic} ({count}) · {share} of views',
+  'topic.views': '{views} views over the period',
+  'topic.partial': 'Topics of the {count} analysed rows out of {total}: the others are analysed as they come into view.',
+  'topic.politics': 'Politics',
+  'topic.sport': 'Sport',
+  'topic.culture': 'Culture',
+  'topic.science': 'Science',
+  'topic.people': 'People',
+  'topic.places': 'Places',
+  'topic.companies': 'Companies',
+  'topic.deaths': 'Deaths',
+  'topic.other': 'Other',
+
+  'suspicion.badge': 'Suspicious',
+  'suspicion.title': 'Suspicious traffic: {flags}',
+  'suspicion.desktop-skew': 'views almost exclusively from desktop',
+  'suspicion.automated-traffic': 'high share of automated traffic',
+  'suspicion.flat-profile': 'unusually constant daily views',
+  'suspicion.unexplained-spike': 'spike without any edit to the article',
+
+  'edits.summary': '{edits} edits · {editors} editors',
+  'edits.driven': 'Edit-driven',
+  'edits.drivenTitle': 'Views and edits rising together: {daily} edits/day against {baseline} usually',
+  'edits.lastSummary': 'Latest summary: {summary}',
+
+  'export.button': 'Export',
+  'export.download': 'Download as {format}',
+  'export.copyFeed': 'Copy {format} link',
+  'export.copied': 'Link copied!',
+
+  'detail.read': 'Read on Wikipedia',
+  'detail.close': 'Close',
+  'detail.historyError': 'Could not load the view history.',
+  'detail.traffic': 'Traffic breakdown',
+  'detail.robotViews': 'Bots {views} views',
+  'detail.edits': 'Edit activity',
+  'detail.editCount': '{edits} edit(s) by {editors} editor(s) over the period, against {baseline} per day usually',
+  'detail.lastEdit': 'Latest edit: {date}',
+  'detail.dailyViews': 'Daily views',
+  'detail.rangeDays': '{days} d',
+  'detail.peak': 'Peak day',
+  'detail.median': 'Median',
+  'detail.overDays': 'over {count} days',
+  'detail.latestVsAverage': 'Last day / 30-day average',
+
+  'agent.user': 'Humans',
+  'agent.automated': 'Bots',
+  'agent.all-agents': 'All',
+
+  'chart.noData': 'No data available.',
+  'chart.label': 'View history',
+  'chart.selectedPeriod': 'Selected period',
+  'chart.point': '{date}: {views} views',
+
+  'watchlist.empty': 'No watched articles. Click the star on a chart row to add one.',
+  'watchlist.alertAbove': 'Alert above',
+  'watchlist.multiple': '{value} × normal',
+  'watchlist.enableNotifications': 'Enable notifications',
+  'watchlist.notificationsBlocked': 'Notifications blocked by the browser.',
+  'watchlist.latestViews': 'Views (last day)',
+  'watchlist.days': '{days} days',
+  'watchlist.dailyRank': 'Daily rank',
+  'watchlist.baseline': 'Baseline: {views} views/day',
+  'watchlist.unavailable': 'Unavailable',
+  'watchlist.unwatch': 'Stop watching',
+  'watchlist.notification': '{views} views on {date}, {ratio} × normal ({language})',
+
+  'compare.languages': 'Compared wikis:',
+  'compare.minLanguages': 'At least two wikis are compared',
+  'compare.score': 'Divergence: {score}',
+  'compare.scoreDescription': 'Divergence: share of attention that differs between the wikis (0%: same reading in the same proportions, 100%: no article in common). Attention is the share of each wiki\'s ranked views.',
+  'compare.attention': 'Attention compared',
+  'compare.gap': 'Gap',
+  'compare.divergent': 'Divisive',
+  'compare.notRanked': 'Not ranked',
+  'compare.views': '{views} views',
+  'compare.sharedTrending': 'Shared trends',
+  'compare.exclusiveTrending': 'Trends in a single wiki',
+  'compare.none': 'No articles.',
+  'compare.error': 'Unable to compare the wikis. Please try again later.',
+
+  'traffic.wiki': 'Wiki:',
+  'traffic.periodViews': 'Total views from {start} to {end}',
+  'traffic.topShare': 'Share of the top 50 articles',
+  'traffic.topShareDescription': 'Share of the wiki\'s total views captured by the 50 most-viewed articles of the period',
+  'traffic.swissShare': 'Share of Swiss topics',
+  'traffic.swissShareDescription': 'Share of the wiki\'s total views captured by the Swiss-topic articles among these 50',
+  'traffic.daily': 'Daily views of {wiki} over a year',
+  'traffic.weekdays': 'Days of the week',
+  'traffic.months': 'Seasons',
+  'traffic.monthAverage': '{views} views per day on average',
+  'traffic.patternDescription': 'Average traffic of each day of the week and each month, relative to the yearly average (100%).',
+  'traffic.error': 'Unable to load the wiki\'s traffic. Please try again later.',
+
+  'widget.title': 'What Switzerland is reading on Wikipedia',
+  'widget.loading': 'Loading…',
+  'widget.error': 'Ranking temporarily unavailable.',
+  'widget.more': 'Full ranking on HelvetiScan',
+  'widget.updated': 'Updated: {date}',
+
+  'footer.source': 'Data from the Wikimedia Pageviews API.',
+  'footer.updated': 'Last updated: {date}'
+};
@@ -0,0 +1,205 @@
+/** Catalogue de référence : les autres langues doivent en reprendre toutes les clés */
+export const fr = {
+  'language.ch': 'Toute la Suisse',
+  'uiLanguage.label': 'Langue de l\'interface',
+  'dataMode.label': 'Source des données',
+  'dataMode.direct': 'Wikimedia en direct',
+  'dataMode.backend': 'Backend HelvetiScan',
+
+  'tab.mostViewed': 'Articles les plus consultés',
+  'tab.trending': 'Articles en progression',
+  'tab.watchlist': 'Suivis ({count})',
+  'tab.compare': 'Comparer',
+  'tab.traffic': 'Trafic',
+
+  'period.daily': 'Temps réel',
+  'period.48h': '48 heures',
+  'period.weekly': 'Semaine',
+  'period.monthly': 'Mois',
+
+  'access.label': 'Mode d\'accès',
+  'access.all-access': 'Tous les accès',
+  'access.desktop': 'Ordinateur',
+  'access.mobile-web': 'Web mobile',
+  'access.mobile-app': 'Application',
+
+  'swiss.none': 'Tous les internautes',
+  'swiss.none.description': 'Lectures du monde entier sur ce wiki.',
+  'swiss.readers': 'Internautes en Suisse',
+  'swiss.readers.description': 'Lectures effectuées depuis la Suisse (données par pays Wikimedia, vues arrondies).',
+  'swiss.topics': 'Sujets suisses',
+  'swiss.topics.description': 'Articles dont l\'élément Wikidata est lié à la Suisse (pays, nationalité, canton, siège), quelle que soit l\'origine des lecteurs.',
+  'swiss.threshold': 'Pertinence min.',
+  'swiss.badge': 'Pertinence suisse (Wikidata) : {signals}',
+  'swiss.signal.country': 'pays : Suisse',
+  'swiss.signal.citizenship': 'nationalité suisse',
+  'swiss.signal.location': 'situé dans un canton suisse',
+  'swiss.signal.headquarters': 'siège en Suisse',
+  'swiss.signal.origin': 'origine suisse',
+  'swiss.signal.birthplace': 'né·e en Suisse',
+
+  'filters.latestData': 'Dernières données',
+  'filters.minViews': 'Vues min.',
+  'filters.trendCandidates': 'parmi les {count} premiers articles de la période',
+  'filters.trendCandidatesSwiss': 'parmi les {count} premiers sujets suisses (rangs 1 à {rows})',
+  'filters.showSuspicious': 'Afficher les entrées suspectes ({count})',
+  'filters.search': 'Rechercher un article',
+  'filters.searchResults': '{count} article(s) sur {total}',
+  'filters.normalize': 'Corriger du trafic total',
+  'filters.normalizeDescription': 'Rapporte les vues de chaque jour au trafic total du wiki, pour qu\'un creux de fêtes ou de vacances ne ressemble pas à un recul',
+
+  'error.loadArticles': 'Une erreur est survenue lors du chargement des données. Veuillez réessayer plus tard.',
+  'error.notFound': 'Les données de cette période ne sont pas encore publiées par Wikimedia. Choisissez une date antérieure.',
+  'error.rateLimited': 'Wikimedia limite temporairement le nombre de requêtes. Réessayez dans quelques instants.',
+  'error.network': 'Impossible de joindre Wikimedia. Vérifiez votre connexion puis réessayez.',
+  'error.parse': 'Wikimedia a renvoyé une réponse illisible. Réessayez plus tard.',
+
+  'notice.previousDay': 'Les données du {missing} ne sont pas encore publiées : classement jusqu\'au {date}.',
+  'notice.partialMetadata': 'Descriptions et thèmes indisponibles pour {count} article(s) : le classement est affiché sans eux.',
+  'notice.normalized': 'Vues corrigées du trafic total du wiki : chaque jour est ramené à la moyenne des quatre dernières semaines.',
+  'notice.offline': 'Hors ligne – données du {date}. Le classement sera actualisé dès le retour de la connexion.',
+
+  'table.rank': 'Rang',
+  'table.article': 'Article',
+  'table.views': 'Vues',
+  'table.automatedShare': 'Automatisé',
+  'table.automatedShareDescription': 'Part des vues classées « automated » par Wikimedia (lignes analysées). Les classements ne comptent que les lectures humaines : l\'API des classements ne publie que l\'agent « user », un filtre par agent y est donc impossible.',
+  'table.growth': 'Progression',
+  'table.daysInChart': 'Jours',
+  'table.peakRank': 'Meilleur rang',
+  'table.watch': 'Suivre l\'article',
+  'table.trendDetails': 'Score z : {score} · {expected} vues attendues',
+  'table.growthPercentage': 'Progression %',
+  'table.reliability': 'Fiabilité',
+  'table.sort': 'Trier par {column}',
+  'table.noMatch': 'Aucun article ne correspond à la recherche.',
+  'table.edits': 'Modifications',
+
+  'reliability.high': 'Fiable',
+  'reliability.medium': 'Moyenne',
+  'reliability.low': 'Incertaine',
+
+  'movement.previousRank': 'Rang précédent : {rank}',
+  'movement.same': 'Même rang que la période précédente',
+  'movement.new': 'Nouvelle entrée dans le classement',
+  'movement.re-entry': 'Retour dans le classement',
+
+  'exclusions.summary': '{count} ligne(s) masquée(s) par vos règles',
+  'exclusions.reason.blocklist': 'liste noire : {count}',
+  'exclusions.reason.disambiguation': 'homonymies : {count}',
+  'exclusions.reason.disambiguationPartial': 'homonymies : {count} parmi les {analyzed} lignes analysées',
+  'exclusions.help': 'Un titre ou une expression régulière /motif/i par ligne. La liste blanche l\'emporte sur la liste noire, sur le masquage des homonymies et sur les exclusions du wiki.',
+  'exclusions.blocklist': 'Liste noire',
+  'exclusions.allowlist': 'Liste blanche',
+  'exclusions.invalid': 'Expressions invalides ignorées : {entries}',
+  'exclusions.hideDisambiguation': 'Masquer les pages d\'homonymie',
+  'exclusions.site': 'Les pages hors articles (fichiers, catégories, portails…), la page d\'accueil et les pages techniques (Cookie, Recherche…) de chaque wiki sont exclues, sauf si la liste blanche les retient.',
+  'exclusions.siteSummary': '{count} page(s) écartée(s) par le wiki',
+  'exclusions.siteCounts': 'Pages écartées de ce classement : {reasons}.',
+  'exclusions.siteReason.namespace': 'hors articles : {count}',
+  'exclusions.siteReason.mainPage': 'page d\'accueil : {count}',
+  'exclusions.siteReason.technical': 'pages techniques : {count}',
+  'topic.all': 'Tous les thèmes ({count})',
+  'topic.facet': '{topic} ({count}) · {share} des vues',
+  'topic.views': '{views} vues sur la période',
+  'topic.partial': 'Thèmes des {count} lignes analysées sur {total} : les suivantes le sont à l\'affichage.',
+  'topic.politics': 'Politique',
+  'topic.sport': 'Sport',
+  'topic.culture': 'Culture',
+  'topic.science': 'Sciences',
+  'topic.people': 'Personnalités',
+  'topic.places': 'Lieux',
+  'topic.companies': 'Entreprises',
+  'topic.deaths': 'Décès',
+  'topic.other': 'Autres',
+
+  'suspicion.badge': 'Suspect',
+  'suspicion.title': 'Trafic suspect : {flags}',
+  'suspicion.desktop-skew': 'vues presque exclusivement sur ordinateur',
+  'suspicion.automated-traffic': 'forte part de trafic automatisé',
+  'suspicion.flat-profile': 'vues quotidiennes anormalement constantes',
+  'suspicion.unexplained-spike': 'pic sans aucune modification de l\'article',
+
+  'edits.summary': '{edits} modif. · {editors} contrib.',
+  'edits.driven': 'Rédigé en direct',
+  'edits.drivenTitle': 'Vues et modifications en hausse ensemble : {daily} modif./jour contre {baseline} d\'ordinaire',
+  'edits.lastSummary': 'Dernier résumé : {summary}',
+
+  'export.button': 'Exporter',
+  'export.download': 'Télécharger en {format}',
+  'export.copyFeed': 'Copier le lien {format}',
+  'export.copied': 'Lien copié !',
+
+  'detail.read': 'Lire sur Wikipédia',
+  'detail.close': 'Fermer',
+  'detail.historyError': 'Impossible de charger l\'historique des vues.',
+  'detail.traffic': 'Répartition du trafic',
+  'detail.robotViews': 'Robots {views} vues',
+  'detail.edits': 'Activité éditoriale',
+  'detail.editCount': '{edits} modification(s) par {editors} contributeur(s) sur la période, contre {baseline} par jour d\'ordinaire',
+  'detail.lastEdit': 'Dernière modification : {date}',
+  'detail.dailyViews': 'Vues quotidiennes',
+  'detail.rangeDays': '{days} j',
+  'detail.peak': 'Jour de pointe',
+  'detail.median': 'Médiane',
+  'detail.overDays': 'sur {count} jours',
+  'detail.latestVsAverage': 'Dernier jour / moyenne 30 j',
+
+  'agent.user': 'Humains',
+  'agent.automated': 'Robots',
+  'agent.all-agents': 'Tous',
+
+  'chart.noData': 'Aucune donnée disponible.',
+  'chart.label': 'Historique des vues',
+  'chart.selectedPeriod': 'Période sélectionnée',
+  'chart.point': '{date} : {views} vues',
+
+  'watchlist.empty': 'Aucun article suivi. Cliquez sur l\'étoile d\'une ligne du classement pour l\'ajouter.',
+  'watchlist.alertAbove': 'Alerte au-delà de',
+  'watchlist.multiple': '{value} × la normale',
+  'watchlist.enableNotifications': 'Activer les notifications',
+  'watchlist.notificationsBlocked': 'Notifications bloquées par le navigateur.',
+  'watchlist.latestViews': 'Vues (dernier jour)',
+  'watchlist.days': '{days} jours',
+  'watchlist.dailyRank': 'Rang du jour',
+  'watchlist.baseline': 'Référence : {views} vues/jour',
+  'watchlist.unavailable': 'Indisponible',
+  'watchlist.unwatch': 'Ne plus suivre',
+  'watchlist.notification': '{views} vues le {date}, soit {ratio} × la normale ({language})',
+
+  'compare.languages': 'Wikis comparés :',
+  'compare.minLanguages': 'Au moins deux wikis sont comparés',
+  'compare.score': 'Divergence : {score}',
+  'compare.scoreDescription': 'Divergence : part de l\'attention qui diffère entre les wikis (0 % : mêmes lectures dans les mêmes proportions, 100 % : aucun article en commun). L\'attention est la part des vues du classement de chaque wiki.',
+  'compare.attention': 'Attention comparée',
+  'compare.gap': 'Écart',
+  'compare.divergent': 'Clivant',
+  'compare.notRanked': 'Hors classement',
+  'compare.views': '{views} vues',
+  'compare.sharedTrending': 'Tendances communes',
+  'compare.exclusiveTrending': 'Tendances propres à un wiki',
+  'compare.none': 'Aucun article.',
+  'compare.error': 'Impossible de comparer les wikis. Veuillez réessayer plus tard.',
+
+  'traffic.wiki': 'Wiki :',
+  'traffic.periodViews': 'Vues totales du {start} au {end}',
+  'traffic.topShare': 'Part des 50 premiers articles',
+  'traffic.topShareDescription': 'Part des vues totales du wiki captée par les 50 articles les plus consultés de la période',
+  'traffic.swissShare': 'Part des sujets suisses',
+  'traffic.swissShareDescription': 'Part des vues totales du wiki captée par les articles à sujet suisse parmi ces 50',
+  'traffic.daily': 'Vues quotidiennes de {wiki} sur un an',
+  'traffic.weekdays': 'Jours de la semaine',
+  'traffic.months': 'Saisons',
+  'traffic.monthAverage': '{views} vues par jour en moyenne',
+  'traffic.patternDescription': 'Trafic moyen de chaque jour de la semaine et de chaque mois, rapporté à la moyenne de l\'année (100 %).',
+  'traffic.error': 'Impossible de charger le trafic du wiki. Veuillez réessayer plus tard.',
+
+  'widget.title': 'Ce que la Suisse lit sur Wikipédia',
+  'widget.loading': 'Chargement…',
+  'widget.error': 'Classement momentanément indisponible.',
+  'widget.more': 'Classement complet sur HelvetiScan',
+  'widget.updated': 'Mis à jour : {date}',
+
+  'footer.source': 'Données fournies par l\'API Wikimedia Pageviews.',
+  'footer.updated': 'Dernière mise à jour : {date}'
+};
@@ -0,0 +1,206 @@
+import { Messages } from '../i18n';
+
+export const it: Messages = {
+  'language.ch': 'Tutta la Svizzera',
+  'uiLanguage.label': 'Lingua dell\'interfaccia',
+  'dataMode.label': 'Fonte dei dati',
+  'dataMode.direct': 'Wikimedia diretto',
+  'dataMode.backend': 'Backend HelvetiScan',
+
+  'tab.mostViewed': 'Articoli più consultati',
+  'tab.trending': 'Articoli in crescita',
+  'tab.watchlist': 'Seguiti ({count})',
+  'tab.compare': 'Confronta',
+  'tab.traffic': 'Traffico',
+
+  'period.daily': 'Tempo reale',
+  'period.48h': '48 ore',
+  'period.weekly': 'Settimana',
+  'period.monthly': 'Mese',
+
+  'access.label': 'Modalità di accesso',
+  'access.all-access': 'Tutti gli accessi',
+  'access.desktop': 'Computer',
+  'access.mobile-web': 'Web mobile',
+  'access.mobile-app': 'Applicazione',
+
+  'swiss.none': 'Tutti i lettori',
+  'swiss.none.description': 'Letture da tutto il mondo su questo wiki.',
+  'swiss.readers': 'Lettori in Svizzera',
+  'swiss.readers.description': 'Letture effettuate dalla Svizzera (dati per paese di Wikimedia, visite arrotondate).',
+  'swiss.topics': 'Temi svizzeri',
+  'swiss.topics.description': 'Articoli il cui elemento Wikidata è legato alla Svizzera (paese, cittadinanza, cantone, sede), qualunque sia la provenienza dei lettori.',
+  'swiss.threshold': 'Pertinenza min.',
+  'swiss.badge': 'Pertinenza svizzera (Wikidata): {signals}',
+  'swiss.signal.country': 'paese: Svizzera',
+  'swiss.signal.citizenship': 'cittadinanza svizzera',
+  'swiss.signal.location': 'situato in un cantone svizzero',
+  'swiss.signal.headquarters': 'sede in Svizzera',
+  'swiss.signal.origin': 'origine svizzera',
+  'swiss.signal.birthplace': 'nato/a in Svizzera',
+
+  'filters.latestData': 'Dati più recenti',
+  'filters.minViews': 'Visite min.',
+  'filters.trendCandidates': 'tra i primi {count} articoli del periodo',
+  'filters.trendCandidatesSwiss': 'tra i primi {count} temi svizzeri (posizioni da 1 a {rows})',
+  'filters.showSuspicious': 'Mostra le voci sospette ({count})',
+  'filters.search': 'Cerca un articolo',
+  'filters.searchResults': '{count} articolo/i su {total}',
+  'filters.normalize': 'Correggi per il traffico totale',
+  'filters.normalizeDescription': 'Rapporta le visualizzazioni di ogni giorno al traffico totale del wiki, perché un calo durante le feste o le vacanze non sembri un declino',
+
+  'error.loadArticles': 'Si è verificato un errore durante il caricamento dei dati. Riprovare più tardi.',
+  'error.notFound': 'I dati di questo periodo non sono ancora stati pubblicati da Wikimedia. Scegliere una data precedente.',
+  'error.rateLimited': 'Wikimedia limita temporaneamente il numero di richieste. Riprovare tra qualche istante.',
+  'error.network': 'Impossibile raggiungere Wikimedia. Verificare la connessione e riprovare.',
+  'error.parse': 'Wikimedia ha restituito una risposta illeggibile. Riprovare più tardi.',
+
+  'notice.previousDay': 'I dati del {missing} non sono ancora pubblicati: classifica fino al {date}.',
+  'notice.partialMetadata': 'Descrizioni e temi non disponibili per {count} articoli: la classifica è mostrata senza di essi.',
+  'notice.normalized': 'Visualizzazioni corrette per il traffico totale del wiki: ogni giorno è riportato alla media delle ultime quattro settimane.',
+  'notice.offline': 'Offline – dati del {date}. La classifica sarà aggiornata non appena la connessione tornerà disponibile.',
+
+  'table.rank': 'Posizione',
+  'table.article': 'Articolo',
+  'table.views': 'Visite',
+  'table.automatedShare': 'Automatizzato',
+  'table.automatedShareDescription': 'Quota delle visite classificate « automated » da Wikimedia (righe analizzate). Le classifiche contano solo le letture umane: l\'API delle classifiche pubblica solo l\'agente « user », quindi un filtro per agente non è possibile.',
+  'table.growth': 'Crescita',
+  'table.daysInChart': 'Giorni',
+  'table.peakRank': 'Miglior posizione',
+  'table.watch': 'Segui l\'articolo',
+  'table.trendDetails': 'Punteggio z: {score} · {expected} visite attese',
+  'table.growthPercentage': 'Crescita %',
+  'table.reliability': 'Affidabilità',
+  'table.sort': 'Ordina per {column}',
+  'table.noMatch': 'Nessun articolo corrisponde alla ricerca.',
+  'table.edits': 'Modifiche',
+
+  'reliability.high': 'Affidabile',
+  'reliability.medium': 'Media',
+  'reliability.low': 'Incerta',
+
+  'movement.previousRank': 'Posizione precedente: {rank}',
+  'movement.same': 'Stessa posizione del periodo precedente',
+  'movement.new': 'Nuova entrata in classifica',
+  'movement.re-entry': 'Rientro in classifica',
+
+  'exclusions.summary': '{count} riga/e nascosta/e dalle vostre regole',
+  'exclusions.reason.blocklist': 'lista nera: {count}',
+  'exclusions.reason.disambiguation': 'disambigue: {count}',
+  'exclusions.reason.disambiguationPartial': 'disambigue: {count} tra le {analyzed} righe analizzate',
+  'exclusions.help': 'Un titolo o un\'espressione regolare /modello/i per riga. La lista bianca prevale sulla lista nera, sul nascondere le disambigue e sulle esclusioni del wiki.',
+  'exclusions.blocklist': 'Lista nera',
+  'exclusions.allowlist': 'Lista bianca',
+  'exclusions.invalid': 'Espressioni non valide ignorate: {entries}',
+  'exclusions.hideDisambiguation': 'Nascondi le pagine di disambiguazione',
+  'exclusions.site': 'Le pagine fuori dal namespace principale (file, categorie, portali…), la pagina principale e le pagine tecniche (Cookie, Ricerca…) di ogni wiki sono escluse, salvo se la lista bianca le mantiene.',
+  'exclusions.siteSummary': '{count} pagina/e esclusa/e dal wiki',
+  'exclusions.siteCounts': 'Pagine escluse da questa classifica: {reasons}.',
+  'exclusions.siteReason.namespace': 'non articoli: {count}',
+  'exclusions.siteReason.mainPage': 'pagina principale: {count}',
+  'exclusions.siteReason.technical': 'pagine tecniche: {count}',
+  'topic.all': 'Tutti i temi ({count})',
+  'topic.facet': '{topic} ({count}) · {share} delle visite',
+  'topic.views': '{views} visite nel periodo',
+  'topic.partial': 'Temi delle {count} righe analizzate su {total}: le altre lo sono quando vengono visualizzate.',
+  'topic.politics': 'Politica',
+  'topic.sport': 'Sport',
+  'topic.culture': 'Cultura',
+  'topic.science': 'Scienze',
+  'topic.people': 'Personalità',
+  'topic.places': 'Luoghi',
+  'topic.companies': 'Aziende',
+  'topic.deaths': 'Decessi',
+  'topic.other': 'Altro',
+
+  'suspicion.badge': 'Sospetto',
+  'suspicion.title': 'Traffico sospetto: {flags}',
+  'suspicion.desktop-skew': 'visite quasi esclusivamente da computer',
+  'suspicion.automated-traffic': 'forte quota di traffico automatizzato',
+  'suspicion.flat-profile': 'visite giornaliere insolitamente costanti',
+  'suspicion.unexplained-spike': 'picco senza alcuna modifica dell\'articolo',
+
+  'edits.summary': '{edits} modif. · {editors} autori',
+  'edits.driven': 'Scritto in diretta',
+  'edits.drivenTitle': 'Visite e modifiche in crescita insieme: {daily} modif./giorno contro {baseline} di solito',
+  'edits.lastSummary': 'Ultimo oggetto: {summary}',
+
+  'export.button': 'Esporta',
+  'export.download': 'Scarica in {format}',
+  'export.copyFeed': 'Copia il link {format}',
+  'export.copied': 'Link copiato!',
+
+  'detail.read': 'Leggi su Wikipedia',
+  'detail.close': 'Chiudi',
+  'detail.historyError': 'Impossibile caricare la cronologia delle visite.',
+  'detail.traffic': 'Ripartizione del traffico',
+  'detail.robotViews': 'Bot {views} visite',
+  'detail.edits': 'Attività redazionale',
+  'detail.editCount': '{edits} modifica/he di {editors} autore/i nel periodo, contro {baseline} al giorno di solito',
+  'detail.lastEdit': 'Ultima modifica: {date}',
+  'detail.dailyViews': 'Visite giornaliere',
+  'detail.rangeDays': '{days} g',
+  'detail.peak': 'Giorno di punta',
+  'detail.median': 'Mediana',
+  'detail.overDays': 'su {count} giorni',
+  'detail.latestVsAverage': 'Ultimo giorno / media 30 g',
+
+  'agent.user': 'Persone',
+  'agent.automated': 'Bot',
+  'agent.all-agents': 'Tutti',
+
+  'chart.noData': 'Nessun dato disponibile.',
+  'chart.label': 'Cronologia delle visite',
+  'chart.selectedPeriod': 'Periodo selezionato',
+  'chart.point': '{date}: {views} visite',
+
+  'watchlist.empty': 'Nessun articolo seguito. Fare clic sulla stella di una riga della classifica per aggiungerlo.',
+  'watchlist.alertAbove': 'Avviso oltre',
+  'watchlist.multiple': '{value} × la norma',
+  'watchlist.enableNotifications': 'Attiva le notifiche',
+  'watchlist.notificationsBlocked': 'Notifiche bloccate dal browser.',
+  'watchlist.latestViews': 'Visite (ultimo giorno)',
+  'watchlist.days': '{days} giorni',
+  'watchlist.dailyRank': 'Posizione del giorno',
+  'watchlist.baseline': 'Riferimento: {views} visite/giorno',
+  'watchlist.unavailable': 'Non disponibile',
+  'watchlist.unwatch': 'Non seguire più',
+  'watchlist.notification': '{views} visite il {date}, ossia {ratio} × la norma ({language})',
+
+  'compare.languages': 'Wiki confrontati:',
+  'compare.minLanguages': 'Si confrontano almeno due wiki',
+  'compare.score': 'Divergenza: {score}',
+  'compare.scoreDescription': 'Divergenza: quota dell\'attenzione che differisce tra i wiki (0 %: stesse letture nelle stesse proporzioni, 100 %: nessun articolo in comune). L\'attenzione è la quota delle visualizzazioni della classifica di ogni wiki.',
+  'compare.attention': 'Attenzione a confronto',
+  'compare.gap': 'Scarto',
+  'compare.divergent': 'Divisivo',
+  'compare.notRanked': 'Fuori classifica',
+  'compare.views': '{views} visualizzazioni',
+  'compare.sharedTrending': 'Tendenze comuni',
+  'compare.exclusiveTrending': 'Tendenze di un solo wiki',
+  'compare.none': 'Nessun articolo.',
+  'compare.error': 'Impossibile confrontare i wiki. Riprova più tardi.',
+
+  'traffic.wiki': 'Wiki:',
+  'traffic.periodViews': 'Visualizzazioni totali dal {start} al {end}',
+  'traffic.topShare': 'Quota dei primi 50 articoli',
+  'traffic.topShareDescription': 'Quota delle visualizzazioni totali del wiki raccolta dai 50 articoli più letti del periodo',
+  'traffic.swissShare': 'Quota dei temi svizzeri',
+  'traffic.swissShareDescription': 'Quota delle visualizzazioni totali del wiki raccolta dagli articoli a tema svizzero tra questi 50',
+  'traffic.daily': 'Visualizzazioni giornaliere di {wiki} su un anno',
+  'traffic.weekdays': 'Giorni della settimana',
+  'traffic.months': 'Stagioni',
+  'traffic.monthAverage': '{views} visualizzazioni al giorno in media',
+  'traffic.patternDescription': 'Traffico medio di ogni giorno della settimana e di ogni mese, rapportato alla media dell\'anno (100 %).',
+  'traffic.error': 'Impossibile caricare il traffico del wiki. Riprova più tardi.',
+
+  'widget.title': 'Cosa legge la Svizzera su Wikipedia',
+  'widget.loading': 'Caricamento…',
+  'widget.error': 'Classifica momentaneamente non disponibile.',
+  'widget.more': 'Classifica completa su HelvetiScan',
+  'widget.updated': 'Aggiornato: {date}',
+
+  'footer.source': 'Dati forniti dall\'API Wikimedia Pageviews.',
+  'footer.updated': 'Ultimo aggiornamento: {date}'
+};
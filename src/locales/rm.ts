@@ -0,0 +1,206 @@
+import { Messages } from '../i18n';
+
+export const rm: Messages = {
+  'language.ch': 'Tut la Svizra',
+  'uiLanguage.label': 'Lingua da l\'interfatscha',
+  'dataMode.label': 'Funtauna da las datas',
+  'dataMode.direct': 'Wikimedia direct',
+  'dataMode.backend': 'Backend HelvetiScan',
+
+  'tab.mostViewed': 'Artitgels ils pli legids',
+  'tab.trending': 'Artitgels en creschientscha',
+  'tab.watchlist': 'Observads ({count})',
+  'tab.compare': 'Cumparegliar',
+  'tab.traffic': 'Traffic',
+
+  'period.daily': 'Temp real',
+  'period.48h': '48 uras',
+  'period.weekly': 'Emna',
+  'period.monthly': 'Mais',
+
+  'access.label': 'Moda d\'access',
+  'access.all-access': 'Tut ils access',
+  'access.desktop': 'Computer',
+  'access.mobile-web': 'Web mobil',
+  'access.mobile-app': 'Applicaziun',
+
+  'swiss.none': 'Tut las lecturas e tut ils lecturs',
+  'swiss.none.description': 'Lecturas dal mund entir sin quest wiki.',
+  'swiss.readers': 'Lecturas e lecturs en Svizra',
+  'swiss.readers.description': 'Lecturas effectuadas da la Svizra (datas per pajais da Wikimedia, clicks arrundads).',
+  'swiss.topics': 'Temas svizzers',
+  'swiss.topics.description': 'Artitgels che l\'element da Wikidata è collià cun la Svizra (pajais, naziunalitad, chantun, sedia), independentamain da la derivanza da las lecturas e dals lecturs.',
+  'swiss.threshold': 'Relevanza min.',
+  'swiss.badge': 'Relevanza svizra (Wikidata): {signals}',
+  'swiss.signal.country': 'pajais: Svizra',
+  'swiss.signal.citizenship': 'naziunalitad svizra',
+  'swiss.signal.location': 'situà en in chantun svizzer',
+  'swiss.signal.headquarters': 'sedia en Svizra',
+  'swiss.signal.origin': 'derivanza svizra',
+  'swiss.signal.birthplace': 'naschì·da en Svizra',
+
+  'filters.latestData': 'Ultimas datas',
+  'filters.minViews': 'Clicks min.',
+  'filters.trendCandidates': 'tranter ils emprims {count} artitgels da la perioda',
+  'filters.trendCandidatesSwiss': 'tranter ils emprims {count} temas svizzers (rangs 1 fin {rows})',
+  'filters.showSuspicious': 'Mussar las endataziuns suspectas ({count})',
+  'filters.search': 'Tschertgar in artitgel',
+  'filters.searchResults': '{count} da {total} artitgel(s)',
+  'filters.normalize': 'Corriger tenor il traffic total',
+  'filters.normalizeDescription': 'Metta las consultaziuns da mintga di en relaziun cun il traffic total dal wiki, per ch\'ina sbassada durant las festas u las vacanzas na paraja betg in regress',
+
+  'error.loadArticles': 'Ina errur è succedida cun chargiar las datas. Empruvai pli tard anc ina giada.',
+  'error.notFound': 'Wikimedia n\'ha anc betg publitgà las datas da quest temp. Tscherni ina data pli baud.',
+  'error.rateLimited': 'Wikimedia limitescha temporarmain il dumber da dumondas. Empruvai pli tard anc ina giada.',
+  'error.network': 'Impussibel da cuntanscher Wikimedia. Controllai Vossa connexiun ed empruvai anc ina giada.',
+  'error.parse': 'Wikimedia ha returnà ina resposta illegibla. Empruvai pli tard anc ina giada.',
+
+  'notice.previousDay': 'Las datas dals {missing} n\'èn anc betg publitgadas: rangaziun fin ils {date}.',
+  'notice.partialMetadata': 'Descripziuns e temas na stattan betg a disposiziun per {count} artitgel(s): la rangaziun vegn mussada senza els.',
+  'notice.normalized': 'Consultaziuns corrigidas tenor il traffic total dal wiki: mintga di vegn adattà a la media da las ultimas quatter emnas.',
+  'notice.offline': 'Offline – datas dals {date}. La rangaziun vegn actualisada uschespert che la connexiun è puspè disponibla.',
+
+  'table.rank': 'Rang',
+  'table.article': 'Artitgel',
+  'table.views': 'Clicks',
+  'table.automatedShare': 'Automatisà',
+  'table.automatedShareDescription': 'Part da las visitas classifitgadas sco « automated » da Wikimedia (lingias analisadas). Las classificaziuns quintan mo las lecturas umanas: l\'API da las classificaziuns publitgescha mo l\'agent « user », in filter tenor agent n\'è perquai betg pussaivel.',
+  'table.growth': 'Creschientscha',
+  'table.daysInChart': 'Dis',
+  'table.peakRank': 'Meglier rang',
+  'table.watch': 'Observar l\'artitgel',
+  'table.trendDetails': 'Valur z: {score} · {expected} clicks spetgads',
+  'table.growthPercentage': 'Creschientscha %',
+  'table.reliability': 'Fidabilitad',
+  'table.sort': 'Zavrar tenor {column}',
+  'table.noMatch': 'Nagin artitgel na correspunda a la tschertga.',
+  'table.edits': 'Modificaziuns',
+
+  'reliability.high': 'Fidabel',
+  'reliability.medium': 'Mesaun',
+  'reliability.low': 'Malsegir',
+
+  'movement.previousRank': 'Rang precedent: {rank}',
+  'movement.same': 'Medem rang sco en la perioda precedenta',
+  'movement.new': 'Nova entrada en la glista',
+  'movement.re-entry': 'Return en la glista',
+
+  'exclusions.summary': '{count} lingia(s) zuppentada(s) da vossas reglas',
+  'exclusions.reason.blocklist': 'glista naira: {count}',
+  'exclusions.reason.disambiguation': 'disambiguaziuns: {count}',
+  'exclusions.reason.disambiguationPartial': 'disambiguaziuns: {count} tranter las {analyzed} lingias analisadas',
+  'exclusions.help': 'In titel u ina expressiun regulara /muster/i per lingia. La glista alva ha la prioritad sur la glista naira, sur zuppentar las disambiguaziuns e sur las exclusiuns dal wiki.',
+  'exclusions.blocklist': 'Glista naira',
+  'exclusions.allowlist': 'Glista alva',
+  'exclusions.invalid': 'Expressiuns nunvalidas ignoradas: {entries}',
+  'exclusions.hideDisambiguation': 'Zuppentar las paginas da disambiguaziun',
+  'exclusions.site': 'Las paginas ordaifer ils artitgels (datotecas, categorias, portals…), la pagina principala e las paginas tecnicas (Cookie, Tschertga…) da mintga wiki vegnan exclusas, danor sche la glista alva las tegna.',
+  'exclusions.siteSummary': '{count} pagina(s) exclusa(s) dal wiki',
+  'exclusions.siteCounts': 'Paginas exclusas da questa classificaziun: {reasons}.',
+  'exclusions.siteReason.namespace': 'betg artitgels: {count}',
+  'exclusions.siteReason.mainPage': 'pagina principala: {count}',
+  'exclusions.siteReason.technical': 'paginas tecnicas: {count}',
+  'topic.all': 'Tut ils temas ({count})',
+  'topic.facet': '{topic} ({count}) · {share} dals clicks',
+  'topic.views': '{views} clicks durant la perioda',
+  'topic.partial': 'Temas da las {count} lingias analisadas da {total}: las ulteriuras vegnan analisadas cura ch\'ellas vegnan mussadas.',
+  'topic.politics': 'Politica',
+  'topic.sport': 'Sport',
+  'topic.culture': 'Cultura',
+  'topic.science': 'Scienzas',
+  'topic.people': 'Persunalitads',
+  'topic.places': 'Lieus',
+  'topic.companies': 'Interpresas',
+  'topic.deaths': 'Mortoris',
+  'topic.other': 'Auter',
+
+  'suspicion.badge': 'Suspect',
+  'suspicion.title': 'Traffic suspect: {flags}',
+  'suspicion.desktop-skew': 'clicks quasi mo dal computer',
+  'suspicion.automated-traffic': 'gronda part da traffic automatisà',
+  'suspicion.flat-profile': 'clicks quotidians anormalmain constants',
+  'suspicion.unexplained-spike': 'piz senza midada da l\'artitgel',
+
+  'edits.summary': '{edits} modif. · {editors} auturs',
+  'edits.driven': 'Redigì en direct',
+  'edits.drivenTitle': 'Clicks e modificaziuns creschan ensemen: {daily} modif./di enstagl da {baseline} normalmain',
+  'edits.lastSummary': 'Ultim resumaziun: {summary}',
+
+  'export.button': 'Exportar',
+  'export.download': 'Telechargiar sco {format}',
+  'export.copyFeed': 'Copiar la colliaziun {format}',
+  'export.copied': 'Colliaziun copiada!',
+
+  'detail.read': 'Leger sin Wikipedia',
+  'detail.close': 'Serrar',
+  'detail.historyError': 'Impussibel da chargiar l\'istorgia dals clicks.',
+  'detail.traffic': 'Repartiziun dal traffic',
+  'detail.robotViews': 'Bots {views} clicks',
+  'detail.edits': 'Activitad redacziunala',
+  'detail.editCount': '{edits} modificaziun(s) da {editors} autur(s) en la perioda, enstagl da {baseline} per di normalmain',
+  'detail.lastEdit': 'Ultima modificaziun: {date}',
+  'detail.dailyViews': 'Clicks quotidians',
+  'detail.rangeDays': '{days} d',
+  'detail.peak': 'Di da piz',
+  'detail.median': 'Median',
+  'detail.overDays': 'sur {count} dis',
+  'detail.latestVsAverage': 'Ultim di / media 30 d',
+
+  'agent.user': 'Umans',
+  'agent.automated': 'Bots',
+  'agent.all-agents': 'Tuts',
+
+  'chart.noData': 'Naginas datas disponiblas.',
+  'chart.label': 'Istorgia dals clicks',
+  'chart.selectedPeriod': 'Perioda tschernida',
+  'chart.point': '{date}: {views} clicks',
+
+  'watchlist.empty': 'Nagins artitgels observads. Cliccai sin la staila d\'ina lingia da la glista per l\'agiuntar.',
+  'watchlist.alertAbove': 'Alarm sur',
+  'watchlist.multiple': '{value} × la norma',
+  'watchlist.enableNotifications': 'Activar las notificaziuns',
+  'watchlist.notificationsBlocked': 'Notificaziuns bloccadas dal navigatur.',
+  'watchlist.latestViews': 'Clicks (ultim di)',
+  'watchlist.days': '{days} dis',
+  'watchlist.dailyRank': 'Rang dal di',
+  'watchlist.baseline': 'Referenza: {views} clicks/di',
+  'watchlist.unavailable': 'Betg disponibel',
+  'watchlist.unwatch': 'Betg pli observar',
+  'watchlist.notification': '{views} clicks ils {date}, q.v.d. {ratio} × la norma ({language})',
+
+  'compare.languages': 'Wikis cumparads:',
+  'compare.minLanguages': 'I vegnan cumparads almain dus wikis',
+  'compare.score': 'Divergenza: {score}',
+  'compare.scoreDescription': 'Divergenza: part da l\'attenziun che sa differenziescha tranter ils wikis (0 %: las medemas lecturas en las medemas proporziuns, 100 %: nagin artitgel communabel). L\'attenziun è la part da las consultaziuns da la classificaziun da mintga wiki.',
+  'compare.attention': 'Attenziun cumparada',
+  'compare.gap': 'Differenza',
+  'compare.divergent': 'Divisiv',
+  'compare.notRanked': 'Ordaifer la classificaziun',
+  'compare.views': '{views} consultaziuns',
+  'compare.sharedTrending': 'Tendenzas communablas',
+  'compare.exclusiveTrending': 'Tendenzas d\'in sulet wiki',
+  'compare.none': 'Nagins artitgels.',
+  'compare.error': 'Impussibel da cumparegliar ils wikis. Empruvai pli tard.',
+
+  'traffic.wiki': 'Wiki:',
+  'traffic.periodViews': 'Consultaziuns totalas dals {start} fin ils {end}',
+  'traffic.topShare': 'Part dals 50 emprims artitgels',
+  'traffic.topShareDescription': 'Part da las consultaziuns totalas dal wiki che va als 50 artitgels ils pli legids da la perioda',
+  'traffic.swissShare': 'Part dals temas svizzers',
+  'traffic.swissShareDescription': 'Part da las consultaziuns totalas dal wiki che va als artitgels cun tema svizzer tranter quels 50',
+  'traffic.daily': 'Consultaziuns quotidianas da {wiki} durant in onn',
+  'traffic.weekdays': 'Dis da l\'emna',
+  'traffic.months': 'Stagiuns',
+  'traffic.monthAverage': 'En media {views} consultaziuns per di',
+  'traffic.patternDescription': 'Traffic mesaun da mintga di da l\'emna e da mintga mais, en relaziun cun la media da l\'onn (100 %).',
+  'traffic.error': 'Impussibel da chargiar il traffic dal wiki. Empruvai pli tard.',
+
+  'widget.title': 'Tge che la Svizra legia sin Wikipedia',
+  'widget.loading': 'Chargiar…',
+  'widget.error': 'Classament per il mument betg disponibel.',
+  'widget.more': 'Classament cumplet sin HelvetiScan',
+  'widget.updated': 'Actualisà: {date}',
+
+  'footer.source': 'Datas da l\'API Wikimedia Pageviews.',
+  'footer.updated': 'Ultima actualisaziun: {date}'
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { SNAPSHOT_ROWS, createSnapshot, readRankingSnapshot, snapshotKey, snapshotThumbnails } from './offline';
+import { Article } from './types';
+
+const view = { tab: 'trending', language: 'ch', period: 'daily', swissFilter: 'readers', access: 'mobile-web' } as const;
+
+const ranking: Article[] = Array.from({ length: SNAPSHOT_ROWS + 10 }, (_, i) => ({ article: `Article_${i}`, views: 1000 - i }));
+
+describe('snapshotKey', () => {
+  it('keeps one ranking per tab, wiki, period, Swiss filter and access method', () => {
+    expect(snapshotKey(view)).toBe('trending:ch:daily:readers:mobile-web');
+    expect(snapshotKey({ ...view, period: 'weekly' })).not.toBe(snapshotKey(view));
+  });
+});
+
+describe('createSnapshot', () => {
+  it('keeps the head of the ranking with its date', () => {
+    const snapshot = createSnapshot(ranking, new Date(2026, 2, 1), new Date(2026, 2, 2, 10));
+
+    expect(snapshot.articles).toHaveLength(SNAPSHOT_ROWS);
+    expect(snapshot.dataDate).toBe('2026-03-01');
+    expect(snapshot.savedAt).toBe(new Date(2026, 2, 2, 10).getTime());
+  });
+});
+
+describe('snapshotThumbnails', () => {
+  it('lists each thumbnail of the saved rows once', () => {
+    const thumbnail = 'https://upload.wikimedia.org/wikipedia/commons/thumb/geneve.jpg';
+    const snapshot = createSnapshot([
+      { article: 'Genève', views: 45000, metadata: { thumbnail } },
+      { article: 'Genève_(canton)', views: 3000, metadata: { thumbnail } },
+      { article: 'Paris', views: 20000 },
+    ], new Date(2026, 2, 1));
+
+    expect(snapshotThumbnails(snapshot)).toEqual([thumbnail]);
+  });
+});
+
+describe('readRankingSnapshot', () => {
+  it('finds nothing outside the browser', async () => {
+    expect(await readRankingSnapshot(view)).toBeUndefined();
+  });
+});
@@ -0,0 +1,116 @@
+import { format } from 'date-fns';
+import { requestToPromise } from './cache';
+import { AccessFilter, Article, LanguageSelection, Period, RankingTab, SwissFilter } from './types';
+
+/**
+ * Dernier classement chargé pour une vue, affiché tel quel hors connexion
+ */
+export interface RankingSnapshot {
+  /** Premières lignes du classement, avec leurs métadonnées (vignettes comprises) */
+  articles: Article[];
+  /** Dernier jour de la période (yyyy-MM-dd) */
+  dataDate: string;
+  /** Date d'enregistrement (ms) */
+  savedAt: number;
+}
+
+export interface SnapshotView {
+  tab: RankingTab;
+  language: LanguageSelection;
+  period: Period;
+  swissFilter: SwissFilter;
+  access: AccessFilter;
+}
+
+// Lignes conservées par classement : assez pour parcourir le haut du tableau hors connexion
+export const SNAPSHOT_ROWS = 200;
+const MAX_SNAPSHOTS = 60;
+
+// Message compris par le service worker (voir `serviceWorker.ts`)
+const CACHE_THUMBNAILS_MESSAGE = 'helvetiscan:cache-thumbnails';
+
+const DB_NAME = 'helvetiscan-offline';
+const STORE_NAME = 'rankings';
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+export function snapshotKey({ tab, language, period, swissFilter, access }: SnapshotView): string {
+  return [tab, language, period, swissFilter, access].join(':');
+}
+
+export function createSnapshot(articles: Article[], dataDate: Date, now: Date = new Date()): RankingSnapshot {
+  return { articles: articles.slice(0, SNAPSHOT_ROWS), dataDate: format(dataDate, 'yyyy-MM-dd'), savedAt: now.getTime() };
+}
+
+/**
+ * Vignettes d'un classement enregistré, à garder en cache pour l'affichage hors connexion
+ */
+export function snapshotThumbnails({ articles }: RankingSnapshot): string[] {
+  return [...new Set(articles.flatMap(article => (article.metadata?.thumbnail ? [article.metadata.thumbnail] : [])))];
+}
+
+/**
+ * Ouvre la base IndexedDB des classements (null hors navigateur ou si elle est indisponible)
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+
+  if (!databasePromise) {
+    databasePromise = new Promise(resolve => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME);
+        store.createIndex('savedAt', 'savedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Error opening offline database:', request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  return databasePromise;
+}
+
+export async function readRankingSnapshot(view: SnapshotView): Promise<RankingSnapshot | undefined> {
+  try {
+    const db = await openDatabase();
+    if (!db) return undefined;
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    return await requestToPromise(store.get(snapshotKey(view)) as IDBRequest<RankingSnapshot | undefined>);
+  } catch (error) {
+    console.error('Error reading ranking snapshot:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Enregistre le classement d'une vue, en remplaçant le précédent, et demande au service worker
+ * de garder ses vignettes ; les vues les moins récemment chargées sont oubliées au-delà de la limite
+ */
+export async function saveRankingSnapshot(view: SnapshotView, snapshot: RankingSnapshot): Promise<void> {
+  navigator.serviceWorker?.controller?.postMessage({ type: CACHE_THUMBNAILS_MESSAGE, urls: snapshotThumbnails(snapshot) });
+
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await requestToPromise(store.put(snapshot, snapshotKey(view)));
+
+    const count = await requestToPromise(store.count());
+    let excess = count - MAX_SNAPSHOTS;
+    if (excess <= 0) return;
+
+    const cursorRequest = store.index('savedAt').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess <= 0) return;
+      cursor.delete();
+      excess--;
+      cursor.continue();
+    };
+  } catch (error) {
+    console.error('Error saving ranking snapshot:', error);
+  }
+}
@@ -0,0 +1,68 @@
+import { eachDayOfInterval, format } from 'date-fns';
+import { describe, expect, it } from 'vitest';
+import { monthlyPattern, normalizeArticle, normalizeRanking, trafficFactors, weekdayPattern } from './overview';
+
+// Deux semaines à partir du lundi 16 février 2026 : week-ends deux fois moins lus
+const weeks = eachDayOfInterval({ start: new Date(2026, 1, 16), end: new Date(2026, 2, 1) })
+  .map(day => ({ date: format(day, 'yyyy-MM-dd'), views: [0, 6].includes(day.getDay()) ? 50 : 100 }));
+
+const days = [new Date(2026, 1, 28), new Date(2026, 2, 1)];
+const totals = [
+  { date: '2026-02-27', views: 100 },
+  { date: '2026-02-28', views: 50 },
+  { date: '2026-03-01', views: 100 },
+];
+
+describe('weekdayPattern', () => {
+  it('compares each weekday, Monday first, with the overall average', () => {
+    const pattern = weekdayPattern(weeks);
+
+    expect(pattern).toHaveLength(7);
+    expect(pattern[0]).toBeCloseTo(100 / (1200 / 14));
+    expect(pattern[6]).toBeCloseTo(50 / (1200 / 14));
+  });
+});
+
+describe('monthlyPattern', () => {
+  it('averages each month in order', () => {
+    expect(monthlyPattern(totals)).toEqual([
+      { month: '2026-02', average: 75, ratio: 75 / (250 / 3) },
+      { month: '2026-03', average: 100, ratio: 100 / (250 / 3) },
+    ]);
+  });
+});
+
+describe('trafficFactors', () => {
+  it('scales each day to the average of the reference days', () => {
+    expect(trafficFactors(totals, 2)).toEqual(new Map([['2026-02-27', 0.75], ['2026-02-28', 1.5], ['2026-03-01', 0.75]]));
+  });
+});
+
+describe('normalizeArticle', () => {
+  const factors = trafficFactors(totals, 2);
+
+  it('corrects each day of the daily series', () => {
+    expect(normalizeArticle({ article: 'Genève', views: 30, dailyViews: [10, 20] }, days, factors))
+      .toEqual({ article: 'Genève', views: 30, dailyViews: [15, 15] });
+  });
+
+  it('applies the mean factor of the period without a daily series', () => {
+    expect(normalizeArticle({ article: 'Genève', views: 100 }, days, factors).views).toBe(113);
+  });
+
+  it('leaves days without known traffic unchanged', () => {
+    expect(normalizeArticle({ article: 'Genève', views: 100 }, days, new Map()).views).toBe(100);
+  });
+});
+
+describe('normalizeRanking', () => {
+  it('sorts the corrected views again', () => {
+    const ranking = normalizeRanking([
+      { article: 'Samedi', views: 0, dailyViews: [0, 0] },
+      { article: 'Dimanche', views: 30, dailyViews: [0, 30] },
+      { article: 'Veille', views: 25, dailyViews: [25, 0] },
+    ], days, trafficFactors(totals, 2));
+
+    expect(ranking.map(({ article, views }) => [article, views])).toEqual([['Veille', 38], ['Dimanche', 23], ['Samedi', 0]]);
+  });
+});
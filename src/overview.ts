@@ -0,0 +1,101 @@
+import { format, getISODay, parseISO } from 'date-fns';
+import { Article, Language, ViewHistory } from './types';
+
+/** Derniers jours de trafic total dont la moyenne sert de référence à la normalisation */
+export const NORMALIZATION_DAYS = 28;
+
+export interface MonthlyTraffic {
+  /** Mois au format yyyy-MM */
+  month: string;
+  /** Vues quotidiennes moyennes du mois */
+  average: number;
+  /** Moyenne du mois rapportée à celle de toute la série */
+  ratio: number;
+}
+
+/**
+ * Trafic d'ensemble d'un wiki (onglet « Trafic ») : de quoi juger si un nombre de vues est
+ * élevé pour le jour considéré
+ */
+export interface TrafficOverview {
+  language: Language;
+  /** Vues quotidiennes totales (humains, comme les classements) sur l'année écoulée */
+  totals: ViewHistory[];
+  /** Premier et dernier jour de la période analysée */
+  range: { start: Date; end: Date };
+  /** Vues totales du wiki sur la période */
+  periodViews: number;
+  /** Part de ces vues captée par les 50 premiers articles du classement */
+  topShare: number;
+  /** Part captée par les articles à sujet suisse parmi ces 50 */
+  swissShare: number;
+  /** Vues moyennes de chaque jour de la semaine, du lundi au dimanche, rapportées à la moyenne */
+  weekdays: number[];
+  months: MonthlyTraffic[];
+}
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+/**
+ * Profil hebdomadaire : moyenne de chaque jour de la semaine (lundi d'abord) sur la moyenne générale
+ */
+export function weekdayPattern(totals: ViewHistory[]): number[] {
+  const mean = average(totals.map(({ views }) => views));
+  const byWeekday: number[][] = Array.from({ length: 7 }, () => []);
+  totals.forEach(({ date, views }) => byWeekday[getISODay(parseISO(date)) - 1].push(views));
+  return byWeekday.map(values => (mean > 0 && values.length > 0 ? average(values) / mean : 0));
+}
+
+/**
+ * Profil saisonnier : moyenne quotidienne de chaque mois de la série, dans l'ordre
+ */
+export function monthlyPattern(totals: ViewHistory[]): MonthlyTraffic[] {
+  const mean = average(totals.map(({ views }) => views));
+  const byMonth = new Map<string, number[]>();
+  totals.forEach(({ date, views }) => {
+    const month = date.slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), views]);
+  });
+  return [...byMonth].map(([month, values]) => ({
+    month,
+    average: average(values),
+    ratio: mean > 0 ? average(values) / mean : 0
+  }));
+}
+
+/**
+ * Coefficient de chaque jour (clé yyyy-MM-dd) ramenant son trafic total à la moyenne des
+ * `referenceDays` derniers jours : un jour creux (fêtes, été) est rehaussé, un jour chargé abaissé
+ */
+export function trafficFactors(totals: ViewHistory[], referenceDays: number = NORMALIZATION_DAYS): Map<string, number> {
+  const reference = average(totals.slice(-referenceDays).map(({ views }) => views));
+  return new Map(totals.map(({ date, views }) => [date, views > 0 ? reference / views : 1]));
+}
+
+/**
+ * Série quotidienne (une valeur par jour de `days`) corrigée du trafic total ;
+ * les jours sans trafic connu ne sont pas corrigés
+ */
+export function normalizeSeries(series: number[], days: Date[], factors: Map<string, number>): number[] {
+  return series.map((views, i) => views * (factors.get(format(days[i], 'yyyy-MM-dd')) ?? 1));
+}
+
+/**
+ * Vues d'un article sur `days` corrigées du trafic total : jour par jour lorsque la série
+ * quotidienne est connue, sinon avec le coefficient moyen de la période
+ */
+export function normalizeArticle(article: Article, days: Date[], factors: Map<string, number>): Article {
+  if (article.dailyViews && article.dailyViews.length === days.length) {
+    const dailyViews = normalizeSeries(article.dailyViews, days, factors).map(Math.round);
+    return { ...article, dailyViews, views: dailyViews.reduce((sum, v) => sum + v, 0) };
+  }
+  const factor = average(days.map(day => factors.get(format(day, 'yyyy-MM-dd')) ?? 1));
+  return { ...article, views: Math.round(article.views * factor) };
+}
+
+/**
+ * Classement aux vues corrigées du trafic total, trié à nouveau
+ */
+export function normalizeRanking(articles: Article[], days: Date[], factors: Map<string, number>): Article[] {
+  return articles.map(article => normalizeArticle(article, days, factors)).sort((a, b) => b.views - a.views);
+}
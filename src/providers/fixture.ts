@@ -0,0 +1,158 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { format } from 'date-fns';
+import { NotFoundError, ParseError, isAbortError } from '../errors';
+import {
+  AggregateResponse, ApiResponse, CountryTopResponse, MediaWikiResponse, PagePropsResponse, PerArticleResponse, RevisionsResponse, SiteInfoResponse,
+  WikidataEntitiesResponse
+} from '../types';
+import { MetadataProvider, PageviewsProvider } from './types';
+
+/*
+ * Arborescence attendue sous `rootDir` (réponses JSON enregistrées telles quelles) :
+ *   pageviews/top/{lang}.wikipedia/{access}/{yyyy}/{MM}/{dd|all-days}.json
+ *   pageviews/top-per-country/{country}/{access}/{yyyy}/{MM}/{dd}.json
+ *   pageviews/per-article/{lang}.wikipedia/{agent}/{titre encodé}.json  (série complète)
+ *   pageviews/aggregate/{lang}.wikipedia/{access}/{agent}.json  (série complète)
+ *   mediawiki/{lang}.json  ({ pages: [...] } au format `formatversion=2`,
+ *     avec l'historique complet des modifications dans `revisions`)
+ *   mediawiki/siteinfo/{lang}.json  (réponse `meta=siteinfo`)
+ *   wikidata/entities.json  (réponse `wbgetentities` : { entities: {...} })
+ */
+
+type FixturePage = MediaWikiResponse['query']['pages'][number] & {
+  pageprops?: { wikibase_item?: string; disambiguation?: string };
+  revisions?: { timestamp: string; user?: string; comment?: string }[];
+};
+
+// Mêmes échecs que l'API : fichier absent (jour non publié) ou contenu illisible
+async function readFixture<T>(path: string, signal?: AbortSignal): Promise<T> {
+  let content: string;
+  try {
+    content = await readFile(path, { encoding: 'utf-8', signal });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new NotFoundError(path);
+  }
+
+  try {
+    return JSON.parse(content) as T;
+  } catch {
+    throw new ParseError(path);
+  }
+}
+
+// Même découpage que l'API : uniquement les jours de l'intervalle demandé
+function withinInterval<T extends { timestamp: string }>(items: T[] = [], start: Date, end: Date): T[] {
+  const from = format(start, 'yyyyMMdd');
+  const to = format(end, 'yyyyMMdd');
+  return items.filter(item => {
+    const day = item.timestamp.slice(0, 8);
+    return day >= from && day <= to;
+  });
+}
+
+/**
+ * Données de consultation lues depuis des fichiers enregistrés
+ */
+export function createFixturePageviewsProvider(rootDir: string): PageviewsProvider {
+  return {
+    getTop(language, date, allDays, access, signal) {
+      const day = allDays ? 'all-days' : format(date, 'dd');
+      return readFixture<ApiResponse>(
+        join(rootDir, 'pageviews', 'top', `${language}.wikipedia`, access, format(date, 'yyyy'), format(date, 'MM'), `${day}.json`),
+        signal
+      );
+    },
+
+    getTopPerCountry(country, date, access, signal) {
+      return readFixture<CountryTopResponse>(
+        join(rootDir, 'pageviews', 'top-per-country', country, access, format(date, 'yyyy'), format(date, 'MM'), `${format(date, 'dd')}.json`),
+        signal
+      );
+    },
+
+    async getPerArticle(article, language, agent, start, end, signal) {
+      const data = await readFixture<PerArticleResponse>(
+        join(rootDir, 'pageviews', 'per-article', `${language}.wikipedia`, agent, `${encodeURIComponent(article)}.json`),
+        signal
+      );
+      return { items: withinInterval(data.items, start, end) };
+    },
+
+    async getAggregate(language, access, agent, start, end, signal) {
+      const data = await readFixture<AggregateResponse>(
+        join(rootDir, 'pageviews', 'aggregate', `${language}.wikipedia`, access, `${agent}.json`),
+        signal
+      );
+      return { items: withinInterval(data.items, start, end) };
+    }
+  };
+}
+
+/**
+ * Métadonnées lues depuis un fichier enregistré par wiki
+ */
+export function createFixtureMetadataProvider(rootDir: string): MetadataProvider {
+  const pagesByLanguage = new Map<string, Promise<Map<string, FixturePage>>>();
+  let entitiesPromise: Promise<WikidataEntitiesResponse> | null = null;
+
+  const loadPages = (language: string) => {
+    let pages = pagesByLanguage.get(language);
+    if (!pages) {
+      pages = readFixture<{ pages: FixturePage[] }>(join(rootDir, 'mediawiki', `${language}.json`))
+        .then(data => new Map(data.pages.map(page => [page.title, page])));
+      pagesByLanguage.set(language, pages);
+    }
+    return pages;
+  };
+
+  // Fichiers partagés entre appels : l'annulation interrompt l'attente, pas la lecture
+  const findPages = async (titles: string[], language: string, signal?: AbortSignal) => {
+    const pages = await loadPages(language);
+    signal?.throwIfAborted();
+    return titles.flatMap(title => {
+      const page = pages.get(title);
+      return page ? [page] : [];
+    });
+  };
+
+  return {
+    async getPageMetadata(titles, language, signal) {
+      const pages = await findPages(titles, language, signal);
+      return { query: { pages } };
+    },
+
+    async getWikidataIds(titles, language, signal): Promise<PagePropsResponse> {
+      const pages = await findPages(titles, language, signal);
+      return { query: { pages: pages.map(({ title, pageprops }) => ({ title, pageprops })) } };
+    },
+
+    async getWikidataEntities(ids, signal): Promise<WikidataEntitiesResponse> {
+      entitiesPromise ??= readFixture<WikidataEntitiesResponse>(join(rootDir, 'wikidata', 'entities.json'));
+      const { entities } = await entitiesPromise;
+      signal?.throwIfAborted();
+      return {
+        entities: Object.fromEntries(ids.map(id => [id, entities[id] ?? { id, missing: '' }]))
+      };
+    },
+
+    async getRevisions(title, language, start, end, limit, signal): Promise<RevisionsResponse> {
+      const [page] = await findPages([title], language, signal);
+      if (!page) return { query: { pages: [{ title, missing: true }] } };
+
+      // Comme l'API : modifications de l'intervalle, des plus récentes aux plus anciennes
+      const from = format(start, 'yyyy-MM-dd');
+      const to = format(end, 'yyyy-MM-dd');
+      const revisions = (page.revisions || [])
+        .filter(({ timestamp }) => timestamp.slice(0, 10) >= from && timestamp.slice(0, 10) <= to)
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+        .slice(0, limit);
+      return { query: { pages: [revisions.length > 0 ? { title, revisions } : { title }] } };
+    },
+
+    getSiteInfo(language, signal) {
+      return readFixture<SiteInfoResponse>(join(rootDir, 'mediawiki', 'siteinfo', `${language}.json`), signal);
+    }
+  };
+}
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { liveMetadataProvider } from './live';
+
+function jsonResponse(data: unknown): Response {
+  return { ok: true, status: 200, statusText: 'OK', json: async () => data } as Response;
+}
+
+const fetchMock = vi.fn();
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.unstubAllGlobals();
+});
+
+describe('liveMetadataProvider.getPageMetadata', () => {
+  it('follows the continuation until every title has its categories and extract', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({
+        continue: { clcontinue: '12|Ville_de_Suisse', continue: '||pageimages|extracts' },
+        query: {
+          pages: [
+            { pageid: 11, title: 'Berne', extract: 'Berne est la ville fédérale.', categories: [{ title: 'Catégorie:Ville de Suisse' }] },
+            { pageid: 12, title: 'Lausanne', extract: 'Lausanne est une ville.', categories: [{ title: 'Catégorie:Commune vaudoise' }] }
+          ]
+        }
+      }))
+      .mockResolvedValueOnce(jsonResponse({
+        query: {
+          pages: [
+            { pageid: 11, title: 'Berne' },
+            { pageid: 12, title: 'Lausanne', categories: [{ title: 'Catégorie:Ville de Suisse' }] }
+          ]
+        }
+      }));
+
+    const data = await liveMetadataProvider.getPageMetadata(['Berne', 'Lausanne'], 'fr');
+
+    const urls = fetchMock.mock.calls.map(([url]) => String(url));
+    expect(urls[0]).toContain('cllimit=max&exlimit=max');
+    expect(urls[1]).toContain('clcontinue=12%7CVille_de_Suisse&continue=%7C%7Cpageimages%7Cextracts');
+    expect(data.query.pages).toEqual([
+      { pageid: 11, title: 'Berne', extract: 'Berne est la ville fédérale.', categories: [{ title: 'Catégorie:Ville de Suisse' }] },
+      {
+        pageid: 12, title: 'Lausanne', extract: 'Lausanne est une ville.',
+        categories: [{ title: 'Catégorie:Commune vaudoise' }, { title: 'Catégorie:Ville de Suisse' }]
+      }
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+import { format } from 'date-fns';
+import { fetchFromAPI } from '../http';
+import {
+  AggregateResponse, ApiResponse, CountryTopResponse, MediaWikiResponse, PagePropsResponse, PerArticleResponse, RevisionsResponse, SiteInfoResponse,
+  WikidataEntitiesResponse
+} from '../types';
+import { MetadataProvider, PageviewsProvider } from './types';
+
+const API_BASE = "https://wikimedia.org/api/rest_v1/metrics/pageviews";
+
+/**
+ * Construit l'URL de l'API MediaWiki `action=query` d'un wiki
+ */
+function buildQueryUrl(language: string, params: string, titles: string[]): string {
+  const titlesParam = titles.map(t => encodeURIComponent(t)).join('|');
+  return `https://${language}.wikipedia.org/w/api.php?action=query&format=json&${params}&titles=${titlesParam}&formatversion=2&origin=*`;
+}
+
+/**
+ * Données de consultation issues de wikimedia.org
+ */
+export const livePageviewsProvider: PageviewsProvider = {
+  getTop(language, date, allDays, access, signal) {
+    const day = allDays ? 'all-days' : format(date, 'dd');
+    const url = `${API_BASE}/top/${language}.wikipedia/${access}/${format(date, 'yyyy')}/${format(date, 'MM')}/${day}`;
+    return fetchFromAPI<ApiResponse>(url, signal);
+  },
+
+  getTopPerCountry(country, date, access, signal) {
+    const url = `${API_BASE}/top-per-country/${country}/${access}/${format(date, 'yyyy')}/${format(date, 'MM')}/${format(date, 'dd')}`;
+    return fetchFromAPI<CountryTopResponse>(url, signal);
+  },
+
+  getPerArticle(article, language, agent, start, end, signal) {
+    const encodedArticle = encodeURIComponent(article);
+    const url = `${API_BASE}/per-article/${language}.wikipedia/all-access/${agent}/${encodedArticle}/daily/${format(start, 'yyyyMMdd')}/${format(end, 'yyyyMMdd')}`;
+    return fetchFromAPI<PerArticleResponse>(url, signal);
+  },
+
+  getAggregate(language, access, agent, start, end, signal) {
+    const url = `${API_BASE}/aggregate/${language}.wikipedia/${access}/${agent}/daily/${format(start, 'yyyyMMdd')}/${format(end, 'yyyyMMdd')}`;
+    return fetchFromAPI<AggregateResponse>(url, signal);
+  }
+};
+
+/**
+ * Métadonnées issues de l'API MediaWiki de chaque *.wikipedia.org
+ */
+export const liveMetadataProvider: MetadataProvider = {
+  async getPageMetadata(titles, language, signal) {
+    // Les limites `max` valent pour tout le lot ; le reste des catégories et extraits suit via `continue`
+    const params = `prop=pageimages|extracts|categories|pageprops&ppprop=disambiguation&exintro=1&explaintext=1&pithumbsize=100&pilimit=${titles.length}&cllimit=max&exlimit=max`;
+    const pages = new Map<string, MediaWikiResponse['query']['pages'][number]>();
+    let continuation = '';
+
+    do {
+      const data = await fetchFromAPI<MediaWikiResponse>(buildQueryUrl(language, params + continuation, titles), signal);
+      data.query.pages.forEach(page => {
+        const known = pages.get(page.title);
+        pages.set(page.title, known
+          ? { ...known, ...page, categories: [...(known.categories ?? []), ...(page.categories ?? [])] }
+          : page);
+      });
+      continuation = data.continue ? `&${new URLSearchParams(data.continue)}` : '';
+    } while (continuation);
+
+    return { query: { pages: [...pages.values()] } };
+  },
+
+  getWikidataIds(titles, language, signal) {
+    return fetchFromAPI<PagePropsResponse>(buildQueryUrl(language, 'prop=pageprops&ppprop=wikibase_item', titles), signal);
+  },
+
+  getWikidataEntities(ids, signal) {
+    const url = `https://www.wikidata.org/w/api.php?action=wbgetentities&format=json&props=claims&ids=${ids.join('|')}&origin=*`;
+    return fetchFromAPI<WikidataEntitiesResponse>(url, signal);
+  },
+
+  getRevisions(title, language, start, end, limit, signal) {
+    // rvstart est la borne la plus récente : l'API parcourt l'historique à rebours
+    const params = `prop=revisions&rvprop=timestamp|user|comment&rvlimit=${limit}` +
+      `&rvstart=${format(end, "yyyy-MM-dd'T'23:59:59'Z'")}&rvend=${format(start, "yyyy-MM-dd'T'00:00:00'Z'")}`;
+    return fetchFromAPI<RevisionsResponse>(buildQueryUrl(language, params, [title]), signal);
+  },
+
+  getSiteInfo(language, signal) {
+    const url = `https://${language}.wikipedia.org/w/api.php?action=query&format=json&meta=siteinfo&siprop=general|namespaces|namespacealiases&formatversion=2&origin=*`;
+    return fetchFromAPI<SiteInfoResponse>(url, signal);
+  }
+};
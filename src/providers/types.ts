@@ -0,0 +1,36 @@
+import {
+  AccessFilter, AggregateResponse, Agent, ApiResponse, CountryTopResponse, Language, MediaWikiResponse, PagePropsResponse, PerArticleResponse,
+  RevisionsResponse, SiteInfoResponse, WikidataEntitiesResponse
+} from '../types';
+
+/**
+ * Source des données de consultation (API Wikimedia Pageviews ou équivalent).
+ * `signal` annule la requête ; une donnée absente ou pas encore publiée lève `NotFoundError`.
+ */
+export interface PageviewsProvider {
+  /** Classement d'un jour, ou du mois entier de `date` si `allDays`, pour un mode d'accès */
+  getTop(language: Language, date: Date, allDays: boolean, access: AccessFilter, signal?: AbortSignal): Promise<ApiResponse>;
+  /** Classement d'un jour pour les internautes d'un pays, tous projets confondus */
+  getTopPerCountry(country: string, date: Date, access: AccessFilter, signal?: AbortSignal): Promise<CountryTopResponse>;
+  /** Vues quotidiennes d'un article (tous accès) entre deux dates incluses */
+  getPerArticle(article: string, language: Language, agent: Agent, start: Date, end: Date, signal?: AbortSignal): Promise<PerArticleResponse>;
+  /** Vues quotidiennes totales d'un wiki entre deux dates incluses */
+  getAggregate(language: Language, access: AccessFilter, agent: Agent, start: Date, end: Date, signal?: AbortSignal): Promise<AggregateResponse>;
+}
+
+/**
+ * Source des métadonnées d'articles (API MediaWiki ou équivalent).
+ * Les titres sont passés avec des espaces, au plus 50 par appel ; `signal` annule la requête.
+ */
+export interface MetadataProvider {
+  /** Vignette, introduction, catégories et marque d'homonymie */
+  getPageMetadata(titles: string[], language: Language, signal?: AbortSignal): Promise<MediaWikiResponse>;
+  /** Élément Wikidata associé à chaque page */
+  getWikidataIds(titles: string[], language: Language, signal?: AbortSignal): Promise<PagePropsResponse>;
+  /** Déclarations des éléments Wikidata demandés (au plus 50 par appel) */
+  getWikidataEntities(ids: string[], signal?: AbortSignal): Promise<WikidataEntitiesResponse>;
+  /** Modifications d'une page entre deux dates incluses, des plus récentes aux plus anciennes */
+  getRevisions(title: string, language: Language, start: Date, end: Date, limit: number, signal?: AbortSignal): Promise<RevisionsResponse>;
+  /** Espaces de noms, alias et page d'accueil du wiki */
+  getSiteInfo(language: Language, signal?: AbortSignal): Promise<SiteInfoResponse>;
+}
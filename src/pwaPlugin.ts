@@ -0,0 +1,26 @@
+import type { Plugin } from 'vite';
+
+// Expression remplacée, dans le service worker construit, par la liste des fichiers du build
+const SHELL_FILES_PLACEHOLDER = 'self.__SHELL_FILES__';
+
+/**
+ * Injecte dans `sw.js` les fichiers du build (noms hachés) à mettre en cache à l'installation :
+ * le service worker change donc à chaque version, ce qui déclenche sa mise à jour
+ */
+export function pwaPlugin(): Plugin {
+  return {
+    name: 'helvetiscan-pwa',
+    // Après l'émission des pages HTML
+    enforce: 'post',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const worker = bundle['sw.js'];
+      if (!worker || worker.type !== 'chunk') return;
+
+      const files = Object.keys(bundle)
+        .filter(fileName => fileName !== 'sw.js' && fileName !== 'embed.js' && !fileName.endsWith('.map'))
+        .map(fileName => `/${fileName}`);
+      worker.code = worker.code.replace(SHELL_FILES_PLACEHOLDER, JSON.stringify(files));
+    }
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { rowKey, searchArticles, sortArticles } from './ranking';
+import { Article } from './types';
+
+const articles: Article[] = [
+  { article: 'Genève', views: 300, growth: 50, growthPercentage: 20, reliability: 'medium' },
+  { article: 'Roger_Federer', views: 200, growth: 120, growthPercentage: 150, reliability: 'high' },
+  { article: 'Zurich', views: 100, localTitles: { de: 'Zürich' }, mainLanguage: 'fr' },
+  { article: 'Kylian_Mbappé', views: 150, growth: 80, growthPercentage: 60, reliability: 'low' },
+];
+
+const titles = (rows: Article[]) => rows.map(({ article }) => article);
+
+describe('searchArticles', () => {
+  it('matches titles regardless of case, accents and underscores', () => {
+    expect(titles(searchArticles(articles, 'geneve'))).toEqual(['Genève']);
+    expect(titles(searchArticles(articles, 'roger fed'))).toEqual(['Roger_Federer']);
+    expect(searchArticles(articles, '  ')).toBe(articles);
+  });
+
+  it('also matches the local titles of merged rows', () => {
+    expect(titles(searchArticles(articles, 'zürich'))).toEqual(['Zurich']);
+  });
+});
+
+describe('sortArticles', () => {
+  it('sorts by value and leaves rows without one at the end', () => {
+    expect(titles(sortArticles(articles, { key: 'growth', direction: 'desc' })))
+      .toEqual(['Roger_Federer', 'Kylian_Mbappé', 'Genève', 'Zurich']);
+    expect(titles(sortArticles(articles, { key: 'growthPercentage', direction: 'asc' })))
+      .toEqual(['Genève', 'Kylian_Mbappé', 'Roger_Federer', 'Zurich']);
+    expect(titles(sortArticles(articles, { key: 'reliability', direction: 'desc' })))
+      .toEqual(['Roger_Federer', 'Genève', 'Kylian_Mbappé', 'Zurich']);
+  });
+
+  it('sorts by automated share, known only for the analysed rows', () => {
+    const analyzed: Article[] = [
+      { article: 'Genève', views: 300, agentViews: { user: 290, automated: 10 } },
+      { article: 'Zurich', views: 200 },
+      { article: 'Robot', views: 100, agentViews: { user: 40, automated: 60 } },
+    ];
+
+    expect(titles(sortArticles(analyzed, { key: 'automatedShare', direction: 'desc' }))).toEqual(['Robot', 'Genève', 'Zurich']);
+  });
+
+  it('keeps or reverses the ranking order', () => {
+    expect(sortArticles(articles, { key: 'rank', direction: 'asc' })).toBe(articles);
+    expect(titles(sortArticles(articles, { key: 'rank', direction: 'desc' })))
+      .toEqual(['Kylian_Mbappé', 'Zurich', 'Roger_Federer', 'Genève']);
+    expect(titles(sortArticles(articles, { key: 'views', direction: 'asc' })))
+      .toEqual(['Zurich', 'Kylian_Mbappé', 'Roger_Federer', 'Genève']);
+  });
+});
+
+describe('rowKey', () => {
+  it('distinguishes the same title on different wikis', () => {
+    expect(rowKey({ article: 'Zurich', views: 1, mainLanguage: 'fr' })).not.toBe(rowKey({ article: 'Zurich', views: 1, mainLanguage: 'en' }));
+  });
+});
@@ -0,0 +1,59 @@
+import { articleTitle } from './articles';
+import { automatedShare } from './traffic';
+import { Article } from './types';
+
+/** Colonnes triables du classement ; `rank` rétablit l'ordre d'origine */
+export type RankingSortKey = 'rank' | 'views' | 'growth' | 'growthPercentage' | 'reliability' | 'automatedShare';
+
+export interface RankingSort {
+  key: RankingSortKey;
+  /** `desc` : valeurs les plus fortes d'abord ; `asc` avec `rank` : ordre du classement */
+  direction: 'asc' | 'desc';
+}
+
+export const DEFAULT_RANKING_SORT: RankingSort = { key: 'rank', direction: 'asc' };
+
+/** Clé d'une ligne de classement, unique même en mode fusionné */
+export function rowKey(article: Article): string {
+  return `${article.mainLanguage ?? ''}:${article.article}`;
+}
+
+// Minuscules, sans accents : « geneve » trouve « Genève »
+const searchable = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Lignes dont un titre (ou un titre local, pour les lignes fusionnées) contient la recherche
+ */
+export function searchArticles(articles: Article[], query: string): Article[] {
+  const needle = searchable(query.trim());
+  if (!needle) return articles;
+
+  return articles.filter(article => [article.article, ...Object.values(article.localTitles ?? {})]
+    .some(title => searchable(articleTitle({ article: title, views: 0 })).includes(needle)));
+}
+
+const RELIABILITY_ORDER: Record<NonNullable<Article['reliability']>, number> = { low: 1, medium: 2, high: 3 };
+
+function sortValue(article: Article, key: Exclude<RankingSortKey, 'rank'>): number | undefined {
+  if (key === 'reliability') return article.reliability && RELIABILITY_ORDER[article.reliability];
+  if (key === 'automatedShare') return automatedShare(article);
+  return article[key];
+}
+
+/**
+ * Trie une copie du classement ; les lignes sans valeur viennent en dernier, dans l'ordre d'origine
+ */
+export function sortArticles(articles: Article[], { key, direction }: RankingSort): Article[] {
+  if (key === 'rank') return direction === 'asc' ? articles : [...articles].reverse();
+
+  const sign = direction === 'desc' ? -1 : 1;
+  return articles
+    .map((article, index) => ({ article, index, value: sortValue(article, key) }))
+    .sort((a, b) => {
+      if (a.value === undefined || b.value === undefined) {
+        return a.value === b.value ? a.index - b.index : a.value === undefined ? 1 : -1;
+      }
+      return sign * (a.value - b.value) || a.index - b.index;
+    })
+    .map(({ article }) => article);
+}
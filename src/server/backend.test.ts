@@ -0,0 +1,121 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setProviders } from '../api';
+import { createFixtureMetadataProvider, createFixturePageviewsProvider } from '../providers/fixture';
+import { Article } from '../types';
+import { createBackendMiddleware, takeSnapshot } from './backend';
+import { SnapshotStore, createSnapshotStore } from './snapshotStore';
+
+const fixturesDir = fileURLToPath(new URL('../../fixtures', import.meta.url));
+
+let dataDir: string;
+let store: SnapshotStore;
+
+beforeEach(async () => {
+  // Les fixtures couvrent le 1er mars 2026, soit « hier » pour l'application
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date(2026, 2, 2, 10));
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  setProviders({
+    pageviews: createFixturePageviewsProvider(fixturesDir),
+    metadata: createFixtureMetadataProvider(fixturesDir)
+  });
+  dataDir = await mkdtemp(join(tmpdir(), 'helvetiscan-'));
+  store = createSnapshotStore(dataDir);
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+interface TestResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+// Exécute le middleware sur une requête GET ; null si elle est laissée au suivant
+async function request(path: string): Promise<TestResponse | null> {
+  const headers: Record<string, string> = {};
+  let body = '';
+  let passed = false;
+  const req = { method: 'GET', url: path, headers: { host: 'localhost' } } as IncomingMessage;
+  const res = {
+    statusCode: 200,
+    setHeader: (name: string, value: string) => { headers[name] = value; },
+    end: (content: string) => { body = content; }
+  } as unknown as ServerResponse;
+
+  await createBackendMiddleware(store)(req, res, () => { passed = true; });
+  return passed ? null : { status: res.statusCode, headers, body: headers['Content-Type']?.startsWith('application/json') ? JSON.parse(body) : body };
+}
+
+describe('takeSnapshot', () => {
+  it('archives the top list and the enriched rankings of a day', async () => {
+    await takeSnapshot(store, new Date(2026, 2, 1), ['fr']);
+
+    const ranking = await store.loadRanking({ tab: 'mostViewed', language: 'fr', swissFilter: 'none', date: '2026-03-01' });
+    expect(ranking?.slice(0, 2).map(article => article.article)).toEqual(['Genève', 'Roger_Federer']);
+    expect(ranking?.[0]).toMatchObject({ topic: 'places' });
+    expect(await store.loadArticleHistory('fr', 'Genève', ['2026-03-01'])).toEqual([{ date: '2026-03-01', views: 45000 }]);
+  });
+});
+
+describe('createBackendMiddleware', () => {
+  it('serves rankings live, then from the archive', async () => {
+    const live = await request('/api/top?date=2026-03-01');
+    const archived = await request('/api/top?date=2026-03-01');
+
+    expect(live?.headers['X-HelvetiScan-Source']).toBe('live');
+    expect(archived?.headers['X-HelvetiScan-Source']).toBe('archive');
+    expect(archived?.body).toEqual(live?.body);
+    expect(archived?.headers['Access-Control-Allow-Origin']).toBe('*');
+  });
+
+  it('ends on the latest published day without a date, and reports unpublished days', async () => {
+    vi.setSystemTime(new Date(2026, 2, 3, 6));
+
+    const latest = await request('/api/top');
+    expect((latest?.body as Article[])[0]).toMatchObject({ article: 'Genève', views: 45000 });
+    expect(await store.loadRanking({ tab: 'mostViewed', language: 'fr', swissFilter: 'none', date: '2026-03-01' })).not.toBeNull();
+    expect((await request('/api/top?date=2026-03-02'))?.status).toBe(404);
+  });
+
+  it('completes the view history with archived days', async () => {
+    await store.saveTopList('fr', '2026-02-26', [{ article: 'Genève', views: 14800 } as Article]);
+
+    const response = await request('/api/history?article=Genève&lang=fr&days=3&date=2026-03-01');
+
+    expect(response?.body).toEqual([
+      { date: '2026-02-26', views: 14800 },
+      { date: '2026-02-27', views: 15000 },
+      { date: '2026-02-28', views: 15200 },
+      { date: '2026-03-01', views: 45000 }
+    ]);
+  });
+
+  it('rejects invalid history requests and non-Wikimedia proxy targets', async () => {
+    expect((await request('/api/history?article=Genève&lang=ch'))?.status).toBe(400);
+    expect((await request(`/api/proxy?url=${encodeURIComponent('https://example.org/')}`))?.status).toBe(403);
+  });
+
+  it('serves feed exports on a stable URL', async () => {
+    const response = await request('/export/rss?tab=mostViewed&lang=fr&period=daily&swiss=none&date=2026-03-01');
+
+    expect(response?.status).toBe(200);
+    expect(response?.headers['Content-Type']).toContain('application/rss+xml');
+    expect(response?.body).toContain('Genève');
+  });
+
+  it('leaves other routes to the next middleware', async () => {
+    expect(await request('/index.html')).toBeNull();
+    expect(await request('/api/unknown')).toBeNull();
+    expect(await request('/export/pdf')).toBeNull();
+  });
+});
@@ -0,0 +1,256 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { eachDayOfInterval, parseISO, subDays } from 'date-fns';
+import {
+  RankingOptions,
+  SWISS_NATIONAL_LANGUAGES,
+  fetchArticleViewHistory,
+  fetchDailyTopViews,
+  fetchLatestPublishedDate,
+  fetchTopArticles,
+  fetchTrendingArticles,
+  getLatestAvailableDate
+} from '../api';
+import { getCacheTtl } from '../cache';
+import { NotFoundError, RateLimitError } from '../errors';
+import { parseExportUrl, serializeArticles } from '../export';
+import { fetchFromAPI } from '../http';
+import { isSuspicious } from '../traffic';
+import { Agent, Article, Language, LanguageSelection, Period, RankingTab, SwissFilter, ViewHistory } from '../types';
+import { LANGUAGE_SELECTIONS, RANKING_TABS, SWISS_FILTERS, formatViewDate, parseViewDate, parseViewState } from '../urlState';
+import { SnapshotStore } from './snapshotStore';
+
+/** Wikis archivés chaque jour : les quatre langues nationales et leur fusion */
+export const DEFAULT_SNAPSHOT_LANGUAGES: LanguageSelection[] = [...SWISS_NATIONAL_LANGUAGES, 'ch'];
+
+const AGENTS: Agent[] = ['user', 'automated', 'spider', 'all-agents'];
+const MAX_HISTORY_DAYS = 3650;
+
+// Seules les API Wikimedia sont relayées : le proxy ne doit pas servir de relais ouvert
+function isAllowedUpstream(url: URL): boolean {
+  return url.protocol === 'https:' &&
+    (url.hostname === 'wikimedia.org' || url.hostname === 'www.wikidata.org' || url.hostname.endsWith('.wikipedia.org'));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  Object.entries(headers).forEach(([name, value]) => res.setHeader(name, value));
+  res.end(JSON.stringify(body));
+}
+
+function fetchRanking(
+  tab: RankingTab,
+  language: LanguageSelection,
+  period: Period,
+  swissFilter: SwissFilter,
+  options: RankingOptions
+): Promise<Article[]> {
+  return tab === 'mostViewed'
+    ? fetchTopArticles(language, period, swissFilter, options)
+    : fetchTrendingArticles(language, period, swissFilter, options);
+}
+
+/**
+ * Archive les classements bruts et enrichis d'un jour pour chaque wiki ;
+ * les classements déjà archivés sont conservés. Retourne le nombre d'échecs.
+ */
+export async function takeSnapshot(
+  store: SnapshotStore,
+  date: Date,
+  languages: LanguageSelection[] = DEFAULT_SNAPSHOT_LANGUAGES
+): Promise<number> {
+  const day = formatViewDate(date);
+  let failures = 0;
+
+  // Requêtes séquentielles, pour ménager les API Wikimedia
+  for (const language of languages) {
+    if (language !== 'ch') {
+      try {
+        await store.saveTopList(language, day, await fetchDailyTopViews(language, date));
+      } catch (error) {
+        console.error(`Error archiving ${language} top list for ${day}:`, error);
+        failures++;
+      }
+    }
+
+    for (const tab of RANKING_TABS) {
+      for (const swissFilter of SWISS_FILTERS) {
+        const key = { tab, language, swissFilter, date: day };
+        if (await store.loadRanking(key)) continue;
+        try {
+          await store.saveRanking(key, await fetchRanking(tab, language, 'daily', swissFilter, { endDate: date }));
+        } catch (error) {
+          console.error(`Error archiving ${language} ${tab} (${swissFilter}) for ${day}:`, error);
+          failures++;
+        }
+      }
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * `/api/top` et `/api/trending` : mêmes paramètres que l'URL de l'interface.
+ * Les classements d'un jour tous accès sont servis depuis l'archive, ou calculés puis archivés.
+ * Sans date, la période se termine au dernier jour publié.
+ */
+async function handleRanking(tab: RankingTab, url: URL, store: SnapshotStore, res: ServerResponse): Promise<void> {
+  const { language, period, swissFilter, access, date } = parseViewState(url.searchParams, getLatestAvailableDate());
+  const day = date ?? formatViewDate(await fetchLatestPublishedDate(language, swissFilter, access));
+  const archivable = period === 'daily' && access === 'all-access';
+  const key = { tab, language, swissFilter, date: day };
+
+  if (archivable) {
+    const archived = await store.loadRanking(key);
+    if (archived) {
+      sendJson(res, 200, archived, { 'X-HelvetiScan-Source': 'archive' });
+      return;
+    }
+  }
+
+  const articles = await fetchRanking(tab, language, period, swissFilter, { endDate: parseISO(day), access });
+  if (archivable) await store.saveRanking(key, articles);
+  sendJson(res, 200, articles, { 'X-HelvetiScan-Source': 'live' });
+}
+
+/**
+ * `/api/history?article=&lang=&days=&date=&agent=` : série Wikimedia complétée par l'archive,
+ * qui couvre aussi les jours que l'API ne conserve plus
+ */
+async function handleHistory(url: URL, store: SnapshotStore, res: ServerResponse): Promise<void> {
+  const params = url.searchParams;
+  // L'API Pageviews attend le titre avec des soulignés
+  const article = (params.get('article') ?? '').replace(/ /g, '_');
+  const language = params.get('lang') as Language;
+  if (!article || language === 'ch' as LanguageSelection || !LANGUAGE_SELECTIONS.includes(language)) {
+    sendJson(res, 400, { error: 'Expected article and lang (single wiki) parameters.' });
+    return;
+  }
+
+  const latestDate = getLatestAvailableDate();
+  const days = Math.min(Math.max(Number(params.get('days')) || 30, 1), MAX_HISTORY_DAYS);
+  const agent = AGENTS.find(value => value === params.get('agent')) ?? 'user';
+  const endDate = parseISO(parseViewDate(params.get('date'), latestDate) ?? formatViewDate(latestDate));
+
+  let live: ViewHistory[] = [];
+  let upstreamFailed = false;
+  try {
+    live = await fetchArticleViewHistory(article, language, days, endDate, agent);
+  } catch (error) {
+    console.error(`Error loading upstream history for ${article}:`, error);
+    upstreamFailed = true;
+  }
+
+  // Les classements archivés ne comptent que les lectures humaines
+  const dates = eachDayOfInterval({ start: subDays(endDate, days), end: endDate }).map(formatViewDate);
+  const archived = agent === 'user' ? await store.loadArticleHistory(language, article, dates) : [];
+
+  const byDate = new Map([...archived, ...live].map(day => [day.date, day.views]));
+  if (byDate.size === 0 && upstreamFailed) {
+    sendJson(res, 502, { error: 'Upstream data could not be loaded.' });
+    return;
+  }
+
+  const history = dates.flatMap(date => (byDate.has(date) ? [{ date, views: byDate.get(date) ?? 0 }] : []));
+  sendJson(res, 200, history);
+}
+
+/**
+ * `/api/proxy?url=` : relaie une requête Wikimedia avec le User-Agent et le cache du serveur
+ */
+async function handleProxy(url: URL, res: ServerResponse): Promise<void> {
+  let upstream: URL;
+  try {
+    upstream = new URL(url.searchParams.get('url') ?? '');
+  } catch {
+    sendJson(res, 400, { error: 'Expected an absolute url parameter.' });
+    return;
+  }
+
+  if (!isAllowedUpstream(upstream)) {
+    sendJson(res, 403, { error: 'Only Wikimedia APIs can be proxied.' });
+    return;
+  }
+
+  const data = await fetchFromAPI(upstream.toString());
+  const ttl = getCacheTtl(upstream.toString(), data);
+  sendJson(res, 200, data, {
+    'Cache-Control': Number.isFinite(ttl) ? `public, max-age=${Math.round(ttl / 1000)}` : 'public, max-age=31536000, immutable'
+  });
+}
+
+/**
+ * `/export/{format}?tab=&lang=&period=&swiss=&access=&date=` : export sur une URL stable,
+ * de sorte que les lecteurs de flux puissent s'abonner aux classements
+ */
+async function handleExport(url: URL, res: ServerResponse, next: () => void): Promise<void> {
+  const request = parseExportUrl(url);
+  if (!request) {
+    next();
+    return;
+  }
+
+  const { format, context } = request;
+  const options = { endDate: context.date ? parseISO(context.date) : undefined, access: context.access };
+  const articles = await fetchRanking(context.tab, context.language, context.period, context.swissFilter, options);
+  // Comme dans l'interface, les entrées suspectes sont masquées
+  const visible = articles.filter(article => !isSuspicious(article));
+  const file = serializeArticles(visible, { ...context, generatedAt: new Date() }, format, url.toString());
+
+  res.setHeader('Content-Type', file.mimeType);
+  res.setHeader('Content-Disposition', `inline; filename="${file.filename}"`);
+  res.setHeader('Cache-Control', 'public, max-age=900');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.end(file.content);
+}
+
+/**
+ * Middleware du backend (`/api/top`, `/api/trending`, `/api/history`, `/api/proxy`, `/export/*`),
+ * utilisable par le serveur autonome comme par Vite
+ */
+export function createBackendMiddleware(store: SnapshotStore) {
+  return async (req: IncomingMessage, res: ServerResponse, next: () => void): Promise<void> => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    if (req.method !== 'GET' || !(url.pathname.startsWith('/api/') || url.pathname.startsWith('/export/'))) {
+      next();
+      return;
+    }
+
+    try {
+      if (url.pathname.startsWith('/export/')) {
+        await handleExport(url, res, next);
+        return;
+      }
+
+      switch (url.pathname) {
+        case '/api/top':
+          await handleRanking('mostViewed', url, store, res);
+          break;
+        case '/api/trending':
+          await handleRanking('trending', url, store, res);
+          break;
+        case '/api/history':
+          await handleHistory(url, store, res);
+          break;
+        case '/api/proxy':
+          await handleProxy(url, res);
+          break;
+        default:
+          next();
+      }
+    } catch (error) {
+      console.error('Error handling backend request:', error);
+      // Statuts Wikimedia relayés : le client distingue une donnée non publiée d'une limitation de débit
+      if (error instanceof NotFoundError) {
+        sendJson(res, 404, { error: 'Data not found or not yet available.' });
+      } else if (error instanceof RateLimitError) {
+        const headers: Record<string, string> = error.retryAfter === undefined ? {} : { 'Retry-After': String(Math.ceil(error.retryAfter / 1000)) };
+        sendJson(res, 429, { error: 'Upstream rate limit reached.' }, headers);
+      } else {
+        sendJson(res, 502, { error: 'Upstream data could not be loaded.' });
+      }
+    }
+  };
+}
@@ -0,0 +1,33 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { CacheEntry, PersistentCache } from '../cache';
+
+/**
+ * Réponses Wikimedia persistées sur disque, un fichier par URL.
+ * `expiresAt` vaut `Infinity` pour les données historiques, que JSON ne sait pas représenter : on écrit null.
+ */
+export function createFileCache(dir: string): PersistentCache {
+  const pathOf = (key: string) => join(dir, `${createHash('sha1').update(key).digest('hex')}.json`);
+
+  return {
+    async read(key) {
+      try {
+        const entry = JSON.parse(await readFile(pathOf(key), 'utf-8')) as CacheEntry & { expiresAt: number | null };
+        return { ...entry, expiresAt: entry.expiresAt ?? Infinity };
+      } catch {
+        return undefined;
+      }
+    },
+
+    async write(key, entry) {
+      try {
+        await mkdir(dir, { recursive: true });
+        const expiresAt = Number.isFinite(entry.expiresAt) ? entry.expiresAt : null;
+        await writeFile(pathOf(key), JSON.stringify({ ...entry, expiresAt }), 'utf-8');
+      } catch (error) {
+        console.error('Error writing cache file:', error);
+      }
+    }
+  };
+}
@@ -0,0 +1,77 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { Article, Language, LanguageSelection, RankingTab, SwissFilter, ViewHistory } from '../types';
+
+/*
+ * Arborescence de l'archive sous `rootDir` :
+ *   top/{lang}/{yyyy-MM-dd}.json  (classement brut du jour : { titre: vues })
+ *   rankings/{yyyy-MM-dd}/{lang}/{onglet}-{filtre suisse}.json  (Article[] enrichis, période d'un jour)
+ */
+
+/** Classement archivé : période d'un jour, tous modes d'accès */
+export interface RankingKey {
+  tab: RankingTab;
+  language: LanguageSelection;
+  swissFilter: SwissFilter;
+  /** yyyy-MM-dd */
+  date: string;
+}
+
+export interface SnapshotStore {
+  saveTopList(language: Language, date: string, articles: Article[]): Promise<void>;
+  saveRanking(key: RankingKey, articles: Article[]): Promise<void>;
+  /** null si le classement n'a pas été archivé */
+  loadRanking(key: RankingKey): Promise<Article[] | null>;
+  /** Vues archivées d'un article pour les jours donnés (yyyy-MM-dd), jours hors classement omis */
+  loadArticleHistory(language: Language, article: string, dates: string[]): Promise<ViewHistory[]>;
+}
+
+async function readJson<T>(path: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Error reading snapshot ${path}:`, error);
+    }
+    return null;
+  }
+}
+
+// Écriture puis renommage : un lecteur ne voit jamais de fichier à moitié écrit
+async function writeJson(path: string, data: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const temporary = `${path}.${process.pid}.tmp`;
+  await writeFile(temporary, JSON.stringify(data), 'utf-8');
+  await rename(temporary, path);
+}
+
+/**
+ * Archive de classements sur disque (fichiers JSON)
+ */
+export function createSnapshotStore(rootDir: string): SnapshotStore {
+  const topListPath = (language: Language, date: string) => join(rootDir, 'top', language, `${date}.json`);
+  const rankingPath = ({ tab, language, swissFilter, date }: RankingKey) =>
+    join(rootDir, 'rankings', date, language, `${tab}-${swissFilter}.json`);
+
+  return {
+    saveTopList(language, date, articles) {
+      return writeJson(topListPath(language, date), Object.fromEntries(articles.map(({ article, views }) => [article, views])));
+    },
+
+    saveRanking(key, articles) {
+      return writeJson(rankingPath(key), articles);
+    },
+
+    loadRanking(key) {
+      return readJson<Article[]>(rankingPath(key));
+    },
+
+    async loadArticleHistory(language, article, dates) {
+      const lists = await Promise.all(dates.map(date => readJson<Record<string, number>>(topListPath(language, date))));
+      return dates.flatMap((date, index) => {
+        const views = lists[index]?.[article];
+        return views === undefined ? [] : [{ date, views }];
+      });
+    }
+  };
+}
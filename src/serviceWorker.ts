@@ -0,0 +1,165 @@
+/**
+ * Service worker (`/sw.js`) : l'application reste consultable hors connexion.
+ * Le shell est mis en cache à l'installation, les vignettes Wikimedia à l'affichage ;
+ * les classements sont enregistrés par l'application (voir `offline.ts`).
+ * Sans import : le fichier est chargé comme script classique.
+ */
+
+// Types du contexte service worker, absents de la bibliothèque DOM du projet
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+
+interface ExtendableMessageEvent extends ExtendableEvent {
+  data: unknown;
+}
+
+interface ServiceWorkerScope {
+  /** Fichiers du build, injectés par `pwaPlugin` */
+  __SHELL_FILES__?: string[];
+  location: Location;
+  clients: { claim(): Promise<void> };
+  skipWaiting(): Promise<void>;
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+  addEventListener(type: 'message', listener: (event: ExtendableMessageEvent) => void): void;
+}
+
+declare const self: ServiceWorkerScope;
+
+const SHELL_CACHE = 'helvetiscan-shell';
+const THUMBNAIL_CACHE = 'helvetiscan-thumbnails';
+// Une réponse opaque compte pour plusieurs Mo dans le quota : seules les réponses CORS sont gardées
+const MAX_THUMBNAILS = 300;
+// Message envoyé par l'application à l'enregistrement d'un classement (voir `offline.ts`)
+const CACHE_THUMBNAILS_MESSAGE = 'helvetiscan:cache-thumbnails';
+
+const SHELL_FILES = ['/', '/manifest.webmanifest', '/icon.svg', ...(self.__SHELL_FILES__ ?? [])];
+
+const isThumbnail = (url: URL) => url.hostname === 'upload.wikimedia.org';
+
+/**
+ * Oublie les vignettes les plus anciennes au-delà de la limite (les clés suivent l'ordre d'ajout)
+ */
+async function trimThumbnails(cache: Cache): Promise<void> {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(keys.length - MAX_THUMBNAILS, 0)).map(key => cache.delete(key)));
+}
+
+/**
+ * Vignette téléchargée en CORS (`upload.wikimedia.org` l'autorise) : réponse lisible, à la taille réelle
+ */
+function fetchThumbnail(url: string): Promise<Response> {
+  return fetch(url, { mode: 'cors', credentials: 'omit' });
+}
+
+/**
+ * Vignette depuis le cache, sinon téléchargée puis gardée ; à défaut de CORS, servie sans être gardée
+ */
+async function cachedThumbnail(request: Request): Promise<Response> {
+  const cache = await caches.open(THUMBNAIL_CACHE);
+  const cached = await cache.match(request.url);
+  if (cached) return cached;
+
+  let response: Response;
+  try {
+    response = await fetchThumbnail(request.url);
+  } catch {
+    return fetch(request);
+  }
+  if (response.ok) {
+    await cache.put(request.url, response.clone());
+    await trimThumbnails(cache);
+  }
+  return response;
+}
+
+async function cacheThumbnails(urls: string[]): Promise<void> {
+  const cache = await caches.open(THUMBNAIL_CACHE);
+  await Promise.all(urls.map(async url => {
+    if (await cache.match(url)) return;
+    try {
+      const response = await fetchThumbnail(url);
+      if (response.ok) await cache.put(url, response);
+    } catch (error) {
+      console.error(`Error caching thumbnail ${url}:`, error);
+    }
+  }));
+  await trimThumbnails(cache);
+}
+
+/**
+ * Fichiers du build : noms hachés, donc immuables ; servis depuis le cache dès qu'ils y sont
+ */
+async function cachedAsset(request: Request): Promise<Response> {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+/**
+ * Pages : réseau d'abord, pour suivre les nouvelles versions ; shell en cache hors connexion
+ */
+async function networkFirstPage(request: Request): Promise<Response> {
+  try {
+    const response = await fetch(request);
+    if (response.ok && new URL(request.url).pathname === '/') {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put('/', response.clone());
+    }
+    return response;
+  } catch (error) {
+    // L'état de la vue est dans l'URL : `/?tab=…` est servi par le shell `/`
+    const cached = await caches.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_FILES)).then(() => self.skipWaiting()));
+});
+
+// Les fichiers d'une version précédente sont supprimés
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    const current = new Set(SHELL_FILES.map(file => new URL(file, self.location.origin).href));
+    const keys = await cache.keys();
+    await Promise.all(keys.filter(key => !current.has(key.url)).map(key => cache.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (isThumbnail(url)) {
+    event.respondWith(cachedThumbnail(request));
+  } else if (url.origin === self.location.origin && request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(cachedAsset(request));
+  }
+  // Les requêtes de données passent par le cache de l'application (voir `cache.ts`)
+});
+
+self.addEventListener('message', event => {
+  const data = event.data as { type?: string; urls?: unknown } | null;
+  if (data?.type === CACHE_THUMBNAILS_MESSAGE && Array.isArray(data.urls)) {
+    event.waitUntil(cacheThumbnails(data.urls.filter((url): url is string => typeof url === 'string')));
+  }
+});
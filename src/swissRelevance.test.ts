@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import { computeSwissRelevance, findSwissPlaces, scoreSwissRelevance } from './swissRelevance';
+import { WikidataEntity } from './types';
+
+function entity(id: string, claims: Record<string, string[]>): WikidataEntity {
+  return {
+    id,
+    claims: Object.fromEntries(Object.entries(claims).map(([property, targets]) => [
+      property,
+      targets.map(target => ({ mainsnak: { datavalue: { value: { id: target } } } }))
+    ]))
+  };
+}
+
+const places: Record<string, WikidataEntity> = {
+  Q_zermatt: entity('Q_zermatt', { P131: ['Q_visp'] }),
+  Q_visp: entity('Q_visp', { P131: ['Q_valais'] }),
+  Q_valais: entity('Q_valais', { P17: ['Q39'] }),
+  Q_lyon: entity('Q_lyon', { P17: ['Q142'] })
+};
+
+const fetchPlaces = vi.fn(async (ids: string[]) =>
+  Object.fromEntries(ids.flatMap(id => (places[id] ? [[id, places[id]]] : [])))
+);
+
+describe('findSwissPlaces', () => {
+  it('follows the P131 chain up to a Swiss territory', async () => {
+    const swiss = await findSwissPlaces(['Q_zermatt', 'Q_lyon'], fetchPlaces);
+
+    expect(swiss.has('Q_zermatt')).toBe(true);
+    expect(swiss.has('Q_visp')).toBe(true);
+    expect(swiss.has('Q_lyon')).toBe(false);
+  });
+});
+
+describe('scoreSwissRelevance', () => {
+  const swissPlaces = new Set(['Q39', 'Q_zermatt']);
+
+  it('gives full weight to country = Switzerland', () => {
+    expect(scoreSwissRelevance(entity('Q1', { P17: ['Q39'] }), swissPlaces)).toEqual({ score: 1, signals: ['country'] });
+  });
+
+  it('combines independent signals', () => {
+    const result = scoreSwissRelevance(entity('Q2', { P27: ['Q39'], P19: ['Q_zermatt'] }), swissPlaces);
+
+    expect(result.signals).toEqual(['citizenship', 'birthplace']);
+    expect(result.score).toBeCloseTo(1 - 0.1 * 0.6);
+  });
+
+  it('keeps a Swiss birthplace alone below the default threshold', () => {
+    expect(scoreSwissRelevance(entity('Q3', { P27: ['Q142'], P19: ['Q_zermatt'] }), swissPlaces).score).toBeCloseTo(0.4);
+  });
+
+  it('ignores unrelated statements', () => {
+    expect(scoreSwissRelevance(entity('Q4', { P17: ['Q142'], P131: ['Q_lyon'] }), swissPlaces)).toEqual({ score: 0, signals: [] });
+  });
+});
+
+describe('computeSwissRelevance', () => {
+  it('resolves referenced places before scoring', async () => {
+    const items: Record<string, WikidataEntity> = {
+      ...places,
+      Q_company: entity('Q_company', { P159: ['Q_zermatt'] })
+    };
+    const fetchEntities = async (ids: string[]) =>
+      Object.fromEntries(ids.flatMap(id => (items[id] ? [[id, items[id]]] : [])));
+
+    const relevance = await computeSwissRelevance(['Q_company', 'Q_unknown'], fetchEntities);
+
+    expect(relevance.get('Q_company')).toEqual({ score: 0.8, signals: ['headquarters'] });
+    expect(relevance.has('Q_unknown')).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+import { SwissSignal, WikidataEntity } from './types';
+
+export const SWITZERLAND_QID = 'Q39';
+
+/** Seuil de pertinence par défaut du filtre « Sujets suisses » */
+export const DEFAULT_SWISS_THRESHOLD = 0.5;
+
+/**
+ * Poids de chaque déclaration Wikidata pointant vers la Suisse.
+ * Les signaux se combinent comme des probabilités indépendantes : 1 - Π(1 - poids).
+ */
+export const SWISS_SIGNAL_WEIGHTS: Record<SwissSignal, number> = {
+  country: 1,
+  citizenship: 0.9,
+  location: 0.9,
+  headquarters: 0.8,
+  origin: 0.6,
+  birthplace: 0.4
+};
+
+// Propriétés dont la valeur est directement un pays
+const COUNTRY_PROPERTIES: [string, SwissSignal][] = [
+  ['P17', 'country'],
+  ['P27', 'citizenship'],
+  ['P495', 'origin']
+];
+
+// Propriétés dont la valeur est un lieu, à rattacher à la Suisse via P17 / P131
+const PLACE_PROPERTIES: [string, SwissSignal][] = [
+  ['P131', 'location'],
+  ['P159', 'headquarters'],
+  ['P19', 'birthplace']
+];
+
+// Profondeur maximale de remontée de la chaîne « situé dans l'entité territoriale » (P131)
+const MAX_LOCATION_DEPTH = 4;
+
+export interface SwissRelevance {
+  score: number;
+  signals: SwissSignal[];
+}
+
+export type EntityFetcher = (ids: string[]) => Promise<Record<string, WikidataEntity>>;
+
+/**
+ * Éléments cibles d'une propriété (valeurs de type élément uniquement)
+ */
+export function getClaimTargets(entity: WikidataEntity, property: string): string[] {
+  return (entity.claims?.[property] || [])
+    .map(claim => claim.mainsnak.datavalue?.value)
+    .flatMap(value => (typeof value === 'object' && value.id ? [value.id] : []));
+}
+
+/**
+ * Lieux référencés par une entité, à résoudre avant le calcul du score
+ */
+export function collectPlaceIds(entity: WikidataEntity): string[] {
+  return PLACE_PROPERTIES.flatMap(([property]) => getClaimTargets(entity, property));
+}
+
+/**
+ * Détermine lesquels des lieux donnés sont situés en Suisse : pays = Suisse (P17),
+ * ou un parent de la chaîne P131 l'est. Le résultat inclut toujours la Suisse elle-même.
+ */
+export async function findSwissPlaces(placeIds: string[], fetchEntities: EntityFetcher): Promise<Set<string>> {
+  const swissPlaces = new Set([SWITZERLAND_QID]);
+  const parents = new Map<string, string[]>();
+  const seen = new Set(placeIds);
+  let frontier = [...seen].filter(id => id !== SWITZERLAND_QID);
+
+  for (let depth = 0; depth < MAX_LOCATION_DEPTH && frontier.length > 0; depth++) {
+    const entities = await fetchEntities(frontier);
+    const next: string[] = [];
+
+    frontier.forEach(id => {
+      const entity = entities[id];
+      if (!entity) return;
+
+      if (getClaimTargets(entity, 'P17').includes(SWITZERLAND_QID)) {
+        swissPlaces.add(id);
+        return;
+      }
+
+      const parentIds = getClaimTargets(entity, 'P131');
+      parents.set(id, parentIds);
+      parentIds.forEach(parentId => {
+        if (!seen.has(parentId)) {
+          seen.add(parentId);
+          next.push(parentId);
+        }
+      });
+    });
+
+    frontier = next;
+  }
+
+  // Propagation vers le bas : un lieu est suisse si l'un de ses parents l'est
+  let changed = true;
+  while (changed) {
+    changed = false;
+    parents.forEach((parentIds, id) => {
+      if (!swissPlaces.has(id) && parentIds.some(parentId => swissPlaces.has(parentId))) {
+        swissPlaces.add(id);
+        changed = true;
+      }
+    });
+  }
+
+  return swissPlaces;
+}
+
+/**
+ * Score de pertinence suisse (0 à 1) d'une entité, avec les signaux retenus
+ */
+export function scoreSwissRelevance(entity: WikidataEntity, swissPlaces: Set<string>): SwissRelevance {
+  const signals: SwissSignal[] = [];
+
+  COUNTRY_PROPERTIES.forEach(([property, signal]) => {
+    if (getClaimTargets(entity, property).includes(SWITZERLAND_QID)) signals.push(signal);
+  });
+  PLACE_PROPERTIES.forEach(([property, signal]) => {
+    if (getClaimTargets(entity, property).some(id => swissPlaces.has(id))) signals.push(signal);
+  });
+
+  const score = 1 - signals.reduce((remaining, signal) => remaining * (1 - SWISS_SIGNAL_WEIGHTS[signal]), 1);
+  return { score, signals };
+}
+
+/**
+ * Calcule la pertinence suisse de chaque élément Wikidata
+ */
+export async function computeSwissRelevance(qids: string[], fetchEntities: EntityFetcher): Promise<Map<string, SwissRelevance>> {
+  const uniqueIds = [...new Set(qids)];
+  const entities = await fetchEntities(uniqueIds);
+  const swissPlaces = await findSwissPlaces(
+    Object.values(entities).flatMap(collectPlaceIds),
+    fetchEntities
+  );
+
+  return new Map(uniqueIds.flatMap(id => {
+    const entity = entities[id];
+    return entity ? [[id, scoreSwissRelevance(entity, swissPlaces)] as const] : [];
+  }));
+}
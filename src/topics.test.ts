@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { classifyTopic, isClassified, summarizeTopics } from './topics';
+
+describe('classifyTopic', () => {
+  it('uses the category conventions of each wiki', () => {
+    expect(classifyTopic({ categories: ['Kategorie:Fußballspieler (FC Basel)', 'Kategorie:Schweizer'] }, 'de')).toBe('sport');
+    expect(classifyTopic({ categories: ['Categoria:Comuni del Canton Ticino'] }, 'it')).toBe('places');
+    expect(classifyTopic({ categories: ['Category:Swiss companies'] }, 'en')).toBe('companies');
+  });
+
+  it('falls back on the description when no category matches', () => {
+    expect(classifyTopic({ categories: [], description: 'Film suisse réalisé en 2025' }, 'fr')).toBe('culture');
+  });
+
+  it('prefers a field over the generic people topic', () => {
+    expect(classifyTopic({ categories: ['Catégorie:Naissance à Bâle', 'Catégorie:Joueur suisse de tennis'] }, 'fr')).toBe('sport');
+    expect(classifyTopic({ categories: ['Catégorie:Naissance à Bâle'] }, 'fr')).toBe('people');
+  });
+
+  it('only treats recent deaths as obituaries', () => {
+    const categories = ['Catégorie:Décès en mars 2026', 'Catégorie:Acteur suisse'];
+    expect(classifyTopic({ categories }, 'fr', 2026)).toBe('deaths');
+    expect(classifyTopic({ categories }, 'fr', 2040)).toBe('culture');
+    expect(classifyTopic({ categories: ['Kategorie:Gestorben 1921'] }, 'de', 2026)).toBe('people');
+  });
+
+  it('matches whole word beginnings only', () => {
+    expect(classifyTopic({ categories: ['Catégorie:Lacune documentaire'] }, 'fr')).toBeUndefined();
+    expect(classifyTopic(undefined, 'fr')).toBeUndefined();
+  });
+});
+
+describe('summarizeTopics', () => {
+  it('counts articles and view shares per topic, unclassified last', () => {
+    expect(summarizeTopics([
+      { article: 'A', views: 600, topic: 'sport' },
+      { article: 'B', views: 200, topic: 'politics' },
+      { article: 'C', views: 200 }
+    ])).toEqual([
+      { topic: 'politics', count: 1, views: 200, share: 0.2 },
+      { topic: 'sport', count: 1, views: 600, share: 0.6 },
+      { topic: 'other', count: 1, views: 200, share: 0.2 }
+    ]);
+  });
+});
+
+describe('isClassified', () => {
+  it('only knows the topic of rows whose metadata is loaded', () => {
+    expect(isClassified({ article: 'A', views: 600, metadata: { categories: [] } })).toBe(true);
+    expect(isClassified({ article: 'B', views: 200 })).toBe(false);
+    expect(isClassified({ article: 'C', views: 200, metadataUnavailable: true })).toBe(false);
+  });
+});
@@ -0,0 +1,196 @@
+import { Article, Language, Topic } from './types';
+
+/** Thèmes dans l'ordre d'affichage des facettes */
+export const TOPICS: Topic[] = ['politics', 'sport', 'culture', 'science', 'people', 'places', 'companies', 'deaths'];
+
+/** Articles sans thème reconnu */
+export type TopicFacet = Topic | 'other';
+
+// Thèmes de domaine : `people` n'est retenu que faute de mieux, `deaths` dépend de l'année du décès
+type DomainTopic = Exclude<Topic, 'people' | 'deaths'>;
+
+interface TopicRules {
+  topics: Record<DomainTopic | 'people', string[]>;
+  /** Catégories de décès, dont l'année distingue les nécrologies des personnalités */
+  deaths: string[];
+}
+
+/**
+ * Débuts de mots (sans accents, en minuscules) recherchés dans les catégories et la description.
+ * Les catégories suivent les conventions de nommage propres à chaque wiki.
+ */
+const TOPIC_RULES: Record<Language, TopicRules> = {
+  fr: {
+    topics: {
+      politics: ['politi', 'election', 'votation', 'referendum', 'parlement', 'conseil federal', 'conseiller national', 'conseiller aux etats', 'ministre', 'president', 'parti ', 'gouvernement', 'initiative populaire', 'depute'],
+      sport: ['sport', 'football', 'tennis', 'hockey', 'ski alpin', 'skieu', 'olympi', 'athlet', 'cycli', 'championnat', 'club ', 'ligue', 'coupe du monde', 'joueu'],
+      culture: ['film', 'cinema', 'musique', 'musicien', 'album', 'chanson', 'chanteu', 'acteur', 'actrice', 'groupe musical', 'roman', 'ecrivain', 'peintre', 'art ', 'musee', 'television', 'serie televisee', 'festival', 'monument'],
+      science: ['science', 'scientifique', 'physique', 'chimi', 'biologi', 'medecin', 'maladie', 'astronomi', 'mathemati', 'technologi', 'logiciel', 'informatique'],
+      places: ['ville', 'commune', 'canton', 'pays', 'capitale', 'village', 'montagne', 'sommet', 'lac ', 'riviere', 'fleuve', 'region', 'localite'],
+      companies: ['entreprise', 'marque', 'banque', 'societe', 'multinationale'],
+      people: ['naissance', 'personnalite']
+    },
+    deaths: ['deces']
+  },
+  de: {
+    topics: {
+      politics: ['politik', 'wahl', 'abstimmung', 'volksabstimmung', 'volksinitiative', 'referendum', 'parlament', 'bundesrat', 'nationalrat', 'standerat', 'minister', 'prasident', 'partei', 'regierung'],
+      sport: ['sport', 'fussball', 'tennis', 'eishockey', 'skirennfahrer', 'olympi', 'leichtathlet', 'radsport', 'radrennfahrer', 'meisterschaft', 'sportverein', 'liga'],
+      culture: ['film', 'musik', 'album', 'lied', 'sanger', 'schauspieler', 'band ', 'roman', 'autor', 'schriftsteller', 'maler', 'kunst', 'museum', 'fernseh', 'festival', 'bauwerk', 'denkmal'],
+      science: ['wissenschaft', 'physik', 'chemi', 'biolog', 'medizin', 'mediziner', 'krankheit', 'astronom', 'mathemati', 'technologie', 'software', 'informatik'],
+      places: ['stadt', 'ort in', 'gemeinde', 'kanton', 'staat', 'hauptstadt', 'dorf', 'berg', 'see in', 'fluss', 'region'],
+      companies: ['unternehmen', 'marke', 'bank', 'konzern', 'hersteller'],
+      people: ['geboren', 'person']
+    },
+    deaths: ['gestorben']
+  },
+  it: {
+    topics: {
+      politics: ['politic', 'elezion', 'votazion', 'referendum', 'parlament', 'consiglio federale', 'consiglieri', 'ministr', 'president', 'partit', 'governo', 'iniziativa popolare', 'deputat'],
+      sport: ['sport', 'calci', 'tennis', 'hockey', 'sciator', 'sci alpino', 'olimpi', 'atlet', 'ciclis', 'campionat', 'squadr', 'giocator'],
+      culture: ['film', 'cinema', 'musica', 'musicist', 'album', 'canzon', 'cantant', 'attor', 'attric', 'gruppi musicali', 'romanz', 'scrittor', 'pittor', 'arte ', 'muse', 'televisi', 'festival', 'monument'],
+      science: ['scienz', 'scientific', 'fisica', 'fisici', 'chimic', 'biolog', 'medicin', 'malatti', 'astronom', 'matematic', 'tecnologi', 'software', 'informatic'],
+      places: ['citta', 'comun', 'canton', 'stati ', 'capital', 'villaggi', 'montagn', 'lago', 'laghi', 'fium', 'region', 'localita'],
+      companies: ['aziend', 'impres', 'marchi', 'banch', 'societa', 'multinazional'],
+      people: ['nati ', 'personalita']
+    },
+    deaths: ['morti']
+  },
+  rm: {
+    topics: {
+      politics: ['politic', 'votaziun', 'elecziun', 'parlament', 'cussegl federal', 'president', 'partida'],
+      sport: ['sport', 'ballape', 'tennis', 'hockey', 'skiunz', 'olimpi'],
+      culture: ['film', 'musica', 'album', 'chanzun', 'art ', 'museum', 'litteratura', 'scriptur'],
+      science: ['scienza', 'fisica', 'chemia', 'biologia', 'medicina', 'tecnologia'],
+      places: ['vitg', 'vischnanca', 'chantun', 'citad', 'pajais', 'muntogn', 'lai ', 'flum', 'regiun'],
+      companies: ['interpresa', 'banca', 'firma'],
+      people: ['naschi', 'persunas']
+    },
+    deaths: ['mort']
+  },
+  en: {
+    topics: {
+      politics: ['politic', 'election', 'referend', 'parliament', 'federal council', 'minister', 'president', 'party', 'government', 'legislat'],
+      sport: ['sport', 'football', 'soccer', 'tennis', 'hockey', 'skier', 'olympi', 'athlet', 'cycli', 'championship', 'league', 'player'],
+      culture: ['film', 'movie', 'music', 'album', 'song', 'singer', 'actor', 'actress', 'band', 'novel', 'writer', 'painter', 'art ', 'museum', 'television', 'festival', 'monument', 'landmark'],
+      science: ['science', 'scientist', 'physic', 'chemi', 'biolog', 'medic', 'disease', 'astronom', 'mathemati', 'technolog', 'software', 'computing'],
+      places: ['cities', 'city', 'town', 'municipalit', 'canton', 'countries', 'country', 'capital', 'village', 'mountain', 'lake', 'river', 'region'],
+      companies: ['compan', 'brand', 'manufacturer', 'bank', 'corporation', 'multinational'],
+      people: ['births', 'living people', 'people from']
+    },
+    deaths: ['deaths']
+  },
+  es: {
+    topics: {
+      politics: ['politic', 'eleccion', 'referendum', 'parlament', 'ministr', 'president', 'partido', 'gobierno', 'diputad'],
+      sport: ['deport', 'futbol', 'tenis', 'hockey', 'esquiador', 'olimpi', 'atleta', 'ciclis', 'campeonato', 'liga', 'jugador'],
+      culture: ['pelicula', 'cine', 'musica', 'musico', 'album', 'cancion', 'cantante', 'actor', 'actriz', 'grupos de musica', 'novela', 'escritor', 'pintor', 'arte ', 'museo', 'television', 'festival', 'monumento'],
+      science: ['ciencia', 'cientific', 'fisica', 'fisico', 'quimic', 'biolog', 'medicina', 'medico', 'enfermedad', 'astronom', 'matematic', 'tecnologia', 'software', 'informatic'],
+      places: ['ciudad', 'municipio', 'canton', 'pais', 'capital', 'pueblo', 'montana', 'lago', 'rio ', 'region', 'localidad'],
+      companies: ['empresa', 'marca', 'banco', 'multinacional'],
+      people: ['nacidos', 'personas']
+    },
+    deaths: ['fallecidos']
+  }
+};
+
+// Une catégorie compte davantage qu'un mot de la description, plus générale
+const CATEGORY_WEIGHT = 2;
+const DESCRIPTION_WEIGHT = 1;
+// Ancienneté maximale (en années) d'un décès pour parler de nécrologie
+const RECENT_DEATH_YEARS = 1;
+
+/**
+ * Texte comparable aux mots-clés : minuscules, sans accents ni ponctuation, entouré d'espaces
+ * pour que les mots-clés terminés par une espace ne désignent qu'un mot entier (« lac » sans « lacune »)
+ */
+function normalize(text: string): string {
+  const plain = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/ß/g, 'ss').toLowerCase();
+  return ` ${plain.replace(/[^a-z0-9]+/g, ' ').trim()} `;
+}
+
+// Le mot-clé doit commencer un mot
+function containsKeyword(text: string, keyword: string): boolean {
+  return text.includes(` ${keyword}`);
+}
+
+function isRecentDeath(category: string, referenceYear: number): boolean {
+  return (category.match(/\d{4}/g) ?? []).some(year => {
+    const age = referenceYear - Number(year);
+    return age >= 0 && age <= RECENT_DEATH_YEARS;
+  });
+}
+
+/**
+ * Thème d'un article d'après ses catégories et sa description, selon les règles du wiki.
+ * Le thème le mieux noté l'emporte (ordre de `TOPICS` en cas d'égalité) ; une personnalité
+ * n'est retenue que si aucun autre thème ne correspond, sauf décès récent (nécrologie).
+ */
+export function classifyTopic(
+  metadata: Article['metadata'],
+  language: Language,
+  referenceYear: number = new Date().getFullYear()
+): Topic | undefined {
+  const rules = TOPIC_RULES[language];
+  const categories = (metadata?.categories ?? []).map(normalize);
+  const description = normalize(metadata?.description ?? '');
+
+  if (categories.some(category =>
+    rules.deaths.some(keyword => containsKeyword(category, keyword)) && isRecentDeath(category, referenceYear)
+  )) {
+    return 'deaths';
+  }
+
+  const scores = new Map<Topic, number>();
+  for (const topic of Object.keys(rules.topics) as (DomainTopic | 'people')[]) {
+    const keywords = rules.topics[topic];
+    const categoryHits = categories.filter(category => keywords.some(keyword => containsKeyword(category, keyword))).length;
+    const descriptionHit = keywords.some(keyword => containsKeyword(description, keyword)) ? 1 : 0;
+    const score = categoryHits * CATEGORY_WEIGHT + descriptionHit * DESCRIPTION_WEIGHT;
+    if (score > 0) scores.set(topic, score);
+  }
+
+  // Décès ancien : l'article reste une personnalité
+  if (categories.some(category => rules.deaths.some(keyword => containsKeyword(category, keyword)))) {
+    scores.set('people', (scores.get('people') ?? 0) + CATEGORY_WEIGHT);
+  }
+
+  const domains = TOPICS.filter(topic => topic !== 'people' && scores.has(topic));
+  if (domains.length === 0) return scores.has('people') ? 'people' : undefined;
+
+  return domains.reduce((best, topic) => ((scores.get(topic) ?? 0) > (scores.get(best) ?? 0) ? topic : best));
+}
+
+/**
+ * Vrai si le thème de la ligne est connu : ses métadonnées ont été chargées (voir `useLazyEnrichment`)
+ */
+export function isClassified(article: Article): boolean {
+  return article.metadata !== undefined;
+}
+
+export function articleFacet(article: Article): TopicFacet {
+  return article.topic ?? 'other';
+}
+
+export interface TopicShare {
+  topic: TopicFacet;
+  count: number;
+  views: number;
+  /** Part des vues de la liste (0 à 1) */
+  share: number;
+}
+
+/**
+ * Nombre d'articles et part des vues de chaque thème présent dans la liste,
+ * dans l'ordre de `TOPICS` puis les articles sans thème
+ */
+export function summarizeTopics(articles: Article[]): TopicShare[] {
+  const totalViews = articles.reduce((sum, article) => sum + article.views, 0);
+
+  return [...TOPICS, 'other' as const].flatMap(topic => {
+    const matching = articles.filter(article => articleFacet(article) === topic);
+    if (matching.length === 0) return [];
+    const views = matching.reduce((sum, article) => sum + article.views, 0);
+    return [{ topic, count: matching.length, views, share: totalViews > 0 ? views / totalViews : 0 }];
+  });
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { accessShares, detectSuspicion, isSuspicious, splitAccessViews } from './traffic';
+import { Article } from './types';
+
+const human: Article = {
+  article: 'Genève',
+  views: 45000,
+  accessViews: { desktop: 15750, 'mobile-web': 27000, 'mobile-app': 2250 },
+  agentViews: { user: 45000, automated: 300 },
+  dailyViews: [5200, 6100, 7400, 5900, 6800, 7000, 6600]
+};
+
+describe('splitAccessViews', () => {
+  it('derives a single missing access method from the all-access total', () => {
+    expect(splitAccessViews(6000, { desktop: 5820, 'mobile-web': 150 })).toEqual({
+      desktop: 5820, 'mobile-web': 150, 'mobile-app': 30
+    });
+  });
+
+  it('gives up when more than one access method is missing', () => {
+    expect(splitAccessViews(6000, { desktop: 5820 })).toBeUndefined();
+  });
+});
+
+describe('accessShares', () => {
+  it('returns the share of each access method', () => {
+    expect(accessShares({ desktop: 1, 'mobile-web': 3, 'mobile-app': 0 })).toEqual({
+      desktop: 0.25, 'mobile-web': 0.75, 'mobile-app': 0
+    });
+  });
+});
+
+describe('detectSuspicion', () => {
+  it('leaves ordinary human traffic alone', () => {
+    expect(detectSuspicion(human, true)).toEqual([]);
+  });
+
+  it('flags desktop-only and automated traffic', () => {
+    const article = {
+      ...human,
+      accessViews: { desktop: 44000, 'mobile-web': 800, 'mobile-app': 200 },
+      agentViews: { user: 45000, automated: 60000 }
+    };
+
+    expect(detectSuspicion(article)).toEqual(['desktop-skew', 'automated-traffic']);
+  });
+
+  it('flags a flat daily profile over a week', () => {
+    const article = { ...human, dailyViews: [6430, 6428, 6431, 6429, 6430, 6432, 6420] };
+
+    expect(detectSuspicion(article)).toEqual(['flat-profile']);
+  });
+
+  it('flags a strong spike only when the article was not edited', () => {
+    const spike = { ...human, trendScore: 12 };
+
+    expect(detectSuspicion(spike, false)).toEqual(['unexplained-spike']);
+    expect(detectSuspicion(spike, true)).toEqual([]);
+    expect(detectSuspicion(spike)).toEqual([]);
+    expect(detectSuspicion({ ...human, trendScore: 3 }, false)).toEqual([]);
+  });
+
+  it('ignores low-traffic articles', () => {
+    expect(detectSuspicion({ article: 'Petit', views: 500, accessViews: { desktop: 500, 'mobile-web': 0, 'mobile-app': 0 } })).toEqual([]);
+  });
+});
+
+describe('isSuspicious', () => {
+  it('is true when at least one flag is set', () => {
+    expect(isSuspicious({ ...human, suspicion: ['flat-profile'] })).toBe(true);
+    expect(isSuspicious({ ...human, suspicion: [] })).toBe(false);
+    expect(isSuspicious(human)).toBe(false);
+  });
+});
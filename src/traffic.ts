@@ -0,0 +1,107 @@
+import { coefficientOfVariation } from './trends';
+import { AccessMethod, Article, SuspicionFlag } from './types';
+
+export const ACCESS_METHODS: AccessMethod[] = ['desktop', 'mobile-web', 'mobile-app'];
+
+/** Seuils de détection du trafic suspect */
+export const SUSPICION_THRESHOLDS = {
+  /** Part des vues sur ordinateur au-delà de laquelle le profil n'est plus humain */
+  desktopShare: 0.95,
+  /** Part des vues « automated » parmi les vues humaines et automatisées */
+  automatedShare: 0.5,
+  /** Coefficient de variation quotidien sous lequel la série est jugée plate */
+  flatProfileCv: 0.05,
+  /** Nombre de jours minimal pour juger de la régularité d'une série */
+  flatProfileMinDays: 7,
+  /** Score z à partir duquel un pic doit s'accompagner d'une activité éditoriale */
+  spikeZScore: 5,
+  /** Vues minimales sur la période pour évaluer un article */
+  minViews: 1000
+};
+
+/**
+ * Répartition des vues par mode d'accès à partir des classements par accès.
+ * Un mode absent de son classement (sous le dernier rang) reçoit le reste du total
+ * tous accès lorsqu'il est le seul manquant ; sinon la répartition est inconnue.
+ */
+export function splitAccessViews(
+  total: number,
+  viewsByAccess: Partial<Record<AccessMethod, number>>
+): Partial<Record<AccessMethod, number>> | undefined {
+  const missing = ACCESS_METHODS.filter(access => viewsByAccess[access] === undefined);
+  if (missing.length > 1) return undefined;
+
+  const known = ACCESS_METHODS.reduce((sum, access) => sum + (viewsByAccess[access] ?? 0), 0);
+  const split = { ...viewsByAccess };
+  if (missing.length === 1) split[missing[0]] = Math.max(total - known, 0);
+  return split;
+}
+
+/**
+ * Part de chaque mode d'accès (0 à 1)
+ */
+export function accessShares(accessViews: Partial<Record<AccessMethod, number>>): Partial<Record<AccessMethod, number>> {
+  const total = ACCESS_METHODS.reduce((sum, access) => sum + (accessViews[access] ?? 0), 0);
+  if (total === 0) return {};
+  return Object.fromEntries(
+    ACCESS_METHODS
+      .filter(access => accessViews[access] !== undefined)
+      .map(access => [access, (accessViews[access] ?? 0) / total])
+  );
+}
+
+/**
+ * Vrai si le pic de l'article doit être confronté à l'historique des modifications
+ */
+export function isStrongSpike(article: Article): boolean {
+  return (article.trendScore ?? 0) >= SUSPICION_THRESHOLDS.spikeZScore;
+}
+
+/**
+ * Part des vues « automated » parmi les vues humaines et automatisées (inconnue hors des lignes analysées)
+ */
+export function automatedShare(article: Article): number | undefined {
+  if (!article.agentViews) return undefined;
+  const { user, automated } = article.agentViews;
+  return user + automated > 0 ? automated / (user + automated) : undefined;
+}
+
+/**
+ * Indices de trafic artificiel d'un article.
+ * `hasRecentEdits` : l'article a-t-il été modifié autour de la période (inconnu si absent).
+ * Le profil horaire n'étant pas publié par article, la régularité est jugée sur les vues quotidiennes.
+ */
+export function detectSuspicion(article: Article, hasRecentEdits?: boolean): SuspicionFlag[] {
+  if (article.views < SUSPICION_THRESHOLDS.minViews) return [];
+  const flags: SuspicionFlag[] = [];
+
+  if (article.accessViews && (accessShares(article.accessViews).desktop ?? 0) >= SUSPICION_THRESHOLDS.desktopShare) {
+    flags.push('desktop-skew');
+  }
+
+  if ((automatedShare(article) ?? 0) >= SUSPICION_THRESHOLDS.automatedShare) {
+    flags.push('automated-traffic');
+  }
+
+  const dailyViews = article.dailyViews ?? [];
+  if (
+    dailyViews.length >= SUSPICION_THRESHOLDS.flatProfileMinDays &&
+    dailyViews.every(views => views > 0) &&
+    coefficientOfVariation(dailyViews) < SUSPICION_THRESHOLDS.flatProfileCv
+  ) {
+    flags.push('flat-profile');
+  }
+
+  if (hasRecentEdits === false && isStrongSpike(article)) {
+    flags.push('unexplained-spike');
+  }
+
+  return flags;
+}
+
+/**
+ * Vrai si l'article porte au moins un indice de trafic artificiel
+ */
+export function isSuspicious(article: Article): boolean {
+  return (article.suspicion?.length ?? 0) > 0;
+}
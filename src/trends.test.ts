@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TREND_OPTIONS, compareTrends, detectTrends, isTrending, scoreTrend } from './trends';
+import { Article } from './types';
+
+const stableBaseline = [1000, 1020, 980, 1010, 990, 1005, 995, 1000, 1015, 985, 1000, 1010, 990, 1000];
+
+describe('scoreTrend', () => {
+  it('measures growth against the baseline median', () => {
+    const score = scoreTrend(3000, 1, stableBaseline);
+
+    expect(score.baselineMedian).toBe(1000);
+    expect(score.expectedViews).toBe(1000);
+    expect(score.growth).toBe(2000);
+    expect(score.growthPercentage).toBe(200);
+    expect(score.ratio).toBe(3);
+    expect(score.zScore).toBeGreaterThan(10);
+  });
+
+  it('compares multi-day periods through their daily mean', () => {
+    const score = scoreTrend(14000, 7, stableBaseline);
+
+    expect(score.expectedViews).toBe(7000);
+    expect(score.growth).toBe(7000);
+    expect(score.ratio).toBe(2);
+  });
+
+  it('scores breakouts from a near-empty baseline instead of hiding them, with a low reliability', () => {
+    const score = scoreTrend(50000, 1, new Array(14).fill(0));
+
+    expect(score.zScore).toBeGreaterThan(1000);
+    expect(score.reliability).toBe('low');
+    expect(isTrending(50000, score)).toBe(true);
+  });
+
+  it('rates mostly zero-filled baselines as low', () => {
+    const zeroFilled = [0, 0, 0, 0, 0, 0, 1000, 1000, 1000, 1000, 1000, 1000, 0, 0];
+
+    expect(scoreTrend(20000, 1, zeroFilled).reliability).toBe('low');
+    expect(scoreTrend(20000, 1, [0, ...stableBaseline.slice(1)]).reliability).not.toBe('low');
+  });
+
+  it('lowers reliability for erratic or short baselines', () => {
+    const erratic = [100, 5000, 50, 8000, 10, 3000, 200, 9000, 0, 4000, 100, 7000, 20, 6000];
+
+    expect(scoreTrend(20000, 1, stableBaseline).reliability).toBe('high');
+    expect(scoreTrend(20000, 1, erratic).reliability).toBe('low');
+    expect(scoreTrend(20000, 1, [1000, 1000, 1000]).reliability).toBe('low');
+  });
+
+  it('does not flag ordinary noise as a trend', () => {
+    const score = scoreTrend(1030, 1, stableBaseline);
+
+    expect(score.growth).toBeGreaterThan(0);
+    expect(isTrending(1030, score)).toBe(false);
+  });
+});
+
+describe('isTrending', () => {
+  it('enforces the minimum-views threshold', () => {
+    const score = scoreTrend(900, 1, new Array(14).fill(10));
+
+    expect(isTrending(900, score)).toBe(false);
+    expect(isTrending(900, score, { ...DEFAULT_TREND_OPTIONS, minViews: 500 })).toBe(true);
+  });
+});
+
+describe('detectTrends', () => {
+  it('keeps significant risers, skips candidates without baseline and sorts by reliability then score', () => {
+    const candidates: Article[] = [
+      { article: 'Stable', views: 1000 },
+      { article: 'Erratic_riser', views: 30000 },
+      { article: 'Steady_riser', views: 5000 },
+      { article: 'Big_steady_riser', views: 20000 },
+      { article: 'Unknown', views: 80000 }
+    ];
+    const baselines = new Map([
+      ['Stable', stableBaseline],
+      ['Erratic_riser', [100, 5000, 50, 8000, 10, 3000, 200, 9000, 0, 4000, 100, 7000, 20, 6000]],
+      ['Steady_riser', stableBaseline],
+      ['Big_steady_riser', stableBaseline]
+    ]);
+
+    const trends = detectTrends(candidates, baselines, 1);
+
+    expect(trends.map(a => a.article)).toEqual(['Big_steady_riser', 'Steady_riser', 'Erratic_riser']);
+    expect(trends[0]).toMatchObject({ growth: 19000, previousViews: 1000, reliability: 'high' });
+    expect(trends[2].reliability).toBe('low');
+  });
+});
+
+describe('compareTrends', () => {
+  it('treats missing reliability as low', () => {
+    const ranked = [
+      { article: 'A', views: 1, trendScore: 10 },
+      { article: 'B', views: 1, trendScore: 3, reliability: 'medium' as const }
+    ].sort(compareTrends);
+
+    expect(ranked.map(a => a.article)).toEqual(['B', 'A']);
+  });
+});
@@ -0,0 +1,143 @@
+import { Article } from './types';
+import { median } from './history';
+
+export type Reliability = 'low' | 'medium' | 'high';
+
+export interface TrendOptions {
+  /** Vues minimales sur la période pour qu'un article soit retenu */
+  minViews: number;
+  /** Score z minimal (par rapport à la médiane de référence) pour être considéré en progression */
+  minZScore: number;
+  /** Nombre minimal de jours de référence pour une fiabilité supérieure à `low` */
+  minBaselineDays: number;
+}
+
+export const DEFAULT_TREND_OPTIONS: TrendOptions = {
+  minViews: 1000,
+  minZScore: 2,
+  minBaselineDays: 7
+};
+
+export interface TrendScore {
+  /** Médiane des vues quotidiennes sur la fenêtre de référence */
+  baselineMedian: number;
+  /** Vues attendues sur la période si l'article restait à sa médiane */
+  expectedViews: number;
+  growth: number;
+  growthPercentage: number;
+  /** Rapport entre la moyenne quotidienne de la période et la médiane de référence */
+  ratio: number;
+  /** Écart à la médiane exprimé en écarts robustes (MAD) */
+  zScore: number;
+  reliability: Reliability;
+}
+
+// Facteur rendant la MAD comparable à un écart-type pour une loi normale
+const MAD_SCALE = 1.4826;
+
+const RELIABILITY_RANK: Record<Reliability, number> = { low: 0, medium: 1, high: 2 };
+
+/**
+ * Écart-type divisé par la moyenne (0 pour une série nulle ou vide)
+ */
+export function coefficientOfVariation(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (mean === 0) return 0;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance) / mean;
+}
+
+/**
+ * Fiabilité d'une tendance selon la stabilité de la référence :
+ * une base régulière rend un pic significatif, une base erratique le rend douteux.
+ * Les jours à 0 sont souvent des jours sans donnée (hors des tops quotidiens suisses, par exemple) :
+ * une base nulle ou surtout faite de zéros n'est pas fiable.
+ */
+function baselineReliability(baseline: number[], options: TrendOptions): Reliability {
+  const observedDays = baseline.filter(views => views > 0).length;
+  if (observedDays < options.minBaselineDays || observedDays * 2 < baseline.length) return 'low';
+  const cv = coefficientOfVariation(baseline);
+  if (cv <= 0.5) return 'high';
+  if (cv <= 1) return 'medium';
+  return 'low';
+}
+
+/**
+ * Évalue un article par rapport à sa propre référence récente.
+ * `views` couvre `windowLength` jours ; `baseline` contient les vues quotidiennes
+ * des jours précédant la période.
+ */
+export function scoreTrend(
+  views: number,
+  windowLength: number,
+  baseline: number[],
+  options: TrendOptions = DEFAULT_TREND_OPTIONS
+): TrendScore {
+  const baselineMedian = median(baseline);
+  const mad = median(baseline.map(v => Math.abs(v - baselineMedian)));
+  // Plancher de bruit : poissonnien (√médiane), et au moins une vue
+  const scale = Math.max(mad * MAD_SCALE, Math.sqrt(baselineMedian), 1);
+
+  const dailyMean = views / windowLength;
+  const expectedViews = baselineMedian * windowLength;
+  const growth = views - expectedViews;
+
+  return {
+    baselineMedian,
+    expectedViews,
+    growth,
+    growthPercentage: (growth / Math.max(expectedViews, 1)) * 100,
+    ratio: dailyMean / Math.max(baselineMedian, 1),
+    zScore: (dailyMean - baselineMedian) / scale,
+    reliability: baselineReliability(baseline, options)
+  };
+}
+
+/**
+ * Vrai si le score dépasse les seuils de vues et de significativité
+ */
+export function isTrending(views: number, score: TrendScore, options: TrendOptions = DEFAULT_TREND_OPTIONS): boolean {
+  return views >= options.minViews && score.growth > 0 && score.zScore >= options.minZScore;
+}
+
+/**
+ * Applique le moteur de tendances à une liste de candidats et trie le résultat
+ * (fiabilité, puis score z). Les candidats sans référence sont ignorés.
+ */
+export function detectTrends(
+  candidates: Article[],
+  baselines: Map<string, number[]>,
+  windowLength: number,
+  options: TrendOptions = DEFAULT_TREND_OPTIONS
+): Article[] {
+  const trends: Article[] = [];
+
+  candidates.forEach(candidate => {
+    const baseline = baselines.get(candidate.article);
+    if (!baseline) return;
+
+    const score = scoreTrend(candidate.views, windowLength, baseline, options);
+    if (!isTrending(candidate.views, score, options)) return;
+
+    trends.push({
+      ...candidate,
+      growth: Math.round(score.growth),
+      growthPercentage: score.growthPercentage,
+      previousViews: Math.round(score.expectedViews),
+      reliability: score.reliability,
+      trendScore: score.zScore
+    });
+  });
+
+  return trends.sort(compareTrends);
+}
+
+/**
+ * Ordre d'affichage des tendances : fiabilité décroissante, puis score z décroissant
+ */
+export function compareTrends(a: Article, b: Article): number {
+  const reliabilityDiff = RELIABILITY_RANK[b.reliability || 'low'] - RELIABILITY_RANK[a.reliability || 'low'];
+  if (reliabilityDiff !== 0) return reliabilityDiff;
+  return (b.trendScore || 0) - (a.trendScore || 0);
+}
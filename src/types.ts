@@ -3,22 +3,99 @@ export interface Article {
   views: number;
   growth?: number;
   growthPercentage?: number;
+  /** Vues attendues sur la période d'après la référence récente de l'article */
   previousViews?: number;
+  /** Fiabilité de la tendance, selon la stabilité de la référence de l'article */
   reliability?: 'low' | 'medium' | 'high';
+  /** Score z de la période par rapport à la médiane de référence (onglet tendances) */
+  trendScore?: number;
   metadata?: {
     description?: string;
     thumbnail?: string;
     categories?: string[];
     extract?: string;
   };
-  languages?: Record<string, number>;
-  mainLanguage?: string;
+  /** Vues par wiki pour les lignes fusionnées (mode « Toute la Suisse ») */
+  languages?: Partial<Record<Language, number>>;
+  mainLanguage?: Language;
+  /** Titre de l'article sur chaque wiki fusionné */
+  localTitles?: Partial<Record<Language, string>>;
   dailyViews?: number[];
+  /** Élément Wikidata de l'article (QID) */
+  wikidataId?: string;
+  /** Pertinence suisse (0 à 1) calculée depuis les déclarations Wikidata */
+  swissScore?: number;
+  swissSignals?: SwissSignal[];
+  /** Vues par mode d'accès sur la période */
+  accessViews?: Partial<Record<AccessMethod, number>>;
+  /** Vues humaines et automatisées (séries par article, tous accès) sur la période */
+  agentViews?: { user: number; automated: number };
+  /** Indices de trafic non humain ; vide ou absent si rien de suspect */
+  suspicion?: SuspicionFlag[];
+  /** Thème attribué d'après les catégories et la description, absent si rien ne correspond */
+  topic?: Topic;
+  /** Page d'homonymie (propriété `disambiguation` de MediaWiki) */
+  disambiguation?: boolean;
+  /** Métadonnées (description, vignette, thème) non chargées : l'enrichissement a échoué */
+  metadataUnavailable?: boolean;
+  /** Modifications de l'article sur la période (onglet tendances), absent si inconnues */
+  editActivity?: EditActivity;
 }
 
+/**
+ * Activité éditoriale d'un article sur la période ; pour les lignes fusionnées,
+ * celle de l'article du wiki principal
+ */
+export interface EditActivity {
+  /** Modifications pendant la période */
+  edits: number;
+  /** Contributeurs distincts (hors comptes masqués) pendant la période */
+  editors: number;
+  /** Modifications par jour, en moyenne, sur la période */
+  dailyEdits: number;
+  /** Modifications par jour, en moyenne, sur la période de référence */
+  baselineDailyEdits: number;
+  /** Dernière modification de la période ; `summary` est le résumé de modification */
+  lastEdit?: { timestamp: string; user?: string; summary?: string };
+  /** Vues et modifications en hausse ensemble : la tendance suit un article activement rédigé */
+  editDriven: boolean;
+}
+
+/** Déclaration Wikidata rattachant un article à la Suisse */
+export type SwissSignal = 'country' | 'citizenship' | 'location' | 'headquarters' | 'origin' | 'birthplace';
+
+/**
+ * Indice de trafic artificiel :
+ * - `desktop-skew` : quasi toutes les vues viennent d'ordinateurs
+ * - `automated-traffic` : forte part de vues classées « automated » par Wikimedia
+ * - `flat-profile` : vues quotidiennes presque constantes sur la période
+ * - `unexplained-spike` : pic marqué sans aucune modification de l'article
+ */
+export type SuspicionFlag = 'desktop-skew' | 'automated-traffic' | 'flat-profile' | 'unexplained-spike';
+
+/** Thème d'un article ; `deaths` regroupe les personnes décédées récemment (nécrologies) */
+export type Topic = 'politics' | 'sport' | 'culture' | 'science' | 'people' | 'places' | 'companies' | 'deaths';
+
+/** Mode d'accès distingué par l'API Pageviews */
+export type AccessMethod = 'desktop' | 'mobile-web' | 'mobile-app';
+export type AccessFilter = 'all-access' | AccessMethod;
+/** Type d'agent des séries par article (`user` : humains, comme les classements /top) */
+export type Agent = 'all-agents' | 'user' | 'automated' | 'spider';
+
 export type Period = 'daily' | '48h' | 'weekly' | 'monthly';
-export type Language = 'fr' | 'en' | 'de' | 'es';
-export type Tab = 'mostViewed' | 'trending';
+export type Language = 'fr' | 'en' | 'de' | 'es' | 'it' | 'rm';
+/** Un wiki unique, ou `ch` pour les wikis des quatre langues nationales fusionnés */
+export type LanguageSelection = Language | 'ch';
+/** Onglets de classement (exportables) */
+export type RankingTab = 'mostViewed' | 'trending';
+export type Tab = RankingTab | 'watchlist' | 'compare' | 'traffic';
+/**
+ * Filtre suisse :
+ * - `readers` : articles lus depuis la Suisse (endpoint top-per-country/CH)
+ * - `topics` : articles dont le sujet concerne la Suisse, d'après un score de pertinence calculé
+ *   sur leurs déclarations Wikidata (pays, nationalité, localisation…, voir swissRelevance.ts)
+ */
+export type SwissFilter = 'none' | 'readers' | 'topics';
 
 export interface ApiResponse {
   items: {
@@ -26,6 +103,64 @@ export interface ApiResponse {
   }[];
 }
 
+export interface CountryTopResponse {
+  items: {
+    country: string;
+    access: string;
+    articles: {
+      article: string;
+      project: string;
+      views_ceil: number;
+      rank: number;
+    }[];
+  }[];
+}
+
+export interface PerArticleResponse {
+  items?: {
+    article?: string;
+    timestamp: string;
+    views: number;
+  }[];
+}
+
+export interface AggregateResponse {
+  items?: {
+    timestamp: string;
+    views: number;
+  }[];
+}
+
+export interface PagePropsResponse {
+  query?: {
+    normalized?: { from: string; to: string }[];
+    pages: {
+      title: string;
+      missing?: boolean;
+      pageprops?: {
+        wikibase_item?: string;
+      };
+    }[];
+  };
+}
+
+export interface WikidataClaim {
+  mainsnak: {
+    datavalue?: {
+      value?: { id?: string } | string | number;
+    };
+  };
+}
+
+export interface WikidataEntity {
+  id: string;
+  claims?: Record<string, WikidataClaim[]>;
+}
+
+export interface WikidataEntitiesResponse {
+  entities: Record<string, WikidataEntity & { missing?: string }>;
+}
+
 export interface WikipediaCategory {
   title: string;
   pageId?: number;
@@ -48,6 +183,32 @@ export interface MediaWikiResponse {
       thumbnail?: ThumbnailInfo;
       categories?: WikipediaCategory[];
       extract?: string;
+      pageprops?: {
+        disambiguation?: string;
+      };
+    }[];
+  };
+  /** Paramètres à renvoyer pour obtenir la suite des propriétés (catégories, extraits) */
+  continue?: Record<string, string>;
+}
+
+/** Réponse `meta=siteinfo` (`siprop=general|namespaces|namespacealiases`, `formatversion=2`) */
+export interface SiteInfoResponse {
+  query: {
+    general: {
+      mainpage: string;
+    };
+    namespaces: Record<string, { id: number; name: string; canonical?: string }>;
+    namespacealiases?: { id: number; alias: string }[];
+  };
+}
+
+export interface RevisionsResponse {
+  query?: {
+    pages: {
+      title: string;
+      missing?: boolean;
+      revisions?: { timestamp: string; user?: string; comment?: string }[];
     }[];
   };
 }
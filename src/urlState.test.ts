@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VIEW_STATE, parseViewDate, parseViewState, serializeViewState } from './urlState';
+
+const latestDate = new Date(2026, 2, 1);
+
+describe('parseViewState', () => {
+  it('reads a shared link', () => {
+    const params = new URLSearchParams('lang=de&period=weekly&date=2026-03-01&swiss=readers&tab=trending&access=mobile-web&compare=it,rm');
+
+    expect(parseViewState(params, latestDate)).toEqual({
+      tab: 'trending', language: 'de', period: 'weekly', swissFilter: 'readers', access: 'mobile-web', date: '2026-03-01',
+      compareLanguages: ['it', 'rm']
+    });
+  });
+
+  it('accepts the legacy boolean swiss flag', () => {
+    expect(parseViewState(new URLSearchParams('swiss=1')).swissFilter).toBe('topics');
+    expect(parseViewState(new URLSearchParams('swiss=0')).swissFilter).toBe('none');
+  });
+
+  it('falls back to defaults for unknown values', () => {
+    expect(parseViewState(new URLSearchParams('lang=xx&period=yearly&tab=foo&swiss=maybe&access=tv&date=hier'))).toEqual(DEFAULT_VIEW_STATE);
+  });
+
+  it('needs at least two distinct known wikis to compare', () => {
+    expect(parseViewState(new URLSearchParams('compare=fr,fr,xx')).compareLanguages).toEqual(['fr', 'de']);
+    expect(parseViewState(new URLSearchParams('compare=de,fr,it')).compareLanguages).toEqual(['de', 'fr', 'it']);
+  });
+});
+
+describe('parseViewDate', () => {
+  it('rejects malformed, impossible and out-of-range dates', () => {
+    expect(parseViewDate('2026-02-30')).toBeNull();
+    expect(parseViewDate('2026-3-1')).toBeNull();
+    expect(parseViewDate('2015-06-30')).toBeNull();
+    expect(parseViewDate('2026-03-02', latestDate)).toBeNull();
+    expect(parseViewDate('2026-03-01', latestDate)).toBe('2026-03-01');
+  });
+});
+
+describe('serializeViewState', () => {
+  it('omits default values and round-trips', () => {
+    const state = { ...DEFAULT_VIEW_STATE, language: 'de' as const, period: 'weekly' as const, date: '2026-03-01', swissFilter: 'topics' as const };
+    const params = serializeViewState(state);
+
+    expect(params.toString()).toBe('lang=de&period=weekly&date=2026-03-01&swiss=topics');
+    expect(parseViewState(params, latestDate)).toEqual(state);
+    expect(serializeViewState(DEFAULT_VIEW_STATE).toString()).toBe('');
+    expect(serializeViewState({ ...DEFAULT_VIEW_STATE, tab: 'compare', compareLanguages: ['fr', 'it'] }).toString()).toBe('tab=compare&compare=fr%2Cit');
+  });
+});
@@ -0,0 +1,115 @@
+import { format, isValid, parseISO } from 'date-fns';
+import { DEFAULT_COMPARISON_LANGUAGES } from './comparison';
+import { AccessFilter, Language, LanguageSelection, Period, RankingTab, SwissFilter, Tab } from './types';
+
+/**
+ * Vue affichée, telle qu'encodée dans l'URL (`?tab=&lang=&period=&swiss=&access=&date=&compare=`)
+ */
+export interface ViewState {
+  tab: Tab;
+  language: LanguageSelection;
+  period: Period;
+  swissFilter: SwissFilter;
+  access: AccessFilter;
+  /** Dernier jour de la période (yyyy-MM-dd), null pour les données les plus récentes */
+  date: string | null;
+  /** Wikis de l'onglet « Comparer » (au moins deux) */
+  compareLanguages: Language[];
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  tab: 'mostViewed',
+  language: 'fr',
+  period: 'daily',
+  swissFilter: 'none',
+  access: 'all-access',
+  date: null,
+  compareLanguages: DEFAULT_COMPARISON_LANGUAGES
+};
+
+/** Premier jour couvert par l'API Pageviews */
+export const PAGEVIEWS_START_DATE = '2015-07-01';
+
+export const RANKING_TABS: RankingTab[] = ['mostViewed', 'trending'];
+export const TABS: Tab[] = [...RANKING_TABS, 'watchlist', 'compare', 'traffic'];
+export const LANGUAGE_SELECTIONS: LanguageSelection[] = ['fr', 'en', 'de', 'es', 'it', 'rm', 'ch'];
+export const LANGUAGES: Language[] = ['fr', 'en', 'de', 'es', 'it', 'rm'];
+export const PERIODS: Period[] = ['daily', '48h', 'weekly', 'monthly'];
+export const SWISS_FILTERS: SwissFilter[] = ['none', 'readers', 'topics'];
+export const ACCESS_FILTERS: AccessFilter[] = ['all-access', 'desktop', 'mobile-web', 'mobile-app'];
+
+// Anciennes valeurs booléennes de `swiss` (case « sujets suisses uniquement »)
+const LEGACY_SWISS_VALUES: Record<string, SwissFilter> = {
+  '0': 'none',
+  '1': 'topics'
+};
+
+/** `value` si elle fait partie des valeurs admises, sinon `fallback` */
+export function pick<T extends string>(value: string | null, allowed: T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+/**
+ * Date au format yyyy-MM-dd utilisé dans l'URL
+ */
+export function formatViewDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Valide une date d'URL : format yyyy-MM-dd, entre le début des données et `latestDate`
+ */
+export function parseViewDate(value: string | null, latestDate?: Date): string | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+
+  const date = parseISO(value);
+  if (!isValid(date) || formatViewDate(date) !== value) return null;
+  if (value < PAGEVIEWS_START_DATE) return null;
+  if (latestDate && value > formatViewDate(latestDate)) return null;
+
+  return value;
+}
+
+/**
+ * Wikis comparés (`compare=fr,de`) : codes connus, sans doublon, au moins deux
+ */
+function parseCompareLanguages(value: string | null): Language[] {
+  const languages = [...new Set((value ?? '').split(','))].filter((code): code is Language => LANGUAGES.includes(code as Language));
+  return languages.length >= 2 ? languages : DEFAULT_VIEW_STATE.compareLanguages;
+}
+
+/**
+ * Lit la vue depuis les paramètres d'URL ; toute valeur inconnue retombe sur la valeur par défaut
+ */
+export function parseViewState(params: URLSearchParams, latestDate?: Date): ViewState {
+  const swiss = params.get('swiss');
+
+  return {
+    tab: pick(params.get('tab'), TABS, DEFAULT_VIEW_STATE.tab),
+    language: pick(params.get('lang'), LANGUAGE_SELECTIONS, DEFAULT_VIEW_STATE.language),
+    period: pick(params.get('period'), PERIODS, DEFAULT_VIEW_STATE.period),
+    swissFilter: swiss !== null && swiss in LEGACY_SWISS_VALUES
+      ? LEGACY_SWISS_VALUES[swiss]
+      : pick(swiss, SWISS_FILTERS, DEFAULT_VIEW_STATE.swissFilter),
+    access: pick(params.get('access'), ACCESS_FILTERS, DEFAULT_VIEW_STATE.access),
+    date: parseViewDate(params.get('date'), latestDate),
+    compareLanguages: parseCompareLanguages(params.get('compare'))
+  };
+}
+
+/**
+ * Paramètres d'URL de la vue ; les valeurs par défaut sont omises pour garder des liens courts
+ */
+export function serializeViewState(state: ViewState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (state.language !== DEFAULT_VIEW_STATE.language) params.set('lang', state.language);
+  if (state.tab !== DEFAULT_VIEW_STATE.tab) params.set('tab', state.tab);
+  if (state.period !== DEFAULT_VIEW_STATE.period) params.set('period', state.period);
+  if (state.date) params.set('date', state.date);
+  if (state.swissFilter !== DEFAULT_VIEW_STATE.swissFilter) params.set('swiss', state.swissFilter);
+  if (state.access !== DEFAULT_VIEW_STATE.access) params.set('access', state.access);
+  if (state.compareLanguages.join(',') !== DEFAULT_VIEW_STATE.compareLanguages.join(',')) {
+    params.set('compare', state.compareLanguages.join(','));
+  }
+  return params;
+}
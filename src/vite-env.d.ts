@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Adresse du backend HelvetiScan (mode « backend »), même origine si absente */
+  readonly VITE_BACKEND_URL?: string;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_WATCHLIST_SETTINGS,
+  WatchlistStorage,
+  detectSpike,
+  loadWatchlist,
+  loadWatchlistSettings,
+  saveWatchlist,
+  saveWatchlistSettings,
+  toggleWatched
+} from './watchlist';
+import { ViewHistory } from './types';
+
+function createStorage(): WatchlistStorage {
+  const values = new Map<string, string>();
+  return {
+    getItem: key => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    }
+  };
+}
+
+function history(views: number[]): ViewHistory[] {
+  return views.map((v, i) => ({ date: `2026-02-${String(i + 1).padStart(2, '0')}`, views: v }));
+}
+
+describe('watchlist persistence', () => {
+  it('round-trips watched articles and settings', () => {
+    const storage = createStorage();
+    const items = toggleWatched([], 'Genève', 'fr', new Date('2026-03-01T08:00:00Z'));
+
+    saveWatchlist(storage, items);
+    saveWatchlistSettings(storage, { alertMultiple: 5 });
+
+    expect(loadWatchlist(storage)).toEqual([{ article: 'Genève', language: 'fr', addedAt: '2026-03-01T08:00:00.000Z' }]);
+    expect(loadWatchlistSettings(storage)).toEqual({ alertMultiple: 5 });
+  });
+
+  it('falls back to an empty list and default settings on unreadable data', () => {
+    const storage = createStorage();
+    storage.setItem('helvetiscan-watchlist', '{not json');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(loadWatchlist(storage)).toEqual([]);
+    expect(loadWatchlistSettings(storage)).toEqual(DEFAULT_WATCHLIST_SETTINGS);
+    vi.restoreAllMocks();
+  });
+});
+
+describe('toggleWatched', () => {
+  it('adds, then removes an article, keeping wikis apart', () => {
+    const added = toggleWatched(toggleWatched([], 'Genève', 'fr'), 'Genève', 'de');
+
+    expect(added.map(item => `${item.language}:${item.article}`)).toEqual(['fr:Genève', 'de:Genève']);
+    expect(toggleWatched(added, 'Genève', 'fr').map(item => item.language)).toEqual(['de']);
+  });
+});
+
+describe('detectSpike', () => {
+  const baseline = [1000, 1100, 950, 1050, 1000, 980, 1020];
+
+  it('fires when the latest day exceeds the multiple of the baseline median', () => {
+    expect(detectSpike(history([...baseline, 3500]), 3)).toMatchObject({ date: '2026-02-08', views: 3500, baseline: 1000, ratio: 3.5 });
+  });
+
+  it('stays quiet below the multiple or for tiny articles', () => {
+    expect(detectSpike(history([...baseline, 2500]), 3)).toBeNull();
+    expect(detectSpike(history([10, 12, 8, 400]), 3)).toBeNull();
+    expect(detectSpike(history([3500]), 3)).toBeNull();
+  });
+});
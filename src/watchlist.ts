@@ -0,0 +1,104 @@
+import { median } from './history';
+import { Language, ViewHistory } from './types';
+
+/** Article suivi par l'utilisateur */
+export interface WatchedArticle {
+  /** Titre tel que renvoyé par l'API Pageviews (avec soulignés) */
+  article: string;
+  language: Language;
+  /** Date d'ajout (ISO) */
+  addedAt: string;
+  /** Dernier jour (yyyy-MM-dd) ayant déclenché une alerte, pour ne notifier qu'une fois */
+  notifiedFor?: string;
+}
+
+export interface WatchlistSettings {
+  /** Multiple de la référence au-delà duquel une alerte est envoyée */
+  alertMultiple: number;
+}
+
+export const DEFAULT_WATCHLIST_SETTINGS: WatchlistSettings = {
+  alertMultiple: 3
+};
+
+// Jours précédant le dernier jour utilisés comme référence d'alerte
+const ALERT_BASELINE_DAYS = 14;
+// En dessous, un multiple de la référence n'est pas significatif
+const MIN_ALERT_VIEWS = 500;
+
+const STORAGE_KEY = 'helvetiscan-watchlist';
+const SETTINGS_KEY = 'helvetiscan-watchlist-settings';
+
+/** Sous-ensemble de `Storage` utilisé (remplaçable dans les tests) */
+export type WatchlistStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+/**
+ * Clé unique d'un article suivi (un même titre peut exister sur plusieurs wikis)
+ */
+export function watchKey(item: { article: string; language: Language }): string {
+  return `${item.language}:${item.article}`;
+}
+
+function readJson<T>(storage: WatchlistStorage, key: string): T | null {
+  try {
+    const raw = storage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch (error) {
+    console.error('Error reading watchlist:', error);
+    return null;
+  }
+}
+
+/**
+ * Articles suivis enregistrés (liste vide si rien n'est enregistré ou illisible)
+ */
+export function loadWatchlist(storage: WatchlistStorage): WatchedArticle[] {
+  const items = readJson<WatchedArticle[]>(storage, STORAGE_KEY);
+  return Array.isArray(items) ? items.filter(item => item && typeof item.article === 'string' && typeof item.language === 'string') : [];
+}
+
+export function saveWatchlist(storage: WatchlistStorage, items: WatchedArticle[]): void {
+  storage.setItem(STORAGE_KEY, JSON.stringify(items));
+}
+
+export function loadWatchlistSettings(storage: WatchlistStorage): WatchlistSettings {
+  return { ...DEFAULT_WATCHLIST_SETTINGS, ...readJson<Partial<WatchlistSettings>>(storage, SETTINGS_KEY) };
+}
+
+export function saveWatchlistSettings(storage: WatchlistStorage, settings: WatchlistSettings): void {
+  storage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Ajoute l'article s'il n'est pas suivi, le retire sinon
+ */
+export function toggleWatched(items: WatchedArticle[], article: string, language: Language, now: Date = new Date()): WatchedArticle[] {
+  const key = watchKey({ article, language });
+  return items.some(item => watchKey(item) === key)
+    ? items.filter(item => watchKey(item) !== key)
+    : [...items, { article, language, addedAt: now.toISOString() }];
+}
+
+export interface SpikeAlert {
+  date: string;
+  views: number;
+  /** Médiane des jours de référence */
+  baseline: number;
+  ratio: number;
+}
+
+/**
+ * Pic du dernier jour de l'historique par rapport à la médiane des jours précédents,
+ * ou null s'il reste sous `multiple` × la référence.
+ */
+export function detectSpike(history: ViewHistory[], multiple: number): SpikeAlert | null {
+  if (history.length < 2) return null;
+
+  const latest = history[history.length - 1];
+  const baseline = median(history.slice(-1 - ALERT_BASELINE_DAYS, -1).map(day => day.views));
+  if (latest.views < MIN_ALERT_VIEWS) return null;
+
+  // Une référence nulle rend tout pic infini : on la ramène à une vue
+  const ratio = latest.views / Math.max(baseline, 1);
+  return ratio >= multiple ? { date: latest.date, views: latest.views, baseline, ratio } : null;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_WIDGET_CONFIG, WidgetAttribute, parseWidgetConfig, serializeWidgetConfig } from './widget';
+
+const attributes = (values: Partial<Record<WidgetAttribute, string>>) => (attribute: WidgetAttribute) => values[attribute] ?? null;
+
+describe('parseWidgetConfig', () => {
+  it('reads the element attributes', () => {
+    expect(parseWidgetConfig(attributes({
+      tab: 'trending', language: 'de', period: 'weekly', 'swiss-filter': 'readers', rows: '5', theme: 'dark', compact: '', refresh: '30'
+    }))).toEqual({
+      tab: 'trending', language: 'de', period: 'weekly', swissFilter: 'readers', rows: 5, theme: 'dark', compact: true, refresh: 30
+    });
+  });
+
+  it('falls back to the defaults and clamps numbers', () => {
+    expect(parseWidgetConfig(attributes({}))).toEqual(DEFAULT_WIDGET_CONFIG);
+    expect(parseWidgetConfig(attributes({ tab: 'watchlist', theme: 'pink', rows: '500', refresh: '1', compact: 'false' })))
+      .toEqual({ ...DEFAULT_WIDGET_CONFIG, rows: 50, refresh: 5 });
+    expect(parseWidgetConfig(attributes({ rows: 'ten' })).rows).toBe(DEFAULT_WIDGET_CONFIG.rows);
+    expect(parseWidgetConfig(attributes({ rows: '', refresh: ' ' }))).toEqual(DEFAULT_WIDGET_CONFIG);
+  });
+});
+
+describe('serializeWidgetConfig', () => {
+  it('keeps only the changed settings, under the attribute names', () => {
+    const config = { ...DEFAULT_WIDGET_CONFIG, language: 'it' as const, compact: true, rows: 5 };
+    const params = serializeWidgetConfig(config);
+
+    expect(params.toString()).toBe('language=it&rows=5&compact=true');
+    expect(parseWidgetConfig(attribute => params.get(attribute))).toEqual(config);
+  });
+});
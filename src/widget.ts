@@ -0,0 +1,100 @@
+import { LANGUAGE_SELECTIONS, PERIODS, RANKING_TABS, SWISS_FILTERS, pick } from './urlState';
+import { LanguageSelection, Period, RankingTab, SwissFilter } from './types';
+
+export type WidgetTheme = 'light' | 'dark' | 'auto';
+
+/**
+ * Réglages du widget intégrable, lus depuis les attributs de `<helvetiscan-widget>`
+ * ou les paramètres d'URL de `widget.html` (mêmes noms)
+ */
+export interface WidgetConfig {
+  tab: RankingTab;
+  language: LanguageSelection;
+  period: Period;
+  swissFilter: SwissFilter;
+  /** Nombre de lignes affichées */
+  rows: number;
+  /** `auto` suit le thème clair ou sombre du système */
+  theme: WidgetTheme;
+  /** Une ligne par article, sans description ni vignette */
+  compact: boolean;
+  /** Minutes entre deux rafraîchissements */
+  refresh: number;
+}
+
+export const DEFAULT_WIDGET_CONFIG: WidgetConfig = {
+  tab: 'mostViewed',
+  language: 'ch',
+  period: 'daily',
+  swissFilter: 'none',
+  rows: 10,
+  theme: 'light',
+  compact: false,
+  refresh: 15
+};
+
+// Lignes au plus : celles dont le classement fournit les métadonnées
+const MAX_ROWS = 50;
+// Rafraîchissement le plus fréquent, en minutes (les classements changent une fois par jour)
+const MIN_REFRESH = 5;
+
+export const WIDGET_THEMES: WidgetTheme[] = ['light', 'dark', 'auto'];
+
+/** Attributs de l'élément, repris tels quels dans l'URL de l'iframe */
+export const WIDGET_ATTRIBUTES = ['tab', 'language', 'period', 'swiss-filter', 'rows', 'theme', 'compact', 'refresh'] as const;
+export type WidgetAttribute = typeof WIDGET_ATTRIBUTES[number];
+
+/** Message de `widget.html` à la page hôte lorsque la hauteur du widget change */
+export const WIDGET_RESIZE_MESSAGE = 'helvetiscan:resize';
+
+// Un attribut vide compte comme absent (`Number('')` vaudrait 0)
+function integer(value: string | null, min: number, max: number, fallback: number): number {
+  const number = Number(value);
+  return value !== null && value.trim() !== '' && Number.isInteger(number) ? Math.min(Math.max(number, min), max) : fallback;
+}
+
+/**
+ * Lit les réglages ; toute valeur inconnue retombe sur la valeur par défaut.
+ * `compact` est un attribut booléen : présent (vide ou `true`) ou absent.
+ */
+export function parseWidgetConfig(get: (attribute: WidgetAttribute) => string | null): WidgetConfig {
+  const compact = get('compact');
+
+  return {
+    tab: pick(get('tab'), RANKING_TABS, DEFAULT_WIDGET_CONFIG.tab),
+    language: pick(get('language'), LANGUAGE_SELECTIONS, DEFAULT_WIDGET_CONFIG.language),
+    period: pick(get('period'), PERIODS, DEFAULT_WIDGET_CONFIG.period),
+    swissFilter: pick(get('swiss-filter'), SWISS_FILTERS, DEFAULT_WIDGET_CONFIG.swissFilter),
+    rows: integer(get('rows'), 1, MAX_ROWS, DEFAULT_WIDGET_CONFIG.rows),
+    theme: pick(get('theme'), WIDGET_THEMES, DEFAULT_WIDGET_CONFIG.theme),
+    compact: compact === null ? DEFAULT_WIDGET_CONFIG.compact : compact !== 'false',
+    refresh: integer(get('refresh'), MIN_REFRESH, 24 * 60, DEFAULT_WIDGET_CONFIG.refresh)
+  };
+}
+
+function attributeValues(config: WidgetConfig): Record<WidgetAttribute, string> {
+  return {
+    tab: config.tab,
+    language: config.language,
+    period: config.period,
+    'swiss-filter': config.swissFilter,
+    rows: String(config.rows),
+    theme: config.theme,
+    compact: String(config.compact),
+    refresh: String(config.refresh)
+  };
+}
+
+/**
+ * Paramètres d'URL de `widget.html` ; les valeurs par défaut sont omises
+ */
+export function serializeWidgetConfig(config: WidgetConfig): URLSearchParams {
+  const values = attributeValues(config);
+  const defaults = attributeValues(DEFAULT_WIDGET_CONFIG);
+
+  const params = new URLSearchParams();
+  WIDGET_ATTRIBUTES.forEach(attribute => {
+    if (values[attribute] !== defaults[attribute]) params.set(attribute, values[attribute]);
+  });
+  return params;
+}
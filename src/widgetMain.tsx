@@ -0,0 +1,19 @@
+import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import Widget from './components/Widget';
+import { WIDGET_RESIZE_MESSAGE, WidgetAttribute, parseWidgetConfig } from './widget';
+import './widget.css';
+
+const params = new URLSearchParams(window.location.search);
+const config = parseWidgetConfig((attribute: WidgetAttribute) => params.get(attribute));
+
+// La page hôte (`embed.js`) ajuste la hauteur de l'iframe au contenu
+new ResizeObserver(() => {
+  window.parent.postMessage({ type: WIDGET_RESIZE_MESSAGE, height: document.documentElement.scrollHeight }, '*');
+}).observe(document.body);
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <Widget config={config} />
+  </StrictMode>
+);
@@ -1,10 +1,29 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { backendPlugin } from './src/backendPlugin';
+import { pwaPlugin } from './src/pwaPlugin';
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ isSsrBuild }) => ({
+  plugins: [react(), backendPlugin(), pwaPlugin()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
-});
+  // Ligne de commande et serveur (`--ssr`) : un seul fichier, sans les fichiers statiques de l'application
+  publicDir: isSsrBuild ? false : 'public',
+  build: {
+    rollupOptions: isSsrBuild ? {} : {
+      // Application, page du widget, script d'intégration des sites partenaires et service worker
+      input: {
+        main: 'index.html',
+        widget: 'widget.html',
+        embed: 'src/embed.ts',
+        sw: 'src/serviceWorker.ts',
+      },
+      output: {
+        // Adresses stables : /embed.js pour les partenaires, /sw.js pour couvrir tout le site
+        entryFileNames: chunk => (['embed', 'sw'].includes(chunk.name) ? `${chunk.name}.js` : 'assets/[name]-[hash].js'),
+      },
+    },
+  },
+}));